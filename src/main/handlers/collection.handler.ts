@@ -0,0 +1,145 @@
+import { ipcMain, BrowserWindow } from 'electron';
+import { CollectionService } from '../services/collection.service';
+import { VectorStore } from '../services/vector-store';
+import { StatisticsService } from '../services/statistics.service';
+import { DatabaseManager } from '../services/database';
+import { OPERATION_CANCELLED, OperationRegistry } from '../services/operation-registry';
+import Logger from '../services/logger';
+import { CreateCollectionRequest, EmbeddingStorageFormat, HnswParameters, ReembedOptions } from '../../shared/types/collection';
+
+export class CollectionHandler {
+    private service!: CollectionService;
+    private vectorStore!: VectorStore;
+    private statisticsService!: StatisticsService;
+    private operations!: OperationRegistry;
+    private logger: Logger;
+    private initialized: boolean = false;
+
+    constructor() {
+        this.logger = Logger.getInstance();
+    }
+
+    async initialize() {
+        if (this.initialized) {
+            return this;
+        }
+
+        try {
+            const db = DatabaseManager.getInstance().getDatabase();
+            this.service = new CollectionService(db);
+            this.vectorStore = await VectorStore.create();
+            this.statisticsService = new StatisticsService();
+            this.operations = OperationRegistry.getInstance();
+            this.registerHandlers();
+            this.initialized = true;
+            return this;
+        } catch (error) {
+            this.logger.error('Failed to initialize collection handler:', error as Error);
+            throw error;
+        }
+    }
+
+    private registerHandlers(): void {
+        ipcMain.handle('collection:list', async () => {
+            try {
+                this.logger.debug('collection:list handler called');
+                return await this.service.getCollections();
+            } catch (error) {
+                const err = error as Error;
+                this.logger.error('Error in collection:list handler:', err);
+                return { success: false, collections: [], error: err.message };
+            }
+        });
+
+        ipcMain.handle('collection:create', async (_, request: CreateCollectionRequest) => {
+            try {
+                this.logger.debug(`collection:create handler called with request: ${JSON.stringify(request)}`);
+                return await this.service.createCollection(request);
+            } catch (error) {
+                const err = error as Error;
+                this.logger.error('Error in collection:create handler:', err);
+                return { success: false, error: err.message };
+            }
+        });
+
+        ipcMain.handle('collection:rename', async (_, id: number, name: string) => {
+            try {
+                this.logger.debug(`collection:rename handler called with id: ${id}, name: ${name}`);
+                return await this.service.renameCollection(id, name);
+            } catch (error) {
+                const err = error as Error;
+                this.logger.error(`Error in collection:rename handler for id ${id}:`, err);
+                return { success: false, error: err.message };
+            }
+        });
+
+        ipcMain.handle('collection:delete', async (_, id: number) => {
+            try {
+                this.logger.debug(`collection:delete handler called with id: ${id}`);
+                this.vectorStore.assertCollectionIdle(id);
+                const result = await this.service.deleteCollection(id);
+                if (result.success) {
+                    this.vectorStore.dropCollectionIndex(id);
+                    await this.statisticsService.syncDocumentCounts();
+                }
+                return result;
+            } catch (error) {
+                const err = error as Error;
+                this.logger.error(`Error in collection:delete handler for id ${id}:`, err);
+                return { success: false, error: err.message };
+            }
+        });
+
+        ipcMain.handle('collection:update-index-parameters', async (_, id: number, params: Partial<HnswParameters>) => {
+            try {
+                this.logger.debug(`collection:update-index-parameters handler called with id: ${id}, params: ${JSON.stringify(params)}`);
+                return await this.vectorStore.updateIndexParameters(id, params);
+            } catch (error) {
+                const err = error as Error;
+                this.logger.error(`Error in collection:update-index-parameters handler for id ${id}:`, err);
+                return { success: false, error: err.message };
+            }
+        });
+
+        ipcMain.handle('collection:set-embedding-storage', async (_, id: number, format: EmbeddingStorageFormat) => {
+            try {
+                this.logger.debug(`collection:set-embedding-storage handler called with id: ${id}, format: ${format}`);
+                return await this.service.setEmbeddingStorage(id, format);
+            } catch (error) {
+                const err = error as Error;
+                this.logger.error(`Error in collection:set-embedding-storage handler for id ${id}:`, err);
+                return { success: false, error: err.message };
+            }
+        });
+
+        ipcMain.handle('collection:reembed', async (event, id: number, embeddingProviderId: number, options: ReembedOptions = {}) => {
+            try {
+                this.logger.info(`Re-embedding collection ${id} with embedding provider ${embeddingProviderId}`);
+
+                // Get the window to send progress updates
+                const window = BrowserWindow.fromWebContents(event.sender);
+
+                const result = await this.operations.run('reembed', options.operationId, signal =>
+                    this.vectorStore.reembedCollection(id, embeddingProviderId, (progress) => {
+                        if (window && !window.isDestroyed()) {
+                            setImmediate(() => {
+                                window.webContents.send('collection:reembed-progress', progress);
+                            });
+                        }
+                    }, signal)
+                );
+
+                this.logger.info(`Re-embedded ${result.vectorCount} chunks in collection ${id}`);
+                return { success: true, result };
+            } catch (error) {
+                const err = error as Error;
+                if (err.message === OPERATION_CANCELLED) {
+                    this.logger.info(`Re-embedding of collection ${id} cancelled`);
+                    return { success: false, cancelled: true, error: 'Re-embed cancelled' };
+                }
+                this.logger.error(`Error in collection:reembed handler for id ${id}:`, err);
+                return { success: false, error: err.message };
+            }
+        });
+    }
+}
@@ -0,0 +1,139 @@
+import { ipcMain, BrowserWindow } from 'electron';
+import { VectorStore } from '../services/vector-store';
+import { StatisticsService } from '../services/statistics.service';
+import { DatabaseManager } from '../services/database';
+import Logger from '../services/logger';
+import { DuplicateResolution, DuplicateScanOptions } from '../../shared/types/document';
+
+export class DocumentHandler {
+    private vectorStore!: VectorStore;
+    private statisticsService!: StatisticsService;
+    private logger: Logger;
+    private initialized: boolean = false;
+
+    constructor() {
+        this.logger = Logger.getInstance();
+    }
+
+    async initialize() {
+        if (this.initialized) {
+            return this;
+        }
+
+        try {
+            this.vectorStore = await VectorStore.create();
+            this.statisticsService = new StatisticsService();
+            this.registerHandlers();
+            this.initialized = true;
+            return this;
+        } catch (error) {
+            this.logger.error('Failed to initialize document handler:', error as Error);
+            throw error;
+        }
+    }
+
+    private registerHandlers(): void {
+        ipcMain.handle('documents:list', async (_, collectionId: number) => {
+            try {
+                this.logger.debug(`documents:list handler called for collection ${collectionId}`);
+                const documents = DatabaseManager.getInstance().getDocumentSummaries(collectionId);
+                return { success: true, documents };
+            } catch (error) {
+                const err = error as Error;
+                this.logger.error('Error in documents:list handler:', err);
+                return { success: false, documents: [], error: err.message };
+            }
+        });
+
+        ipcMain.handle('documents:delete', async (_, collectionId: number, source: string) => {
+            try {
+                this.logger.info(`Deleting ${source} from collection ${collectionId}`);
+                const result = await this.vectorStore.deleteDocument(collectionId, source);
+                await this.broadcastStatistics();
+                return { success: true, result };
+            } catch (error) {
+                const err = error as Error;
+                this.logger.error(`Error in documents:delete handler for ${source}:`, err);
+                return { success: false, error: err.message };
+            }
+        });
+
+        ipcMain.handle('documents:reimport', async (event, collectionId: number, source: string) => {
+            try {
+                this.logger.info(`Re-importing ${source} into collection ${collectionId}`);
+
+                // Get the window to send progress updates
+                const window = BrowserWindow.fromWebContents(event.sender);
+
+                const result = await this.vectorStore.reimportDocument(collectionId, source, {
+                    chunkSize: 1000,
+                    overlapSize: 200
+                }, (progress) => {
+                    if (window && !window.isDestroyed()) {
+                        setImmediate(() => {
+                            window.webContents.send('import:progress', progress);
+                        });
+                    }
+                });
+
+                await this.broadcastStatistics();
+                return { success: true, result };
+            } catch (error) {
+                const err = error as Error;
+                this.logger.error(`Error in documents:reimport handler for ${source}:`, err);
+                return { success: false, error: err.message };
+            }
+        });
+
+        ipcMain.handle('documents:compact', async (_, collectionId: number) => {
+            try {
+                this.logger.info(`Compacting index for collection ${collectionId}`);
+                const result = await this.vectorStore.compactIndex(collectionId, true);
+                return { success: true, result };
+            } catch (error) {
+                const err = error as Error;
+                this.logger.error(`Error in documents:compact handler for collection ${collectionId}:`, err);
+                return { success: false, error: err.message };
+            }
+        });
+
+        ipcMain.handle('documents:find-duplicates', async (_, collectionId: number, options: DuplicateScanOptions = {}) => {
+            try {
+                this.logger.info(`Scanning collection ${collectionId} for duplicates with options: ${JSON.stringify(options)}`);
+                const report = await this.vectorStore.findDuplicates(collectionId, options);
+                return { success: true, report };
+            } catch (error) {
+                const err = error as Error;
+                this.logger.error(`Error in documents:find-duplicates handler for collection ${collectionId}:`, err);
+                return { success: false, error: err.message };
+            }
+        });
+
+        ipcMain.handle('documents:resolve-duplicates', async (_, collectionId: number, resolution: DuplicateResolution) => {
+            try {
+                this.logger.info(`Resolving duplicates in collection ${collectionId}: ${JSON.stringify(resolution)}`);
+                const result = await this.vectorStore.resolveDuplicates(collectionId, resolution);
+                await this.broadcastStatistics();
+                return { success: true, result };
+            } catch (error) {
+                const err = error as Error;
+                this.logger.error(`Error in documents:resolve-duplicates handler for collection ${collectionId}:`, err);
+                return { success: false, error: err.message };
+            }
+        });
+    }
+
+    /**
+     * Recount documents and chunks and push the totals to every window.
+     */
+    private async broadcastStatistics(): Promise<void> {
+        await this.statisticsService.syncDocumentCounts();
+
+        const statistics = await this.statisticsService.getStatistics();
+        for (const win of BrowserWindow.getAllWindows()) {
+            if (!win.isDestroyed()) {
+                win.webContents.send('statistics:update', statistics);
+            }
+        }
+    }
+}
@@ -0,0 +1,90 @@
+import { ipcMain } from 'electron';
+import { EmbeddingProviderService } from '../services/embedding-provider.service';
+import Logger from '../services/logger';
+import {
+    CreateEmbeddingProviderRequest,
+    UpdateEmbeddingProviderRequest
+} from '../../shared/types/embedding-provider';
+
+export class EmbeddingProviderHandler {
+    private service!: EmbeddingProviderService;
+    private logger: Logger;
+    private initialized: boolean = false;
+
+    constructor() {
+        this.logger = Logger.getInstance();
+    }
+
+    async initialize() {
+        if (this.initialized) {
+            return this;
+        }
+
+        try {
+            this.service = EmbeddingProviderService.getInstance();
+            this.registerHandlers();
+            this.initialized = true;
+            return this;
+        } catch (error) {
+            this.logger.error('Failed to initialize embedding provider handler:', error as Error);
+            throw error;
+        }
+    }
+
+    private registerHandlers(): void {
+        ipcMain.handle('embedding-provider:list', async () => {
+            try {
+                this.logger.debug('embedding-provider:list handler called');
+                return await this.service.getProviders();
+            } catch (error) {
+                const err = error as Error;
+                this.logger.error('Error in embedding-provider:list handler:', err);
+                return { success: false, providers: [], error: err.message };
+            }
+        });
+
+        ipcMain.handle('embedding-provider:create', async (_, request: CreateEmbeddingProviderRequest) => {
+            try {
+                this.logger.debug(`embedding-provider:create handler called with type: ${request?.type}`);
+                return await this.service.createProvider(request);
+            } catch (error) {
+                const err = error as Error;
+                this.logger.error('Error in embedding-provider:create handler:', err);
+                return { success: false, error: err.message };
+            }
+        });
+
+        ipcMain.handle('embedding-provider:update', async (_, id: number, request: UpdateEmbeddingProviderRequest) => {
+            try {
+                this.logger.debug(`embedding-provider:update handler called with id: ${id}`);
+                return await this.service.updateProvider(id, request);
+            } catch (error) {
+                const err = error as Error;
+                this.logger.error(`Error in embedding-provider:update handler for id ${id}:`, err);
+                return { success: false, error: err.message };
+            }
+        });
+
+        ipcMain.handle('embedding-provider:delete', async (_, id: number) => {
+            try {
+                this.logger.debug(`embedding-provider:delete handler called with id: ${id}`);
+                return await this.service.deleteProvider(id);
+            } catch (error) {
+                const err = error as Error;
+                this.logger.error(`Error in embedding-provider:delete handler for id ${id}:`, err);
+                return { success: false, error: err.message };
+            }
+        });
+
+        ipcMain.handle('embedding-provider:test', async (_, id: number) => {
+            try {
+                this.logger.debug(`embedding-provider:test handler called with id: ${id}`);
+                return await this.service.testProvider(id);
+            } catch (error) {
+                const err = error as Error;
+                this.logger.error(`Error in embedding-provider:test handler for id ${id}:`, err);
+                return { success: false, error: err.message };
+            }
+        });
+    }
+}
@@ -1,11 +1,18 @@
 import { ipcMain, dialog, BrowserWindow } from 'electron';
 import { VectorStore } from '../services/vector-store';
 import { StatisticsService } from '../services/statistics.service';
+import { CollectionService } from '../services/collection.service';
+import { DatabaseManager } from '../services/database';
+import { OPERATION_CANCELLED, OperationRegistry } from '../services/operation-registry';
 import Logger from '../services/logger';
+import { DEFAULT_COLLECTION_ID } from '../../shared/types/collection';
+import { FolderImportOptions, ImportOperationOptions } from '../../shared/types/api';
 
 export class ImportHandler {
     private vectorStore!: VectorStore;
     private statisticsService!: StatisticsService;
+    private collectionService!: CollectionService;
+    private operations!: OperationRegistry;
     private logger: Logger;
     private initialized: boolean = false;
 
@@ -21,6 +28,8 @@ export class ImportHandler {
         try {
             this.vectorStore = await VectorStore.create();
             this.statisticsService = new StatisticsService();
+            this.collectionService = new CollectionService(DatabaseManager.getInstance().getDatabase());
+            this.operations = OperationRegistry.getInstance();
             this.registerHandlers();
             this.initialized = true;
             return this;
@@ -31,7 +40,7 @@ export class ImportHandler {
     }
 
     private registerHandlers(): void {
-        ipcMain.handle('import:select-files', async (event) => {
+        ipcMain.handle('import:select-files', async (event, collectionId: number = DEFAULT_COLLECTION_ID, importOptions: ImportOperationOptions = {}) => {
             try {
                 this.logger.debug('Opening file selection dialog...');
                 const result = await dialog.showOpenDialog({
@@ -44,7 +53,7 @@ export class ImportHandler {
 
                 if (!result.canceled && result.filePaths.length > 0) {
                     const filePaths = result.filePaths;
-                    this.logger.info(`Selected ${filePaths.length} files for import`);
+                    this.logger.info(`Selected ${filePaths.length} files for import into collection ${collectionId}`);
                     
                     // Get the window to send progress updates
                     const window = BrowserWindow.fromWebContents(event.sender);
@@ -56,31 +65,32 @@ export class ImportHandler {
                         skipDuplicates: true
                     };
                     
-                    const importResult = await this.vectorStore.importFiles(filePaths, {
-                        chunkSize: currentSettings.chunkSize,
-                        overlapSize: currentSettings.overlapSize,
-                        skipDuplicates: currentSettings.skipDuplicates
-                    }, (progress) => {
-                        // Send progress updates to the renderer
-                        if (window && !window.isDestroyed()) {
-                            this.logger.debug(`Sending progress update: ${JSON.stringify(progress)}`);
-                            setImmediate(() => {
-                                window.webContents.send('import:progress', progress);
-                            });
-                        }
-                    });
+                    const importResult = await this.operations.run('import', importOptions.operationId, signal =>
+                        this.vectorStore.importFiles(collectionId, filePaths, {
+                            chunkSize: currentSettings.chunkSize,
+                            overlapSize: currentSettings.overlapSize,
+                            skipDuplicates: currentSettings.skipDuplicates,
+                            embedding: importOptions.embedding,
+                            signal,
+                            onCancel: importOptions.onCancel
+                        }, (progress) => {
+                            // Send progress updates to the renderer
+                            if (window && !window.isDestroyed()) {
+                                this.logger.debug(`Sending progress update: ${JSON.stringify(progress)}`);
+                                setImmediate(() => {
+                                    window.webContents.send('import:progress', progress);
+                                });
+                            }
+                        })
+                    );
+                    if (importResult.cancelled) {
+                        this.logger.info(`Import into collection ${collectionId} cancelled; ${importResult.pendingFiles?.length ?? 0} files not imported`);
+                    }
                     
                     // Update statistics
-                    await this.statisticsService.updateAfterImport(importResult.filesProcessed, importResult.chunksCreated);
-                    
-                    // Send updated statistics to all windows
-                    const statistics = await this.statisticsService.getStatistics();
-                    const allWindows = BrowserWindow.getAllWindows();
-                    for (const win of allWindows) {
-                        if (!win.isDestroyed()) {
-                            win.webContents.send('statistics:update', statistics);
-                        }
-                    }
+                    await this.statisticsService.updateAfterImport(importResult.filesProcessed, importResult.vectorCount);
+                    await this.collectionService.touchLastImport(collectionId);
+                    await this.broadcastStatistics();
                     
                     return { success: true, result: importResult };
                 }
@@ -88,12 +98,15 @@ export class ImportHandler {
                 return { success: false, error: 'No files selected' };
             } catch (error) {
                 const err = error as Error;
+                if (err.message === OPERATION_CANCELLED) {
+                    return { success: false, cancelled: true, error: 'Import cancelled' };
+                }
                 this.logger.error('Error in import:select-files handler:', err);
                 return { success: false, error: err.message };
             }
         });
 
-        ipcMain.handle('import:select-folder', async (event) => {
+        ipcMain.handle('import:select-folder', async (event, collectionId: number = DEFAULT_COLLECTION_ID, folderOptions: FolderImportOptions = {}) => {
             try {
                 this.logger.debug('Opening folder selection dialog...');
                 const result = await dialog.showOpenDialog({
@@ -105,7 +118,7 @@ export class ImportHandler {
                     this.logger.debug(`Selected folder: ${folderPath}`);
                     
                     // Import the selected folder
-                    this.logger.info(`Starting import of folder: ${folderPath}...`);
+                    this.logger.info(`Starting import of folder: ${folderPath} into collection ${collectionId}...`);
                     
                     // Get the window to send progress updates
                     const window = BrowserWindow.fromWebContents(event.sender);
@@ -116,13 +129,8 @@ export class ImportHandler {
                         overlapSize: 200,
                         skipDuplicates: true
                     };
-                    
-                    const importResult = await this.vectorStore.importFiles([folderPath], {
-                        chunkSize: currentSettings.chunkSize,
-                        overlapSize: currentSettings.overlapSize,
-                        skipDuplicates: currentSettings.skipDuplicates,
-                        isDirectory: true
-                    }, (progress) => {
+
+                    const sendProgress = (progress: unknown) => {
                         // Send progress updates to the renderer
                         if (window && !window.isDestroyed()) {
                             this.logger.debug(`Sending progress update: ${JSON.stringify(progress)}`);
@@ -130,29 +138,73 @@ export class ImportHandler {
                                 window.webContents.send('import:progress', progress);
                             });
                         }
-                    });
-                    
-                    // Update statistics
-                    await this.statisticsService.updateAfterImport(importResult.filesProcessed, importResult.chunksCreated);
+                    };
+
+                    if (folderOptions.sync) {
+                        this.logger.info(`Synchronising collection ${collectionId} with ${folderPath}`);
+                        const summary = await this.operations.run('sync', folderOptions.operationId, signal =>
+                            this.vectorStore.syncFolder(collectionId, folderPath, {
+                                chunkSize: currentSettings.chunkSize,
+                                overlapSize: currentSettings.overlapSize,
+                                forceUpdate: folderOptions.forceUpdate,
+                                embedding: folderOptions.embedding,
+                                signal,
+                                onCancel: folderOptions.onCancel
+                            }, sendProgress)
+                        );
+
+                        // Sync both adds and removes, so recount instead of incrementing
+                        await this.statisticsService.syncDocumentCounts();
+                        await this.collectionService.touchLastImport(collectionId);
+                        await this.broadcastStatistics();
+
+                        return { success: true, summary };
+                    }
                     
-                    // Send updated statistics to all windows
-                    const statistics = await this.statisticsService.getStatistics();
-                    const allWindows = BrowserWindow.getAllWindows();
-                    for (const win of allWindows) {
-                        if (!win.isDestroyed()) {
-                            win.webContents.send('statistics:update', statistics);
-                        }
+                    const importResult = await this.operations.run('import', folderOptions.operationId, signal =>
+                        this.vectorStore.importFiles(collectionId, [folderPath], {
+                            chunkSize: currentSettings.chunkSize,
+                            overlapSize: currentSettings.overlapSize,
+                            skipDuplicates: currentSettings.skipDuplicates,
+                            isDirectory: true,
+                            embedding: folderOptions.embedding,
+                            signal,
+                            onCancel: folderOptions.onCancel
+                        }, sendProgress)
+                    );
+                    if (importResult.cancelled) {
+                        this.logger.info(`Import of ${folderPath} cancelled; ${importResult.pendingFiles?.length ?? 0} files not imported`);
                     }
                     
+                    // Update statistics
+                    await this.statisticsService.updateAfterImport(importResult.filesProcessed, importResult.vectorCount);
+                    await this.collectionService.touchLastImport(collectionId);
+                    await this.broadcastStatistics();
+                    
                     return { success: true, result: importResult };
                 }
                 
                 return { success: false, error: 'No folder selected' };
             } catch (error) {
                 const err = error as Error;
+                if (err.message === OPERATION_CANCELLED) {
+                    return { success: false, cancelled: true, error: 'Import cancelled' };
+                }
                 this.logger.error('Error in import:select-folder handler:', err);
                 return { success: false, error: err.message };
             }
         });
     }
+
+    /**
+     * Send updated statistics to all windows.
+     */
+    private async broadcastStatistics(): Promise<void> {
+        const statistics = await this.statisticsService.getStatistics();
+        for (const win of BrowserWindow.getAllWindows()) {
+            if (!win.isDestroyed()) {
+                win.webContents.send('statistics:update', statistics);
+            }
+        }
+    }
 }
\ No newline at end of file
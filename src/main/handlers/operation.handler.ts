@@ -0,0 +1,55 @@
+import { ipcMain } from 'electron';
+import { OperationRegistry } from '../services/operation-registry';
+import Logger from '../services/logger';
+
+export class OperationHandler {
+    private registry!: OperationRegistry;
+    private logger: Logger;
+    private initialized: boolean = false;
+
+    constructor() {
+        this.logger = Logger.getInstance();
+    }
+
+    async initialize() {
+        if (this.initialized) {
+            return this;
+        }
+
+        try {
+            this.registry = OperationRegistry.getInstance();
+            this.registerHandlers();
+            this.initialized = true;
+            return this;
+        } catch (error) {
+            this.logger.error('Failed to initialize operation handler:', error as Error);
+            throw error;
+        }
+    }
+
+    private registerHandlers(): void {
+        ipcMain.handle('operation:cancel', async (_, operationId: string) => {
+            try {
+                const cancelled = this.registry.cancel(operationId);
+                this.logger.info(cancelled
+                    ? `Cancelling operation ${operationId}`
+                    : `Cancel requested for operation ${operationId}, which is not running`);
+                return { success: true, cancelled };
+            } catch (error) {
+                const err = error as Error;
+                this.logger.error(`Error cancelling operation ${operationId}: ${err.message}`);
+                return { success: false, cancelled: false, error: err.message };
+            }
+        });
+
+        ipcMain.handle('operation:list', async () => {
+            try {
+                return { success: true, operations: this.registry.list() };
+            } catch (error) {
+                const err = error as Error;
+                this.logger.error(`Error listing operations: ${err.message}`);
+                return { success: false, operations: [], error: err.message };
+            }
+        });
+    }
+}
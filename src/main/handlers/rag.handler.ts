@@ -3,11 +3,14 @@ import { RAGService } from '../services/rag.service';
 import { VectorStore } from '../services/vector-store';
 import { LLMProviderService } from '../services/llm-provider.service';
 import { DatabaseManager } from '../services/database';
+import { OPERATION_CANCELLED, OperationRegistry } from '../services/operation-registry';
 import Logger from '../services/logger';
+import { RAGContext } from '../../shared/types/api';
 
 export class RAGHandler {
     private ragService!: RAGService;
     private llmProviderService!: LLMProviderService;
+    private operations!: OperationRegistry;
     private logger: Logger;
     private initialized: boolean = false;
 
@@ -25,6 +28,7 @@ export class RAGHandler {
             const vectorStore = await VectorStore.create();
             this.llmProviderService = new LLMProviderService(db);
             this.ragService = new RAGService(vectorStore, this.llmProviderService);
+            this.operations = OperationRegistry.getInstance();
             this.registerHandlers();
             this.initialized = true;
             return this;
@@ -35,9 +39,9 @@ export class RAGHandler {
     }
 
     private registerHandlers(): void {
-        ipcMain.handle('rag:ask-question', async (_, query: string, providerId?: number) => {
+        ipcMain.handle('rag:ask-question', async (_, query: string, providerId?: number, context: RAGContext = {}) => {
             try {
-                this.logger.info(`RAG handler: Asking question with provider ID: ${providerId || 'default'}`);
+                this.logger.info(`RAG handler: Asking question with provider ID: ${providerId || 'default'}, collection: ${context.collectionId ?? 'default'}`);
 
                 // Always require a provider ID
                 if (!providerId) {
@@ -69,12 +73,33 @@ export class RAGHandler {
                 
                 // Generate the response using the specified provider
                 try {
-                    const result = await this.ragService.askQuestion(query, providerId);
+                    const result = await this.operations.run('rag', context.operationId, signal =>
+                        this.ragService.askQuestion(query, providerId, {
+                            collectionId: context.collectionId,
+                            maxResults: context.maxResults,
+                            minScore: context.minScore,
+                            mmrLambda: context.mmrLambda,
+                            rerank: context.rerank,
+                            contextWindow: context.contextWindow,
+                            retrieval: context.retrieval,
+                            signal
+                        })
+                    );
                     this.logger.debug('RAG response generated successfully');
                     this.logger.debug(`RAG prompt: ${result.prompt.substring(0, 100)}...`);
-                    return { success: true, response: result.response, prompt: result.prompt };
+                    return {
+                        success: true,
+                        response: result.response,
+                        prompt: result.prompt,
+                        sources: result.sources,
+                        retrieval: result.retrieval
+                    };
                 } catch (error) {
                     const err = error as Error;
+                    if (err.message === OPERATION_CANCELLED) {
+                        this.logger.info('RAG handler: Question cancelled');
+                        return { success: false, cancelled: true, error: 'Question cancelled' };
+                    }
                     this.logger.error(`Error in RAG handler: ${err.message}`);
                     
                     // Provide more specific error messages
@@ -1,11 +1,15 @@
 import { ipcMain, BrowserWindow } from 'electron';
-import { VectorStore } from '../services/vector-store';
+import { VectorStore, SearchOptions } from '../services/vector-store';
 import { StatisticsService } from '../services/statistics.service';
+import { OPERATION_CANCELLED, OperationRegistry } from '../services/operation-registry';
 import Logger from '../services/logger';
+import { DEFAULT_COLLECTION_ID } from '../../shared/types/collection';
+import { SEARCH_MODES, SimilarSearchOptions, SimilarSearchTarget } from '../../shared/types/api';
 
 export class SearchHandler {
     private vectorStore!: VectorStore;
     private statisticsService!: StatisticsService;
+    private operations!: OperationRegistry;
     private logger: Logger;
     private initialized: boolean = false;
 
@@ -21,6 +25,7 @@ export class SearchHandler {
         try {
             this.vectorStore = await VectorStore.create();
             this.statisticsService = new StatisticsService();
+            this.operations = OperationRegistry.getInstance();
             this.registerHandlers();
             this.initialized = true;
             return this;
@@ -31,25 +36,44 @@ export class SearchHandler {
     }
 
     private registerHandlers(): void {
-        ipcMain.handle('search:search', async (_, query: string, filters: any) => {
+        ipcMain.handle('search:search', async (_, query: string, options: SearchOptions & { collectionId?: number; operationId?: string } = {}) => {
             try {
-                this.logger.info(`Search handler: Searching for "${query}" with filters:`, filters);
+                const { collectionId = DEFAULT_COLLECTION_ID, operationId, ...searchOptions } = options;
+                if (searchOptions.mode && !SEARCH_MODES.includes(searchOptions.mode)) {
+                    throw new Error(`Unknown search mode: ${searchOptions.mode}`);
+                }
+                if (searchOptions.ef !== undefined && (!Number.isInteger(searchOptions.ef) || searchOptions.ef < 1)) {
+                    throw new Error('ef must be a positive integer');
+                }
+                if (searchOptions.cursor) {
+                    this.logger.info(`Search handler: Fetching the next page of a search in collection ${collectionId}`);
+                } else {
+                    this.logger.info(`Search handler: Searching collection ${collectionId} for "${query}" with options: ${JSON.stringify(searchOptions)}`);
+                }
                 const startTime = Date.now();
-                const results = await this.vectorStore.search(query, filters);
+                const { results, nextCursor } = await this.operations.run('search', operationId, signal =>
+                    this.vectorStore.searchPage(collectionId, query, { ...searchOptions, signal })
+                );
                 const executionTime = Date.now() - startTime;
                 
-                // Update statistics
-                await this.statisticsService.incrementSearchCount();
+                // Update statistics; further pages are part of the same search
+                if (!searchOptions.cursor) {
+                    await this.statisticsService.incrementSearchCount();
+                }
                 
                 this.logger.info(`Search completed in ${executionTime}ms, found ${results.length} results`);
                 return {
                     success: true,
                     results,
                     totalResults: results.length,
-                    executionTime
+                    executionTime,
+                    nextCursor
                 };
             } catch (error) {
                 const err = error as Error;
+                if (err.message === OPERATION_CANCELLED) {
+                    return { success: false, results: [], cancelled: true, error: 'Search cancelled' };
+                }
                 this.logger.error(`Error in search handler: ${err.message}`);
                 return {
                     success: false,
@@ -59,13 +83,41 @@ export class SearchHandler {
             }
         });
 
-        ipcMain.handle('search:clear-database', async (event) => {
+        ipcMain.handle('search:similar', async (_, target: SimilarSearchTarget, options: SimilarSearchOptions = {}) => {
+            try {
+                const { collectionId = DEFAULT_COLLECTION_ID, ...similarOptions } = options;
+                this.logger.info(`Search handler: Finding chunks similar to ${JSON.stringify(target)} in collection ${collectionId}`);
+                const startTime = Date.now();
+                const results = await this.vectorStore.findSimilar(collectionId, target, similarOptions);
+                const executionTime = Date.now() - startTime;
+
+                await this.statisticsService.incrementSearchCount();
+
+                this.logger.info(`Similar search completed in ${executionTime}ms, found ${results.length} results`);
+                return {
+                    success: true,
+                    results,
+                    totalResults: results.length,
+                    executionTime
+                };
+            } catch (error) {
+                const err = error as Error;
+                this.logger.error(`Error in similar search handler: ${err.message}`);
+                return {
+                    success: false,
+                    results: [],
+                    error: err.message
+                };
+            }
+        });
+
+        ipcMain.handle('search:clear-database', async (event, collectionId: number = DEFAULT_COLLECTION_ID) => {
             try {
-                this.logger.info('Search handler: Clearing database');
-                await this.vectorStore.clearDatabase();
+                this.logger.info(`Search handler: Clearing collection ${collectionId}`);
+                await this.vectorStore.clearDatabase(collectionId);
                 
                 // Update statistics
-                await this.statisticsService.resetDocumentCounts();
+                await this.statisticsService.syncDocumentCounts();
                 
                 // Notify all windows about the statistics update
                 const window = BrowserWindow.fromWebContents(event.sender);
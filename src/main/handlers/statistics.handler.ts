@@ -38,6 +38,16 @@ export class StatisticsHandler {
             }
         });
 
+        ipcMain.handle('statistics:get-collection', async (_, collectionId: number) => {
+            try {
+                this.logger.debug(`statistics:get-collection handler called for collection ${collectionId}`);
+                return await this.service.getCollectionStatistics(collectionId);
+            } catch (error) {
+                this.logger.error('Error in statistics:get-collection handler:', error as Error);
+                throw error;
+            }
+        });
+
         // Subscribe to statistics updates
         this.service.onUpdate((stats) => {
             this.logger.debug('Broadcasting statistics update to all windows');
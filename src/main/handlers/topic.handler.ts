@@ -0,0 +1,86 @@
+import { ipcMain } from 'electron';
+import { TopicService } from '../services/topic.service';
+import { VectorStore } from '../services/vector-store';
+import { LLMProviderService } from '../services/llm-provider.service';
+import { DatabaseManager } from '../services/database';
+import { OPERATION_CANCELLED, OperationRegistry } from '../services/operation-registry';
+import Logger from '../services/logger';
+import { TopicClusterOptions } from '../../shared/types/topic';
+
+export class TopicHandler {
+    private topicService!: TopicService;
+    private operations!: OperationRegistry;
+    private logger: Logger;
+    private initialized: boolean = false;
+
+    constructor() {
+        this.logger = Logger.getInstance();
+    }
+
+    async initialize() {
+        if (this.initialized) {
+            return this;
+        }
+
+        try {
+            const db = DatabaseManager.getInstance().getDatabase();
+            const vectorStore = await VectorStore.create();
+            this.topicService = new TopicService(vectorStore, new LLMProviderService(db));
+            this.operations = OperationRegistry.getInstance();
+            this.registerHandlers();
+            this.initialized = true;
+            return this;
+        } catch (error) {
+            this.logger.error('Failed to initialize topic handler:', error as Error);
+            throw error;
+        }
+    }
+
+    private registerHandlers(): void {
+        ipcMain.handle('topics:cluster', async (_, collectionId: number, providerId: number, options: TopicClusterOptions = {}) => {
+            try {
+                if (!providerId) {
+                    return { success: false, error: 'No LLM provider selected to label the topics.' };
+                }
+
+                this.logger.info(`Clustering collection ${collectionId} into topics with provider ${providerId}`);
+                const result = await this.operations.run('cluster', options.operationId, signal =>
+                    this.topicService.clusterCollection(collectionId, providerId, { topicCount: options.topicCount, signal })
+                );
+                return { success: true, result };
+            } catch (error) {
+                const err = error as Error;
+                if (err.message === OPERATION_CANCELLED) {
+                    this.logger.info(`Topic clustering of collection ${collectionId} cancelled`);
+                    return { success: false, cancelled: true, error: 'Clustering cancelled' };
+                }
+                this.logger.error(`Error in topics:cluster handler for collection ${collectionId}:`, err);
+                return { success: false, error: err.message };
+            }
+        });
+
+        ipcMain.handle('topics:list', async (_, collectionId: number) => {
+            try {
+                return {
+                    success: true,
+                    topics: this.topicService.listTopics(collectionId),
+                    unassignedChunks: this.topicService.countUnassignedChunks(collectionId)
+                };
+            } catch (error) {
+                const err = error as Error;
+                this.logger.error(`Error in topics:list handler for collection ${collectionId}:`, err);
+                return { success: false, topics: [], unassignedChunks: 0, error: err.message };
+            }
+        });
+
+        ipcMain.handle('topics:chunks', async (_, topicId: number, limit?: number, offset?: number) => {
+            try {
+                return { success: true, chunks: this.topicService.getTopicChunks(topicId, limit, offset) };
+            } catch (error) {
+                const err = error as Error;
+                this.logger.error(`Error in topics:chunks handler for topic ${topicId}:`, err);
+                return { success: false, chunks: [], error: err.message };
+            }
+        });
+    }
+}
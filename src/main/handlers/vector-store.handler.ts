@@ -0,0 +1,141 @@
+import { ipcMain } from 'electron';
+import { VectorStore } from '../services/vector-store';
+import { StatisticsService } from '../services/statistics.service';
+import { RecallOptions, VerifyReport } from '../../shared/types/vector-store';
+import Logger from '../services/logger';
+
+export class VectorStoreHandler {
+    private vectorStore!: VectorStore;
+    private statisticsService!: StatisticsService;
+    private logger: Logger;
+    private initialized: boolean = false;
+
+    constructor() {
+        this.logger = Logger.getInstance();
+    }
+
+    async initialize() {
+        if (this.initialized) {
+            return this;
+        }
+
+        try {
+            this.vectorStore = await VectorStore.create();
+            this.statisticsService = new StatisticsService();
+            this.registerHandlers();
+            this.initialized = true;
+            return this;
+        } catch (error) {
+            this.logger.error('Failed to initialize vector store handler:', error as Error);
+            throw error;
+        }
+    }
+
+    private registerHandlers(): void {
+        ipcMain.handle('vector-store:rebuild-index', async (_, collectionId: number) => {
+            try {
+                this.logger.info(`Rebuilding index of collection ${collectionId} from stored vectors`);
+                const result = await this.vectorStore.rebuildIndexFromDatabase(collectionId);
+                return { success: true, result };
+            } catch (error) {
+                const err = error as Error;
+                this.logger.error(`Error in vector-store:rebuild-index handler for collection ${collectionId}:`, err);
+                return { success: false, error: err.message };
+            }
+        });
+
+        ipcMain.handle('vector-store:verify', async (_, collectionId: number) => {
+            try {
+                this.logger.info(`Verifying index of collection ${collectionId}`);
+                const report = await this.buildReport(collectionId);
+                return { success: true, report };
+            } catch (error) {
+                const err = error as Error;
+                this.logger.error(`Error in vector-store:verify handler for collection ${collectionId}:`, err);
+                return { success: false, error: err.message };
+            }
+        });
+
+        ipcMain.handle('vector-store:repair', async (_, collectionId: number) => {
+            try {
+                this.logger.info(`Repairing index of collection ${collectionId}`);
+                const repaired = await this.vectorStore.repairCollection(collectionId);
+
+                const drift = await this.statisticsService.getDocumentCountDrift();
+                const statisticsSynced = drift.recordedDocuments !== drift.actualDocuments ||
+                    drift.recordedChunks !== drift.actualChunks;
+                if (statisticsSynced) {
+                    await this.statisticsService.syncDocumentCounts();
+                }
+
+                const report = await this.buildReport(collectionId);
+                return { success: true, result: { ...repaired, statisticsSynced, report } };
+            } catch (error) {
+                const err = error as Error;
+                this.logger.error(`Error in vector-store:repair handler for collection ${collectionId}:`, err);
+                return { success: false, error: err.message };
+            }
+        });
+
+        ipcMain.handle('vector-store:measure-recall', async (_, collectionId: number, options: RecallOptions = {}) => {
+            try {
+                this.logger.info(`Measuring recall of collection ${collectionId} with options: ${JSON.stringify(options)}`);
+                const report = await this.vectorStore.measureRecall(collectionId, options);
+                return { success: true, report };
+            } catch (error) {
+                const err = error as Error;
+                this.logger.error(`Error in vector-store:measure-recall handler for collection ${collectionId}:`, err);
+                return { success: false, error: err.message };
+            }
+        });
+
+        ipcMain.handle('vector-store:cache-stats', async () => {
+            try {
+                return { success: true, stats: this.vectorStore.getEmbeddingCacheStats() };
+            } catch (error) {
+                const err = error as Error;
+                this.logger.error('Error in vector-store:cache-stats handler:', err);
+                return { success: false, error: err.message };
+            }
+        });
+
+        ipcMain.handle('vector-store:set-cache-limit', async (_, maxBytes: number) => {
+            try {
+                this.logger.info(`Setting the embedding cache limit to ${maxBytes} bytes`);
+                return { success: true, stats: this.vectorStore.setEmbeddingCacheLimit(maxBytes) };
+            } catch (error) {
+                const err = error as Error;
+                this.logger.error('Error in vector-store:set-cache-limit handler:', err);
+                return { success: false, error: err.message };
+            }
+        });
+
+        ipcMain.handle('vector-store:clear-cache', async () => {
+            try {
+                this.logger.info('Clearing the embedding cache');
+                this.vectorStore.clearEmbeddingCache();
+                return { success: true, stats: this.vectorStore.getEmbeddingCacheStats() };
+            } catch (error) {
+                const err = error as Error;
+                this.logger.error('Error in vector-store:clear-cache handler:', err);
+                return { success: false, error: err.message };
+            }
+        });
+    }
+
+    /**
+     * Combine the index check with the state of the statistics row.
+     */
+    private async buildReport(collectionId: number): Promise<VerifyReport> {
+        const report = await this.vectorStore.verifyCollection(collectionId);
+        const drift = await this.statisticsService.getDocumentCountDrift();
+        const stale = drift.recordedDocuments !== drift.actualDocuments ||
+            drift.recordedChunks !== drift.actualChunks;
+
+        return {
+            ...report,
+            statistics: { stale, ...drift },
+            isConsistent: report.isConsistent && !stale
+        };
+    }
+}
@@ -7,8 +7,14 @@ import { ImportHandler } from './handlers/import.handler';
 import { StatisticsHandler } from './handlers/statistics.handler';
 import { RAGHandler } from './handlers/rag.handler';
 import { LLMProviderHandler } from './handlers/llm-provider.handler';
+import { EmbeddingProviderHandler } from './handlers/embedding-provider.handler';
 import { ModelCatalogHandler } from './handlers/model-catalog.handler';
 import { DirectModelHandler } from './handlers/direct-model.handler';
+import { CollectionHandler } from './handlers/collection.handler';
+import { DocumentHandler } from './handlers/document.handler';
+import { VectorStoreHandler } from './handlers/vector-store.handler';
+import { OperationHandler } from './handlers/operation.handler';
+import { TopicHandler } from './handlers/topic.handler';
 
 // Configure logger
 log.transports.file.level = 'debug';
@@ -124,6 +130,10 @@ app.on('ready', async () => {
     await llmProviderHandler.initialize();
     logger.info('LLM Provider handlers initialized');
     
+    const embeddingProviderHandler = new EmbeddingProviderHandler();
+    await embeddingProviderHandler.initialize();
+    logger.info('Embedding Provider handlers initialized');
+    
     const modelCatalogHandler = new ModelCatalogHandler();
     await modelCatalogHandler.initialize();
     logger.info('Model Catalog handlers initialized');
@@ -132,6 +142,26 @@ app.on('ready', async () => {
     await directModelHandler.initialize();
     logger.info('Direct Model handlers initialized');
     
+    const collectionHandler = new CollectionHandler();
+    await collectionHandler.initialize();
+    logger.info('Collection handlers initialized');
+
+    const documentHandler = new DocumentHandler();
+    await documentHandler.initialize();
+    logger.info('Document handlers initialized');
+
+    const vectorStoreHandler = new VectorStoreHandler();
+    await vectorStoreHandler.initialize();
+    logger.info('Vector store handlers initialized');
+
+    const operationHandler = new OperationHandler();
+    await operationHandler.initialize();
+    logger.info('Operation handlers initialized');
+
+    const topicHandler = new TopicHandler();
+    await topicHandler.initialize();
+    logger.info('Topic handlers initialized');
+    
     // Create the main window
     createWindow();
   } catch (error) {
@@ -5,10 +5,10 @@ console.log('Preload script running');
 
 // Define the API for the renderer process
 const searchApi = {
-  search: async (query: string, filters: any) => {
+  search: async (query: string, options: any) => {
     console.log('Calling search.search with query:', query);
     try {
-      const result = await ipcRenderer.invoke('search:search', query, filters);
+      const result = await ipcRenderer.invoke('search:search', query, options);
       console.log('search.search response:', result);
       return result;
     } catch (error: unknown) {
@@ -17,10 +17,22 @@ const searchApi = {
       return { success: false, error: errorMessage };
     }
   },
-  clearDatabase: async () => {
-    console.log('Calling search.clearDatabase');
+  similar: async (target: any, options: any) => {
+    console.log('Calling search.similar with target:', target);
     try {
-      const result = await ipcRenderer.invoke('search:clear-database');
+      const result = await ipcRenderer.invoke('search:similar', target, options);
+      console.log('search.similar response:', result);
+      return result;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('search.similar error:', error);
+      return { success: false, error: errorMessage };
+    }
+  },
+  clearDatabase: async (collectionId?: number) => {
+    console.log('Calling search.clearDatabase with collectionId:', collectionId);
+    try {
+      const result = await ipcRenderer.invoke('search:clear-database', collectionId);
       console.log('search.clearDatabase response:', result);
       return result;
     } catch (error: unknown) {
@@ -32,10 +44,10 @@ const searchApi = {
 };
 
 const importApi = {
-  selectFiles: async () => {
-    console.log('Calling import.selectFiles');
+  selectFiles: async (collectionId?: number, options?: any) => {
+    console.log('Calling import.selectFiles with collectionId:', collectionId, 'options:', options);
     try {
-      const result = await ipcRenderer.invoke('import:select-files');
+      const result = await ipcRenderer.invoke('import:select-files', collectionId, options);
       console.log('import.selectFiles response:', result);
       return result;
     } catch (error: unknown) {
@@ -44,10 +56,10 @@ const importApi = {
       return { success: false, error: errorMessage };
     }
   },
-  selectFolder: async () => {
-    console.log('Calling import.selectFolder');
+  selectFolder: async (collectionId?: number, options?: any) => {
+    console.log('Calling import.selectFolder with collectionId:', collectionId, 'options:', options);
     try {
-      const result = await ipcRenderer.invoke('import:select-folder');
+      const result = await ipcRenderer.invoke('import:select-folder', collectionId, options);
       console.log('import.selectFolder response:', result);
       return result;
     } catch (error: unknown) {
@@ -94,14 +106,26 @@ const statisticsApi = {
       console.log('Removing statistics.onUpdate listener');
       ipcRenderer.removeListener('statistics:update', listener);
     };
+  },
+  getCollectionStatistics: async (collectionId: number) => {
+    console.log('Calling statistics.getCollectionStatistics with collectionId:', collectionId);
+    try {
+      const result = await ipcRenderer.invoke('statistics:get-collection', collectionId);
+      console.log('statistics.getCollectionStatistics response:', result);
+      return result;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('statistics.getCollectionStatistics error:', error);
+      return { success: false, error: errorMessage };
+    }
   }
 };
 
 const ragApi = {
-  askQuestion: async (question: string, context: any) => {
+  askQuestion: async (question: string, providerId: number, context: any) => {
     console.log('Calling rag.askQuestion with question:', question);
     try {
-      const result = await ipcRenderer.invoke('rag:ask-question', question, context);
+      const result = await ipcRenderer.invoke('rag:ask-question', question, providerId, context);
       console.log('rag.askQuestion response:', result);
       return result;
     } catch (error: unknown) {
@@ -184,6 +208,69 @@ const llmProviderApi = {
   }
 };
 
+const embeddingProviderApi = {
+  listProviders: async () => {
+    console.log('Calling embeddingProvider.listProviders');
+    try {
+      const result = await ipcRenderer.invoke('embedding-provider:list');
+      console.log('embeddingProvider.listProviders response:', result);
+      return result;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('embeddingProvider.listProviders error:', error);
+      return { success: false, providers: [], error: errorMessage };
+    }
+  },
+  createProvider: async (request: any) => {
+    console.log('Calling embeddingProvider.createProvider with type:', request?.type);
+    try {
+      const result = await ipcRenderer.invoke('embedding-provider:create', request);
+      console.log('embeddingProvider.createProvider response:', result);
+      return result;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('embeddingProvider.createProvider error:', error);
+      return { success: false, error: errorMessage };
+    }
+  },
+  updateProvider: async (id: number, request: any) => {
+    console.log('Calling embeddingProvider.updateProvider with id:', id);
+    try {
+      const result = await ipcRenderer.invoke('embedding-provider:update', id, request);
+      console.log('embeddingProvider.updateProvider response:', result);
+      return result;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('embeddingProvider.updateProvider error:', error);
+      return { success: false, error: errorMessage };
+    }
+  },
+  deleteProvider: async (id: number) => {
+    console.log('Calling embeddingProvider.deleteProvider with id:', id);
+    try {
+      const result = await ipcRenderer.invoke('embedding-provider:delete', id);
+      console.log('embeddingProvider.deleteProvider response:', result);
+      return result;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('embeddingProvider.deleteProvider error:', error);
+      return { success: false, error: errorMessage };
+    }
+  },
+  testProvider: async (id: number) => {
+    console.log('Calling embeddingProvider.testProvider with id:', id);
+    try {
+      const result = await ipcRenderer.invoke('embedding-provider:test', id);
+      console.log('embeddingProvider.testProvider response:', result);
+      return result;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('embeddingProvider.testProvider error:', error);
+      return { success: false, error: errorMessage };
+    }
+  }
+};
+
 const modelCatalogApi = {
   getProviderTypes: async () => {
     console.log('Calling modelCatalog.getProviderTypes');
@@ -310,14 +397,347 @@ const directModelApi = {
   }
 };
 
+const collectionApi = {
+  listCollections: async () => {
+    console.log('Calling collections.listCollections');
+    try {
+      const result = await ipcRenderer.invoke('collection:list');
+      console.log('collections.listCollections response:', result);
+      return result;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('collections.listCollections error:', error);
+      return { success: false, collections: [], error: errorMessage };
+    }
+  },
+  createCollection: async (request: any) => {
+    console.log('Calling collections.createCollection with request:', request);
+    try {
+      const result = await ipcRenderer.invoke('collection:create', request);
+      console.log('collections.createCollection response:', result);
+      return result;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('collections.createCollection error:', error);
+      return { success: false, error: errorMessage };
+    }
+  },
+  renameCollection: async (id: number, name: string) => {
+    console.log('Calling collections.renameCollection with id:', id, 'name:', name);
+    try {
+      const result = await ipcRenderer.invoke('collection:rename', id, name);
+      console.log('collections.renameCollection response:', result);
+      return result;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('collections.renameCollection error:', error);
+      return { success: false, error: errorMessage };
+    }
+  },
+  deleteCollection: async (id: number) => {
+    console.log('Calling collections.deleteCollection with id:', id);
+    try {
+      const result = await ipcRenderer.invoke('collection:delete', id);
+      console.log('collections.deleteCollection response:', result);
+      return result;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('collections.deleteCollection error:', error);
+      return { success: false, error: errorMessage };
+    }
+  },
+  updateIndexParameters: async (id: number, params: any) => {
+    console.log('Calling collections.updateIndexParameters with id:', id, 'params:', params);
+    try {
+      const result = await ipcRenderer.invoke('collection:update-index-parameters', id, params);
+      console.log('collections.updateIndexParameters response:', result);
+      return result;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('collections.updateIndexParameters error:', error);
+      return { success: false, error: errorMessage };
+    }
+  },
+  setEmbeddingStorage: async (id: number, format: string) => {
+    console.log('Calling collections.setEmbeddingStorage with id:', id, 'format:', format);
+    try {
+      const result = await ipcRenderer.invoke('collection:set-embedding-storage', id, format);
+      console.log('collections.setEmbeddingStorage response:', result);
+      return result;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('collections.setEmbeddingStorage error:', error);
+      return { success: false, error: errorMessage };
+    }
+  },
+  reembed: async (id: number, embeddingProviderId: number, options?: any) => {
+    console.log('Calling collections.reembed with id:', id, 'embeddingProviderId:', embeddingProviderId, 'options:', options);
+    try {
+      const result = await ipcRenderer.invoke('collection:reembed', id, embeddingProviderId, options);
+      console.log('collections.reembed response:', result);
+      return result;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('collections.reembed error:', error);
+      return { success: false, error: errorMessage };
+    }
+  },
+  onReembedProgress: (callback: (progress: any) => void) => {
+    console.log('Setting up collections.onReembedProgress listener');
+    const listener = (_event: any, progress: any) => {
+      console.log('collections.onReembedProgress event received:', progress);
+      callback(progress);
+    };
+    ipcRenderer.on('collection:reembed-progress', listener);
+    return () => {
+      console.log('Removing collections.onReembedProgress listener');
+      ipcRenderer.removeListener('collection:reembed-progress', listener);
+    };
+  }
+};
+
+const documentApi = {
+  listDocuments: async (collectionId: number) => {
+    console.log('Calling documents.listDocuments with collectionId:', collectionId);
+    try {
+      const result = await ipcRenderer.invoke('documents:list', collectionId);
+      console.log('documents.listDocuments response:', result);
+      return result;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('documents.listDocuments error:', error);
+      return { success: false, documents: [], error: errorMessage };
+    }
+  },
+  deleteDocument: async (collectionId: number, source: string) => {
+    console.log('Calling documents.deleteDocument with collectionId:', collectionId, 'source:', source);
+    try {
+      const result = await ipcRenderer.invoke('documents:delete', collectionId, source);
+      console.log('documents.deleteDocument response:', result);
+      return result;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('documents.deleteDocument error:', error);
+      return { success: false, error: errorMessage };
+    }
+  },
+  reimportDocument: async (collectionId: number, source: string) => {
+    console.log('Calling documents.reimportDocument with collectionId:', collectionId, 'source:', source);
+    try {
+      const result = await ipcRenderer.invoke('documents:reimport', collectionId, source);
+      console.log('documents.reimportDocument response:', result);
+      return result;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('documents.reimportDocument error:', error);
+      return { success: false, error: errorMessage };
+    }
+  },
+  compactIndex: async (collectionId: number) => {
+    console.log('Calling documents.compactIndex with collectionId:', collectionId);
+    try {
+      const result = await ipcRenderer.invoke('documents:compact', collectionId);
+      console.log('documents.compactIndex response:', result);
+      return result;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('documents.compactIndex error:', error);
+      return { success: false, error: errorMessage };
+    }
+  },
+  findDuplicates: async (collectionId: number, options: any) => {
+    console.log('Calling documents.findDuplicates with:', collectionId, options);
+    try {
+      const result = await ipcRenderer.invoke('documents:find-duplicates', collectionId, options);
+      console.log('documents.findDuplicates response:', result);
+      return result;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('documents.findDuplicates error:', error);
+      return { success: false, error: errorMessage };
+    }
+  },
+  resolveDuplicates: async (collectionId: number, resolution: any) => {
+    console.log('Calling documents.resolveDuplicates with:', collectionId, resolution);
+    try {
+      const result = await ipcRenderer.invoke('documents:resolve-duplicates', collectionId, resolution);
+      console.log('documents.resolveDuplicates response:', result);
+      return result;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('documents.resolveDuplicates error:', error);
+      return { success: false, error: errorMessage };
+    }
+  }
+};
+
+const vectorStoreApi = {
+  rebuildIndex: async (collectionId: number) => {
+    console.log('Calling vectorStore.rebuildIndex with collectionId:', collectionId);
+    try {
+      const result = await ipcRenderer.invoke('vector-store:rebuild-index', collectionId);
+      console.log('vectorStore.rebuildIndex response:', result);
+      return result;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('vectorStore.rebuildIndex error:', error);
+      return { success: false, error: errorMessage };
+    }
+  },
+  verify: async (collectionId: number) => {
+    console.log('Calling vectorStore.verify with collectionId:', collectionId);
+    try {
+      const result = await ipcRenderer.invoke('vector-store:verify', collectionId);
+      console.log('vectorStore.verify response:', result);
+      return result;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('vectorStore.verify error:', error);
+      return { success: false, error: errorMessage };
+    }
+  },
+  repair: async (collectionId: number) => {
+    console.log('Calling vectorStore.repair with collectionId:', collectionId);
+    try {
+      const result = await ipcRenderer.invoke('vector-store:repair', collectionId);
+      console.log('vectorStore.repair response:', result);
+      return result;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('vectorStore.repair error:', error);
+      return { success: false, error: errorMessage };
+    }
+  },
+  measureRecall: async (collectionId: number, options: any) => {
+    console.log('Calling vectorStore.measureRecall with collectionId:', collectionId, 'options:', options);
+    try {
+      const result = await ipcRenderer.invoke('vector-store:measure-recall', collectionId, options);
+      console.log('vectorStore.measureRecall response:', result);
+      return result;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('vectorStore.measureRecall error:', error);
+      return { success: false, error: errorMessage };
+    }
+  },
+  getCacheStats: async () => {
+    console.log('Calling vectorStore.getCacheStats');
+    try {
+      const result = await ipcRenderer.invoke('vector-store:cache-stats');
+      console.log('vectorStore.getCacheStats response:', result);
+      return result;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('vectorStore.getCacheStats error:', error);
+      return { success: false, error: errorMessage };
+    }
+  },
+  setCacheLimit: async (maxBytes: number) => {
+    console.log('Calling vectorStore.setCacheLimit with maxBytes:', maxBytes);
+    try {
+      const result = await ipcRenderer.invoke('vector-store:set-cache-limit', maxBytes);
+      console.log('vectorStore.setCacheLimit response:', result);
+      return result;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('vectorStore.setCacheLimit error:', error);
+      return { success: false, error: errorMessage };
+    }
+  },
+  clearCache: async () => {
+    console.log('Calling vectorStore.clearCache');
+    try {
+      const result = await ipcRenderer.invoke('vector-store:clear-cache');
+      console.log('vectorStore.clearCache response:', result);
+      return result;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('vectorStore.clearCache error:', error);
+      return { success: false, error: errorMessage };
+    }
+  }
+};
+
+const operationApi = {
+  cancel: async (operationId: string) => {
+    console.log('Calling operation.cancel with operationId:', operationId);
+    try {
+      const result = await ipcRenderer.invoke('operation:cancel', operationId);
+      console.log('operation.cancel response:', result);
+      return result;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('operation.cancel error:', error);
+      return { success: false, cancelled: false, error: errorMessage };
+    }
+  },
+  list: async () => {
+    console.log('Calling operation.list');
+    try {
+      const result = await ipcRenderer.invoke('operation:list');
+      console.log('operation.list response:', result);
+      return result;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('operation.list error:', error);
+      return { success: false, operations: [], error: errorMessage };
+    }
+  }
+};
+
+const topicApi = {
+  cluster: async (collectionId: number, providerId: number, options: any) => {
+    console.log('Calling topics.cluster with:', collectionId, providerId, options);
+    try {
+      const result = await ipcRenderer.invoke('topics:cluster', collectionId, providerId, options);
+      console.log('topics.cluster response:', result);
+      return result;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('topics.cluster error:', error);
+      return { success: false, error: errorMessage };
+    }
+  },
+  list: async (collectionId: number) => {
+    console.log('Calling topics.list with collectionId:', collectionId);
+    try {
+      const result = await ipcRenderer.invoke('topics:list', collectionId);
+      console.log('topics.list response:', result);
+      return result;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('topics.list error:', error);
+      return { success: false, topics: [], unassignedChunks: 0, error: errorMessage };
+    }
+  },
+  chunks: async (topicId: number, limit?: number, offset?: number) => {
+    console.log('Calling topics.chunks with:', topicId, limit, offset);
+    try {
+      const result = await ipcRenderer.invoke('topics:chunks', topicId, limit, offset);
+      console.log('topics.chunks response:', result);
+      return result;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('topics.chunks error:', error);
+      return { success: false, chunks: [], error: errorMessage };
+    }
+  }
+};
+
 // Expose the APIs to the renderer process
 contextBridge.exposeInMainWorld('search', searchApi);
 contextBridge.exposeInMainWorld('import', importApi);
 contextBridge.exposeInMainWorld('statistics', statisticsApi);
 contextBridge.exposeInMainWorld('rag', ragApi);
 contextBridge.exposeInMainWorld('llmProvider', llmProviderApi);
+contextBridge.exposeInMainWorld('embeddingProvider', embeddingProviderApi);
 contextBridge.exposeInMainWorld('modelCatalog', modelCatalogApi);
 contextBridge.exposeInMainWorld('directModel', directModelApi);
+contextBridge.exposeInMainWorld('collections', collectionApi);
+contextBridge.exposeInMainWorld('documents', documentApi);
+contextBridge.exposeInMainWorld('vectorStore', vectorStoreApi);
+contextBridge.exposeInMainWorld('operation', operationApi);
+contextBridge.exposeInMainWorld('topics', topicApi);
 
 // Also expose the APIs through electronAPI for backward compatibility
 contextBridge.exposeInMainWorld('electronAPI', {
@@ -326,8 +746,14 @@ contextBridge.exposeInMainWorld('electronAPI', {
   statistics: statisticsApi,
   rag: ragApi,
   llmProvider: llmProviderApi,
+  embeddingProvider: embeddingProviderApi,
   modelCatalog: modelCatalogApi,
-  directModel: directModelApi
+  directModel: directModelApi,
+  collections: collectionApi,
+  documents: documentApi,
+  vectorStore: vectorStoreApi,
+  operation: operationApi,
+  topics: topicApi
 });
 
 // Log that preload script has completed
@@ -0,0 +1,42 @@
+import { describe, expect, it } from '@jest/globals';
+import { locateChunks } from '../chunk-provenance';
+
+describe('locateChunks', () => {
+    const text = '# Guide\n\nIntro text.\n\n## Install\n\nRun the installer.\nThen restart.\n\n# Usage\n\nOpen the app.';
+
+    it('returns the line and character range of each chunk', () => {
+        const [provenance] = locateChunks(text, ['Run the installer.\nThen restart.']);
+        const start = text.indexOf('Run the installer.');
+
+        expect(provenance).toEqual({
+            startLine: 7,
+            endLine: 8,
+            startOffset: start,
+            endOffset: start + 'Run the installer.\nThen restart.'.length
+        });
+    });
+
+    it('adds the enclosing markdown headings', () => {
+        const located = locateChunks(text, ['Intro text.', 'Run the installer.', 'Open the app.'], true);
+
+        expect(located.map(provenance => provenance?.headingPath)).toEqual([
+            ['Guide'],
+            ['Guide', 'Install'],
+            ['Usage']
+        ]);
+    });
+
+    it('finds repeated chunks in file order', () => {
+        const located = locateChunks('same\nsame\nsame', ['same', 'same', 'same']);
+
+        expect(located.map(provenance => provenance?.startLine)).toEqual([1, 2, 3]);
+    });
+
+    it('ignores surrounding whitespace and returns null for chunks not in the text', () => {
+        const located = locateChunks(text, ['  Open the app.\n', 'Not in the file', '   ']);
+
+        expect(located[0]?.startOffset).toBe(text.indexOf('Open the app.'));
+        expect(located[1]).toBeNull();
+        expect(located[2]).toBeNull();
+    });
+});
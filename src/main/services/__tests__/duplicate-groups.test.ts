@@ -0,0 +1,67 @@
+import { describe, expect, it } from '@jest/globals';
+import { DisjointSet, groupDuplicateFiles } from '../duplicate-groups';
+
+describe('DisjointSet', () => {
+    it('returns only sets with more than one member, in insertion order', () => {
+        const set = new DisjointSet<string>();
+        set.union('a', 'b');
+        set.union('c', 'd');
+        set.union('b', 'e');
+        set.find('lonely');
+
+        expect(set.groups()).toEqual([['a', 'b', 'e'], ['c', 'd']]);
+    });
+
+    it('merges sets joined through a shared member', () => {
+        const set = new DisjointSet<number>();
+        set.union(1, 2);
+        set.union(3, 4);
+        set.union(2, 4);
+
+        expect(set.find(1)).toBe(set.find(3));
+        expect(set.groups()).toHaveLength(1);
+    });
+});
+
+describe('groupDuplicateFiles', () => {
+    it('groups files whose chunks are mostly duplicated in each other', () => {
+        const chunkGroups = [['a.md', 'b.md'], ['a.md', 'b.md'], ['a.md', 'b.md'], ['a.md', 'b.md']];
+        const chunkCounts = new Map([['a.md', 4], ['b.md', 5]]);
+
+        expect(groupDuplicateFiles(chunkGroups, chunkCounts)).toEqual([{
+            files: [
+                { source: 'a.md', chunkCount: 4, duplicatedChunks: 4 },
+                { source: 'b.md', chunkCount: 5, duplicatedChunks: 4 }
+            ]
+        }]);
+    });
+
+    it('does not group a short file with a long file that merely contains it', () => {
+        const chunkGroups = [['short.md', 'long.md'], ['short.md', 'long.md']];
+        const chunkCounts = new Map([['short.md', 2], ['long.md', 10]]);
+
+        expect(groupDuplicateFiles(chunkGroups, chunkCounts)).toEqual([]);
+    });
+
+    it('ignores chunk groups within a single file', () => {
+        const chunkGroups = [['a.md', 'a.md'], ['a.md', 'a.md']];
+
+        expect(groupDuplicateFiles(chunkGroups, new Map([['a.md', 2]]))).toEqual([]);
+    });
+
+    it('ignores boilerplate chunks shared by many files', () => {
+        const sources = Array.from({ length: 60 }, (_, i) => `file-${i}.md`);
+        const chunkCounts = new Map(sources.map(source => [source, 1]));
+
+        expect(groupDuplicateFiles([sources], chunkCounts)).toEqual([]);
+    });
+
+    it('links copies of copies into one group', () => {
+        const chunkGroups = [['a.md', 'b.md'], ['b.md', 'c.md']];
+        const chunkCounts = new Map([['a.md', 1], ['b.md', 1], ['c.md', 1]]);
+
+        const groups = groupDuplicateFiles(chunkGroups, chunkCounts);
+        expect(groups).toHaveLength(1);
+        expect(groups[0].files.map(file => file.source).sort()).toEqual(['a.md', 'b.md', 'c.md']);
+    });
+});
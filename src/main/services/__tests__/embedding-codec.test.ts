@@ -0,0 +1,48 @@
+import { describe, expect, it } from '@jest/globals';
+import { decodeEmbedding, encodeEmbedding } from '../embedding-codec';
+import { cosine } from '../mmr';
+
+describe('embedding codec', () => {
+    const vector = Float32Array.from([0.12, -0.5, 0.33, 0, 0.99, -0.01]);
+
+    it('round-trips float32 vectors exactly', () => {
+        const encoded = encodeEmbedding(vector, 'float32');
+
+        expect(encoded.format).toBe('float32');
+        expect(encoded.scale).toBeNull();
+        expect(encoded.blob.length).toBe(vector.length * 4);
+        expect(decodeEmbedding(encoded.blob, encoded.format, encoded.scale)).toEqual(vector);
+    });
+
+    it('accepts plain number arrays', () => {
+        const encoded = encodeEmbedding([1, 2, 3], 'float32');
+
+        expect(decodeEmbedding(encoded.blob, 'float32', null)).toEqual(Float32Array.from([1, 2, 3]));
+    });
+
+    it('stores int8 vectors in a quarter of the space and keeps their direction', () => {
+        const encoded = encodeEmbedding(vector, 'int8');
+        const decoded = decodeEmbedding(encoded.blob, encoded.format, encoded.scale);
+
+        expect(encoded.format).toBe('int8');
+        expect(encoded.blob.length).toBe(vector.length);
+        expect(encoded.scale).toBeCloseTo(0.99 / 127);
+        expect(decoded).toHaveLength(vector.length);
+        expect(cosine(vector, decoded)).toBeGreaterThan(0.99);
+        decoded.forEach((value, i) => expect(Math.abs(value - vector[i])).toBeLessThanOrEqual(encoded.scale! / 2 + 1e-6));
+    });
+
+    it('encodes an all-zero vector as int8 without dividing by zero', () => {
+        const encoded = encodeEmbedding(new Float32Array(4), 'int8');
+
+        expect(encoded.scale).toBe(1);
+        expect(decodeEmbedding(encoded.blob, 'int8', encoded.scale)).toEqual(new Float32Array(4));
+    });
+
+    it('decodes float32 data at an unaligned offset', () => {
+        const encoded = encodeEmbedding(vector, 'float32');
+        const unaligned = Buffer.concat([Buffer.from([0]), encoded.blob]).subarray(1);
+
+        expect(decodeEmbedding(unaligned, 'float32', null)).toEqual(vector);
+    });
+});
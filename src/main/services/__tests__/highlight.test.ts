@@ -0,0 +1,64 @@
+import { describe, expect, it } from '@jest/globals';
+import { keywordSpans, queryTerms, splitSentences } from '../highlight';
+
+describe('queryTerms', () => {
+    it('lower-cases and de-duplicates the query tokens', () => {
+        expect(queryTerms('Vector, vector search! (HNSW)')).toEqual(new Set(['vector', 'search', 'hnsw']));
+    });
+
+    it('keeps non-ASCII letters', () => {
+        expect(queryTerms('Straße café')).toEqual(new Set(['straße', 'café']));
+    });
+});
+
+describe('keywordSpans', () => {
+    it('marks whole tokens that match a term, ignoring case', () => {
+        const text = 'Search the index. Searching is not search.';
+
+        expect(keywordSpans(text, queryTerms('search'))).toEqual([
+            { start: 0, end: 6, kind: 'keyword' },
+            { start: 35, end: 41, kind: 'keyword' }
+        ]);
+    });
+
+    it('returns nothing without terms', () => {
+        expect(keywordSpans('some text', new Set())).toEqual([]);
+    });
+});
+
+describe('splitSentences', () => {
+    const slice = (text: string) => splitSentences(text).map(range => text.slice(range.start, range.end));
+
+    it('splits at sentence ends and trims whitespace', () => {
+        const text = '  The first sentence is here. And the second one is here!  Is this the third one?  ';
+
+        expect(slice(text)).toEqual([
+            'The first sentence is here.',
+            'And the second one is here!',
+            'Is this the third one?'
+        ]);
+    });
+
+    it('splits at blank lines', () => {
+        expect(slice('A paragraph without a full stop\n\nAnother paragraph follows here')).toEqual([
+            'A paragraph without a full stop',
+            'Another paragraph follows here'
+        ]);
+    });
+
+    it('joins short sentences to the following one', () => {
+        expect(slice('# Intro\n\nThis sentence is long enough to stand alone.')).toEqual([
+            '# Intro\n\nThis sentence is long enough to stand alone.'
+        ]);
+    });
+
+    it('folds a short tail into the last sentence', () => {
+        expect(slice('This sentence is long enough to stand alone. Short.')).toEqual([
+            'This sentence is long enough to stand alone. Short.'
+        ]);
+    });
+
+    it('returns nothing for text shorter than a sentence', () => {
+        expect(splitSentences('Too short.')).toEqual([]);
+    });
+});
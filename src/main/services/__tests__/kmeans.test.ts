@@ -0,0 +1,77 @@
+import { describe, expect, it } from '@jest/globals';
+import { nearestCentroid, normalize, sphericalKMeans } from '../kmeans';
+
+// Unit vectors scattered closely around each of the given directions
+function clusterAround(directions: number[][], perCluster: number): Float32Array[] {
+    const vectors: Float32Array[] = [];
+    directions.forEach(direction => {
+        for (let i = 0; i < perCluster; i++) {
+            const jitter = direction.map((value, d) => value + 0.05 * Math.sin(i * 7 + d));
+            vectors.push(normalize(Float32Array.from(jitter)));
+        }
+    });
+    return vectors;
+}
+
+describe('normalize', () => {
+    it('scales vectors to unit length', () => {
+        expect(Array.from(normalize(Float32Array.from([3, 4])))).toEqual([
+            expect.closeTo(0.6, 6),
+            expect.closeTo(0.8, 6)
+        ]);
+    });
+
+    it('leaves the zero vector at zero', () => {
+        expect(normalize(new Float32Array(3))).toEqual(new Float32Array(3));
+    });
+});
+
+describe('nearestCentroid', () => {
+    it('picks the most similar centroid', () => {
+        const centroids = [Float32Array.from([1, 0]), Float32Array.from([0, 1])];
+
+        expect(nearestCentroid(centroids, normalize(Float32Array.from([0.2, 1])))).toEqual({
+            cluster: 1,
+            similarity: expect.closeTo(0.98, 2)
+        });
+    });
+});
+
+describe('sphericalKMeans', () => {
+    const vectors = clusterAround([[1, 0, 0], [0, 1, 0], [0, 0, 1]], 5);
+
+    it('separates well-apart clusters', async () => {
+        const { assignments, centroids } = await sphericalKMeans(vectors, 3);
+
+        expect(centroids).toHaveLength(3);
+        for (let cluster = 0; cluster < 3; cluster++) {
+            const members = assignments.slice(cluster * 5, cluster * 5 + 5);
+            expect(new Set(members).size).toBe(1);
+        }
+        expect(new Set(assignments).size).toBe(3);
+    });
+
+    it('gives the same clusters for the same seed', async () => {
+        const first = await sphericalKMeans(vectors, 3, { seed: 42 });
+        const second = await sphericalKMeans(vectors, 3, { seed: 42 });
+
+        expect(second.assignments).toEqual(first.assignments);
+    });
+
+    it('uses at most one cluster per vector', async () => {
+        const { centroids } = await sphericalKMeans(vectors.slice(0, 2), 5);
+
+        expect(centroids).toHaveLength(2);
+    });
+
+    it('rejects an empty input', async () => {
+        await expect(sphericalKMeans([], 3)).rejects.toThrow('No vectors to cluster');
+    });
+
+    it('stops when aborted', async () => {
+        const controller = new AbortController();
+        controller.abort();
+
+        await expect(sphericalKMeans(vectors, 3, { signal: controller.signal })).rejects.toThrow();
+    });
+});
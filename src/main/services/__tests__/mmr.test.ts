@@ -0,0 +1,52 @@
+import { describe, expect, it } from '@jest/globals';
+import { cosine, maximalMarginalRelevance } from '../mmr';
+
+describe('cosine', () => {
+    it('is 1 for parallel, 0 for orthogonal and -1 for opposite vectors', () => {
+        expect(cosine(Float32Array.from([1, 2]), Float32Array.from([2, 4]))).toBeCloseTo(1);
+        expect(cosine(Float32Array.from([1, 0]), Float32Array.from([0, 3]))).toBeCloseTo(0);
+        expect(cosine(Float32Array.from([1, 1]), Float32Array.from([-1, -1]))).toBeCloseTo(-1);
+    });
+
+    it('is 0 when either vector is all zeros', () => {
+        expect(cosine(new Float32Array(3), Float32Array.from([1, 2, 3]))).toBe(0);
+    });
+});
+
+describe('maximalMarginalRelevance', () => {
+    // Two near-identical candidates and a less relevant but different one
+    const candidates = [
+        { relevance: 0.9, vector: Float32Array.from([1, 0]) },
+        { relevance: 0.89, vector: Float32Array.from([0.99, 0.01]) },
+        { relevance: 0.7, vector: Float32Array.from([0, 1]) }
+    ];
+
+    it('keeps the relevance order with lambda 1', () => {
+        const selected = maximalMarginalRelevance(candidates, 1, 3);
+
+        expect(selected.map(selection => selection.index)).toEqual([0, 1, 2]);
+        expect(selected[0].score).toBeCloseTo(0.9);
+    });
+
+    it('picks a different candidate before a near-duplicate of the first pick', () => {
+        const selected = maximalMarginalRelevance(candidates, 0.5, 3);
+
+        expect(selected.map(selection => selection.index)).toEqual([0, 2, 1]);
+    });
+
+    it('treats candidates without a vector as dissimilar to everything', () => {
+        const selected = maximalMarginalRelevance([
+            { relevance: 0.9, vector: Float32Array.from([1, 0]) },
+            { relevance: 0.85, vector: Float32Array.from([1, 0]) },
+            { relevance: 0.6, vector: null }
+        ], 0.5, 2);
+
+        expect(selected.map(selection => selection.index)).toEqual([0, 2]);
+    });
+
+    it('stops at limit and at the end of the candidates', () => {
+        expect(maximalMarginalRelevance(candidates, 0.5, 1)).toHaveLength(1);
+        expect(maximalMarginalRelevance(candidates, 0.5, 10)).toHaveLength(3);
+        expect(maximalMarginalRelevance([], 0.5, 5)).toEqual([]);
+    });
+});
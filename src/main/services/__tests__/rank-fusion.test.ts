@@ -0,0 +1,73 @@
+import { describe, expect, it } from '@jest/globals';
+import { RRF_K, fuseRankLists, fuseRankings } from '../rank-fusion';
+
+describe('fuseRankings', () => {
+    it('ranks a candidate found by both lists above one found by a single list', () => {
+        const fused = fuseRankings(
+            [{ id: 1, score: 0.9 }, { id: 2, score: 0.8 }],
+            [{ id: 3, score: 12 }, { id: 2, score: 7 }],
+            { vector: 1, keyword: 1 },
+            10
+        );
+
+        expect(fused.map(candidate => candidate.id)).toEqual([2, 1, 3]);
+        expect(fused[0].scores).toEqual({
+            vector: 0.8,
+            keyword: 7,
+            fused: 1 / (RRF_K + 2) + 1 / (RRF_K + 2)
+        });
+    });
+
+    it('keeps only the scores of the lists a candidate appeared in', () => {
+        const [vectorOnly] = fuseRankings([{ id: 1, score: 0.5 }], [], { vector: 1, keyword: 1 }, 10);
+
+        expect(vectorOnly.scores).toEqual({ vector: 0.5, fused: 1 / (RRF_K + 1) });
+    });
+
+    it('lets the weights decide between the top hits of each list', () => {
+        const vectorHits = [{ id: 1, score: 0.9 }];
+        const keywordHits = [{ id: 2, score: 5 }];
+
+        expect(fuseRankings(vectorHits, keywordHits, { vector: 1, keyword: 2 }, 10)[0].id).toBe(2);
+        expect(fuseRankings(vectorHits, keywordHits, { vector: 2, keyword: 1 }, 10)[0].id).toBe(1);
+    });
+
+    it('ignores a list with zero weight when ordering', () => {
+        const fused = fuseRankings(
+            [{ id: 1, score: 0.9 }, { id: 2, score: 0.8 }],
+            [{ id: 2, score: 9 }],
+            { vector: 1, keyword: 0 },
+            10
+        );
+
+        expect(fused.map(candidate => candidate.id)).toEqual([1, 2]);
+    });
+
+    it('returns at most limit candidates', () => {
+        const hits = Array.from({ length: 5 }, (_, i) => ({ id: i + 1, score: 1 - i / 10 }));
+
+        expect(fuseRankings(hits, [], { vector: 1, keyword: 1 }, 3).map(candidate => candidate.id)).toEqual([1, 2, 3]);
+    });
+});
+
+describe('fuseRankLists', () => {
+    it('ranks ids found by several lists above ids found by one', () => {
+        const fused = fuseRankLists([[1, 2, 3], [4, 2], [2, 5]]);
+
+        expect(fused.map(candidate => candidate.id)).toEqual([2, 1, 4, 5, 3]);
+        expect(fused[0].score).toBeCloseTo(2 / (RRF_K + 2) + 1 / (RRF_K + 1));
+    });
+
+    it('returns every id once', () => {
+        expect(fuseRankLists([[1, 2], [2, 1], [1]]).map(candidate => candidate.id)).toEqual([1, 2]);
+    });
+
+    it('keeps first-seen order between equally ranked ids', () => {
+        expect(fuseRankLists([[7], [3], [9]]).map(candidate => candidate.id)).toEqual([7, 3, 9]);
+    });
+
+    it('returns nothing for no rankings', () => {
+        expect(fuseRankLists([])).toEqual([]);
+        expect(fuseRankLists([[], []])).toEqual([]);
+    });
+});
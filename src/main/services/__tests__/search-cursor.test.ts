@@ -0,0 +1,81 @@
+import { describe, expect, it } from '@jest/globals';
+import { decodeSearchCursor, encodeSearchCursor, SearchCursor } from '../search-cursor';
+
+type Payload = Record<string, unknown>;
+
+function tamper(token: string, change: (payload: Payload) => void): string {
+    const payload = JSON.parse(Buffer.from(token, 'base64url').toString('utf8')) as Payload;
+    change(payload);
+    return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/** A nested object of the payload, such as its weights or filters */
+function nested(payload: Payload, key: string): Payload {
+    return payload[key] as Payload;
+}
+
+describe('search cursor', () => {
+    const cursor: SearchCursor = {
+        collectionId: 3,
+        query: 'vector databases',
+        modelId: 'all-MiniLM-L6-v2',
+        queryVector: Float32Array.from([0.25, -0.5, 0.125]),
+        offset: 20,
+        limit: 10,
+        minScore: 0.2,
+        mode: 'hybrid',
+        weights: { vector: 0.7, keyword: 0.3 },
+        filters: { fileTypes: ['md', 'txt'], topicId: 4 },
+        ef: 64,
+        mmrLambda: 0.5,
+        rerank: { topN: 20 },
+        exact: false,
+        contextWindow: 1,
+        highlight: true,
+        semanticHighlight: false
+    };
+
+    it('round-trips every field, including the query vector', () => {
+        expect(decodeSearchCursor(encodeSearchCursor(cursor))).toEqual(cursor);
+    });
+
+    it('round-trips a keyword cursor without a query vector', () => {
+        const keyword: SearchCursor = { ...cursor, mode: 'keyword', queryVector: undefined, modelId: undefined, rerank: undefined };
+
+        expect(decodeSearchCursor(encodeSearchCursor(keyword))).toEqual(keyword);
+    });
+
+    it('is safe to pass in a URL', () => {
+        expect(encodeSearchCursor(cursor)).toMatch(/^[A-Za-z0-9_-]+$/);
+    });
+
+    it('drops unknown fields', () => {
+        const token = tamper(encodeSearchCursor(cursor), payload => {
+            payload.extra = 'ignored';
+            nested(payload, 'filters').sql = 'DROP TABLE documents';
+        });
+
+        const decoded = decodeSearchCursor(token);
+        expect(decoded).toEqual(cursor);
+        expect(decoded.filters).not.toHaveProperty('sql');
+    });
+
+    it('rejects tokens that are not cursors', () => {
+        expect(() => decodeSearchCursor('not a cursor')).toThrow('Invalid search cursor');
+        expect(() => decodeSearchCursor(Buffer.from('[]').toString('base64url'))).toThrow('Invalid search cursor');
+    });
+
+    it.each([
+        ['an old version', (payload: Payload) => { payload.v = 1; }],
+        ['a negative offset', (payload: Payload) => { payload.offset = -5; }],
+        ['a zero limit', (payload: Payload) => { payload.limit = 0; }],
+        ['an unknown mode', (payload: Payload) => { payload.mode = 'fuzzy'; }],
+        ['an out-of-range MMR lambda', (payload: Payload) => { payload.mmrLambda = 2; }],
+        ['a negative weight', (payload: Payload) => { nested(payload, 'weights').vector = -1; }],
+        ['a non-string file type', (payload: Payload) => { nested(payload, 'filters').fileTypes = [1]; }],
+        ['a missing flag', (payload: Payload) => { delete payload.exact; }],
+        ['a truncated query vector', (payload: Payload) => { payload.queryVector = 'AAA='; }]
+    ])('rejects a cursor with %s', (_description, change) => {
+        expect(() => decodeSearchCursor(tamper(encodeSearchCursor(cursor), change))).toThrow('Invalid search cursor');
+    });
+});
@@ -1,6 +1,7 @@
 import fetch, { RequestInit } from 'node-fetch';
 import { AnthropicModelsResponse } from '../../shared/types/llm-provider';
 import Logger from './logger';
+import { createRequestSignal } from './request-signal';
 
 // Helper function to create a timeout signal
 function createTimeoutSignal(timeoutMs: number): RequestInit['signal'] {
@@ -132,7 +133,8 @@ export class AnthropicAPI {
     /**
      * Generate a response using Anthropic's API
      */
-    async generateResponse(apiKey: string, model: string, prompt: string): Promise<string> {
+    async generateResponse(apiKey: string, model: string, prompt: string, signal?: AbortSignal): Promise<string> {
+        const request = createRequestSignal(30000, signal);
         try {
             this.logger.debug(`Generating response with model: ${model}`);
             this.logger.debug(`API Key type: ${typeof apiKey}`);
@@ -155,7 +157,7 @@ export class AnthropicAPI {
                     messages: [{ role: 'user', content: prompt }],
                     max_tokens: 1024
                 }),
-                signal: createTimeoutSignal(30000)
+                signal: request.signal
             });
 
             if (!response.ok) {
@@ -172,6 +174,8 @@ export class AnthropicAPI {
                 this.logger.error('Stack trace:', error as Error);
             }
             throw new Error(`Failed to generate response from Anthropic: ${error.message}`);
+        } finally {
+            request.dispose();
         }
     }
 
@@ -0,0 +1,83 @@
+import { ChunkProvenance } from '../../shared/types/api';
+
+interface Heading {
+    offset: number;
+    level: number;
+    text: string;
+}
+
+const MARKDOWN_HEADING = /^(#{1,6})[ \t]+(.+?)[ \t#]*$/gm;
+
+/** 0-based index of the line containing offset */
+function lineAt(lineStarts: number[], offset: number): number {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+        const mid = (low + high + 1) >> 1;
+        if (lineStarts[mid] <= offset) {
+            low = mid;
+        } else {
+            high = mid - 1;
+        }
+    }
+    return low;
+}
+
+function headingPathAt(headings: Heading[], offset: number): string[] {
+    const path: Heading[] = [];
+    for (const heading of headings) {
+        if (heading.offset > offset) break;
+        while (path.length > 0 && path[path.length - 1].level >= heading.level) {
+            path.pop();
+        }
+        path.push(heading);
+    }
+    return path.map(heading => heading.text);
+}
+
+/**
+ * Find each chunk in the text it was cut from and describe its position. Chunks
+ * are expected in file order and may overlap; a chunk that does not occur
+ * verbatim (e.g. because the processor normalised whitespace) gets null.
+ * With `markdown`, the enclosing # headings are returned as the heading path.
+ */
+export function locateChunks(text: string, chunks: string[], markdown: boolean = false): Array<ChunkProvenance | null> {
+    const lineStarts = [0];
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '\n') lineStarts.push(i + 1);
+    }
+
+    const headings: Heading[] = [];
+    if (markdown) {
+        for (const match of text.matchAll(MARKDOWN_HEADING)) {
+            headings.push({ offset: match.index ?? 0, level: match[1].length, text: match[2] });
+        }
+    }
+
+    let cursor = 0;
+    return chunks.map(chunk => {
+        const needle = chunk.trim();
+        if (!needle) return null;
+
+        let start = text.indexOf(needle, cursor);
+        if (start < 0) {
+            // Fall back to a search from the top in case the processor reordered chunks
+            start = text.indexOf(needle);
+            if (start < 0) return null;
+        }
+        const end = start + needle.length;
+        cursor = start + 1;
+
+        const provenance: ChunkProvenance = {
+            startLine: lineAt(lineStarts, start) + 1,
+            endLine: lineAt(lineStarts, Math.max(start, end - 1)) + 1,
+            startOffset: start,
+            endOffset: end
+        };
+        const headingPath = headingPathAt(headings, start);
+        if (headingPath.length > 0) {
+            provenance.headingPath = headingPath;
+        }
+        return provenance;
+    });
+}
@@ -0,0 +1,328 @@
+import { Database } from 'better-sqlite3';
+import Logger from './logger';
+import {
+    Collection,
+    CollectionListResponse,
+    CollectionResponse,
+    CreateCollectionRequest,
+    DEFAULT_COLLECTION_ID,
+    DEFAULT_HNSW_PARAMETERS,
+    EmbeddingStorageFormat,
+    HnswParameters
+} from '../../shared/types/collection';
+import { DEFAULT_EMBEDDING_PROVIDER_ID } from '../../shared/types/embedding-provider';
+
+interface CollectionRow {
+    id: number;
+    name: string;
+    description: string | null;
+    embedding_provider_id: number;
+    dimension: number | null;
+    hnsw_m: number;
+    hnsw_ef_construction: number;
+    hnsw_ef_search: number;
+    embedding_storage: EmbeddingStorageFormat;
+    created_at: string;
+    updated_at: string;
+    last_import: string | null;
+}
+
+const EMBEDDING_STORAGE_FORMATS: EmbeddingStorageFormat[] = ['float32', 'int8'];
+
+/**
+ * Fill in defaults and reject values hnswlib cannot work with
+ */
+function resolveHnswParameters(params: Partial<HnswParameters>, base: HnswParameters = DEFAULT_HNSW_PARAMETERS): HnswParameters {
+    const resolved = { ...base, ...params };
+    if (!Number.isInteger(resolved.m) || resolved.m < 2 || resolved.m > 100) {
+        throw new Error('M must be an integer between 2 and 100');
+    }
+    if (!Number.isInteger(resolved.efConstruction) || resolved.efConstruction < resolved.m) {
+        throw new Error('efConstruction must be an integer of at least M');
+    }
+    if (!Number.isInteger(resolved.efSearch) || resolved.efSearch < 1) {
+        throw new Error('efSearch must be a positive integer');
+    }
+    return resolved;
+}
+
+function mapCollectionRow(row: CollectionRow): Collection {
+    return {
+        id: row.id,
+        name: row.name,
+        description: row.description || undefined,
+        embeddingProviderId: row.embedding_provider_id,
+        dimension: row.dimension ?? undefined,
+        hnsw: {
+            m: row.hnsw_m,
+            efConstruction: row.hnsw_ef_construction,
+            efSearch: row.hnsw_ef_search
+        },
+        embeddingStorage: row.embedding_storage,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+        lastImport: row.last_import || undefined
+    };
+}
+
+export class CollectionService {
+    private db: Database;
+    private logger: Logger;
+
+    constructor(db: Database) {
+        this.db = db;
+        this.logger = Logger.getInstance();
+    }
+
+    /**
+     * Get all collections
+     */
+    async getCollections(): Promise<CollectionListResponse> {
+        try {
+            const rows = this.db.prepare(`
+                SELECT * FROM collections ORDER BY id = ${DEFAULT_COLLECTION_ID} DESC, name ASC
+            `).all() as CollectionRow[];
+
+            return { success: true, collections: rows.map(mapCollectionRow) };
+        } catch (error) {
+            this.logger.error('Error getting collections:', error as Error);
+            return { success: false, collections: [], error: (error as Error).message };
+        }
+    }
+
+    /**
+     * Get a collection by ID
+     */
+    async getCollectionById(id: number): Promise<Collection | null> {
+        try {
+            const row = this.db.prepare('SELECT * FROM collections WHERE id = ?').get(id) as CollectionRow | undefined;
+            return row ? mapCollectionRow(row) : null;
+        } catch (error) {
+            this.logger.error(`Error getting collection ${id}:`, error as Error);
+            return null;
+        }
+    }
+
+    /**
+     * Create a new collection
+     */
+    async createCollection(request: CreateCollectionRequest): Promise<CollectionResponse> {
+        try {
+            const name = request.name?.trim();
+            if (!name) {
+                return { success: false, error: 'Collection name is required' };
+            }
+
+            if (this.nameExists(name)) {
+                return { success: false, error: `A collection named "${name}" already exists` };
+            }
+
+            const embeddingProviderId = request.embeddingProviderId ?? DEFAULT_EMBEDDING_PROVIDER_ID;
+            const provider = this.db.prepare('SELECT id FROM embedding_providers WHERE id = ?').get(embeddingProviderId);
+            if (!provider) {
+                return { success: false, error: `Embedding provider ${embeddingProviderId} not found` };
+            }
+
+            let hnsw: HnswParameters;
+            try {
+                hnsw = resolveHnswParameters(request.hnsw || {});
+            } catch (error) {
+                return { success: false, error: (error as Error).message };
+            }
+
+            const embeddingStorage = request.embeddingStorage ?? 'float32';
+            if (!EMBEDDING_STORAGE_FORMATS.includes(embeddingStorage)) {
+                return { success: false, error: `Unknown embedding storage format: ${embeddingStorage}` };
+            }
+
+            const result = this.db.prepare(`
+                INSERT INTO collections (
+                    name, description, embedding_provider_id,
+                    hnsw_m, hnsw_ef_construction, hnsw_ef_search, embedding_storage
+                )
+                VALUES (?, ?, ?, ?, ?, ?, ?)
+            `).run(
+                name,
+                request.description || null,
+                embeddingProviderId,
+                hnsw.m,
+                hnsw.efConstruction,
+                hnsw.efSearch,
+                embeddingStorage
+            );
+
+            const collection = await this.getCollectionById(result.lastInsertRowid as number);
+            this.logger.info(`Created collection: ${name}`);
+            return { success: true, collection: collection || undefined };
+        } catch (error) {
+            const err = error as Error;
+            this.logger.error('Error creating collection:', err);
+            return { success: false, error: `Failed to create collection: ${err.message}` };
+        }
+    }
+
+    /**
+     * Rename a collection
+     */
+    async renameCollection(id: number, name: string): Promise<CollectionResponse> {
+        try {
+            const trimmed = name?.trim();
+            if (!trimmed) {
+                return { success: false, error: 'Collection name is required' };
+            }
+
+            if (this.nameExists(trimmed, id)) {
+                return { success: false, error: `A collection named "${trimmed}" already exists` };
+            }
+
+            const result = this.db.prepare(`
+                UPDATE collections
+                SET name = ?, updated_at = DATETIME('now')
+                WHERE id = ?
+            `).run(trimmed, id);
+
+            if (result.changes === 0) {
+                return { success: false, error: 'Collection not found' };
+            }
+
+            const collection = await this.getCollectionById(id);
+            this.logger.info(`Renamed collection ${id} to: ${trimmed}`);
+            return { success: true, collection: collection || undefined };
+        } catch (error) {
+            const err = error as Error;
+            this.logger.error(`Error renaming collection ${id}:`, err);
+            return { success: false, error: `Failed to rename collection: ${err.message}` };
+        }
+    }
+
+    /**
+     * Delete a collection and its document rows. The caller is responsible for
+     * dropping the collection's index file.
+     */
+    async deleteCollection(id: number): Promise<CollectionResponse> {
+        try {
+            if (id === DEFAULT_COLLECTION_ID) {
+                return { success: false, error: 'The default collection cannot be deleted' };
+            }
+
+            const collection = await this.getCollectionById(id);
+            if (!collection) {
+                return { success: false, error: 'Collection not found' };
+            }
+
+            this.db.transaction(() => {
+                this.db.prepare('DELETE FROM documents WHERE collection_id = ?').run(id);
+                this.db.prepare('DELETE FROM collections WHERE id = ?').run(id);
+            })();
+
+            this.logger.info(`Deleted collection: ${collection.name}`);
+            return { success: true, collection };
+        } catch (error) {
+            const err = error as Error;
+            this.logger.error(`Error deleting collection ${id}:`, err);
+            return { success: false, error: `Failed to delete collection: ${err.message}` };
+        }
+    }
+
+    /**
+     * Record the time of the latest import into a collection
+     */
+    async touchLastImport(id: number): Promise<void> {
+        try {
+            this.db.prepare(`
+                UPDATE collections
+                SET last_import = DATETIME('now'), updated_at = DATETIME('now')
+                WHERE id = ?
+            `).run(id);
+        } catch (error) {
+            this.logger.error(`Error updating last import for collection ${id}:`, error as Error);
+        }
+    }
+
+    /**
+     * Record the vector dimension of a collection once its index has been created
+     */
+    setDimension(id: number, dimension: number | null): void {
+        this.db.prepare('UPDATE collections SET dimension = ? WHERE id = ?').run(dimension, id);
+    }
+
+    /**
+     * Point a collection at a different embedding provider after its vectors were regenerated
+     */
+    setEmbeddingProvider(id: number, embeddingProviderId: number, dimension: number): void {
+        this.db.prepare(`
+            UPDATE collections
+            SET embedding_provider_id = ?, dimension = ?, updated_at = DATETIME('now')
+            WHERE id = ?
+        `).run(embeddingProviderId, dimension, id);
+    }
+
+    /**
+     * Change the HNSW parameters of a collection. The caller rebuilds the index
+     * when M or efConstruction changed.
+     */
+    async updateHnswParameters(id: number, params: Partial<HnswParameters>): Promise<CollectionResponse> {
+        try {
+            const collection = await this.getCollectionById(id);
+            if (!collection) {
+                return { success: false, error: 'Collection not found' };
+            }
+
+            let hnsw: HnswParameters;
+            try {
+                hnsw = resolveHnswParameters(params, collection.hnsw);
+            } catch (error) {
+                return { success: false, error: (error as Error).message };
+            }
+
+            this.db.prepare(`
+                UPDATE collections
+                SET hnsw_m = ?, hnsw_ef_construction = ?, hnsw_ef_search = ?, updated_at = DATETIME('now')
+                WHERE id = ?
+            `).run(hnsw.m, hnsw.efConstruction, hnsw.efSearch, id);
+
+            this.logger.info(`Updated HNSW parameters of collection ${id}: ${JSON.stringify(hnsw)}`);
+            return { success: true, collection: { ...collection, hnsw } };
+        } catch (error) {
+            const err = error as Error;
+            this.logger.error(`Error updating HNSW parameters of collection ${id}:`, err);
+            return { success: false, error: `Failed to update index parameters: ${err.message}` };
+        }
+    }
+
+    /**
+     * Choose how newly stored vectors are encoded; existing rows keep their format
+     */
+    async setEmbeddingStorage(id: number, format: EmbeddingStorageFormat): Promise<CollectionResponse> {
+        try {
+            if (!EMBEDDING_STORAGE_FORMATS.includes(format)) {
+                return { success: false, error: `Unknown embedding storage format: ${format}` };
+            }
+
+            const result = this.db.prepare(`
+                UPDATE collections
+                SET embedding_storage = ?, updated_at = DATETIME('now')
+                WHERE id = ?
+            `).run(format, id);
+
+            if (result.changes === 0) {
+                return { success: false, error: 'Collection not found' };
+            }
+
+            const collection = await this.getCollectionById(id);
+            this.logger.info(`Collection ${id} now stores embeddings as ${format}`);
+            return { success: true, collection: collection || undefined };
+        } catch (error) {
+            const err = error as Error;
+            this.logger.error(`Error setting embedding storage of collection ${id}:`, err);
+            return { success: false, error: `Failed to set embedding storage: ${err.message}` };
+        }
+    }
+
+    private nameExists(name: string, excludeId?: number): boolean {
+        const row = this.db.prepare(`
+            SELECT id FROM collections WHERE name = ? COLLATE NOCASE AND id != ?
+        `).get(name, excludeId ?? -1);
+        return row !== undefined;
+    }
+}
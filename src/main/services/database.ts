@@ -3,6 +3,79 @@ import * as fs from 'fs';
 import { app } from 'electron';
 import Database from 'better-sqlite3';
 import Logger from './logger';
+import { SearchFilters } from '../../shared/types/api';
+import { DocumentSummary } from '../../shared/types/document';
+
+export interface DocumentRecord {
+    id: number;
+    collection_id: number;
+    content: string;
+    source: string;
+    type: string;
+    title: string | null;
+    category: string | null;
+    content_hash: string | null;
+    embedding: Buffer | null;
+    embedding_format: string | null;
+    embedding_scale: number | null;
+    page: number | null;
+    start_line: number | null;
+    end_line: number | null;
+    start_offset: number | null;
+    end_offset: number | null;
+    heading_path: string | null;
+    chunk_index: number | null;
+    duplicate_sources: string | null;
+    topic_id: number | null;
+    created_at: string;
+}
+
+export type NewDocument = Pick<DocumentRecord, 'collection_id' | 'content' | 'source' | 'type'> & {
+    title?: string | null;
+    category?: string | null;
+    content_hash?: string | null;
+    embedding?: Buffer | null;
+    embedding_format?: string | null;
+    embedding_scale?: number | null;
+    page?: number | null;
+    start_line?: number | null;
+    end_line?: number | null;
+    start_offset?: number | null;
+    end_offset?: number | null;
+    heading_path?: string | null;
+    chunk_index?: number | null;
+};
+
+export type StoredEmbedding = Pick<DocumentRecord, 'id' | 'embedding' | 'embedding_format' | 'embedding_scale'>;
+
+export interface SourceFileRecord {
+    collection_id: number;
+    source: string;
+    size: number;
+    mtime_ms: number;
+    file_hash: string;
+    imported_at: string;
+}
+
+export interface TopicRecord {
+    id: number;
+    collection_id: number;
+    label: string;
+    representative_ids: string | null;
+    created_at: string;
+    chunk_count: number;
+}
+
+export interface NewTopic {
+    label: string;
+    representativeIds: number[];
+    chunkIds: number[];
+}
+
+export interface KeywordMatch {
+    id: number;
+    score: number;
+}
 
 export class DatabaseManager {
     private static instance: DatabaseManager;
@@ -190,6 +263,359 @@ export class DatabaseManager {
         return null;
     }
 
+    addDocument(doc: NewDocument): number {
+        const result = this.db.prepare(`
+            INSERT INTO documents (
+                collection_id, content, source, type, title, category, content_hash,
+                embedding, embedding_format, embedding_scale,
+                page, start_line, end_line, start_offset, end_offset, heading_path, chunk_index
+            )
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(
+            doc.collection_id,
+            doc.content,
+            doc.source,
+            doc.type,
+            doc.title ?? null,
+            doc.category ?? null,
+            doc.content_hash ?? null,
+            doc.embedding ?? null,
+            doc.embedding_format ?? null,
+            doc.embedding_scale ?? null,
+            doc.page ?? null,
+            doc.start_line ?? null,
+            doc.end_line ?? null,
+            doc.start_offset ?? null,
+            doc.end_offset ?? null,
+            doc.heading_path ?? null,
+            doc.chunk_index ?? null
+        );
+
+        return result.lastInsertRowid as number;
+    }
+
+    /**
+     * Insert several chunks in one transaction, returning their ids in input order.
+     */
+    addDocuments(docs: NewDocument[]): number[] {
+        const addAll = this.db.transaction((newDocs: NewDocument[]) => newDocs.map(doc => this.addDocument(doc)));
+        return addAll(docs);
+    }
+
+    getDocument(id: number): DocumentRecord | undefined {
+        return this.db.prepare('SELECT * FROM documents WHERE id = ?').get(id) as DocumentRecord | undefined;
+    }
+
+    /**
+     * Chunks of one document with chunk_index in [from, to], in document order.
+     */
+    getChunkRange(collectionId: number, source: string, from: number, to: number): DocumentRecord[] {
+        return this.db.prepare(`
+            SELECT * FROM documents
+            WHERE collection_id = ? AND source = ? AND chunk_index BETWEEN ? AND ?
+            ORDER BY chunk_index, id
+        `).all(collectionId, source, from, to) as DocumentRecord[];
+    }
+
+    /**
+     * Stored vectors of a collection, read lazily so large collections are not
+     * loaded into memory at once. Rows without a stored vector have a null embedding.
+     */
+    iterateCollectionEmbeddings(collectionId: number): IterableIterator<StoredEmbedding> {
+        return this.db.prepare(`
+            SELECT id, embedding, embedding_format, embedding_scale
+            FROM documents
+            WHERE collection_id = ?
+            ORDER BY id
+        `).iterate(collectionId) as IterableIterator<StoredEmbedding>;
+    }
+
+    /**
+     * Number of components of each stored vector, derived from its byte length.
+     */
+    getStoredEmbeddingDimensions(collectionId: number): Array<{ id: number; dimension: number }> {
+        const rows = this.db.prepare(`
+            SELECT id, LENGTH(embedding) AS bytes, embedding_format AS format
+            FROM documents
+            WHERE collection_id = ? AND embedding IS NOT NULL
+        `).all(collectionId) as Array<{ id: number; bytes: number; format: string | null }>;
+
+        return rows.map(row => ({ id: row.id, dimension: row.format === 'int8' ? row.bytes : row.bytes / 4 }));
+    }
+
+    clearDocumentEmbeddings(ids: number[]): void {
+        const statement = this.db.prepare(`
+            UPDATE documents
+            SET embedding = NULL, embedding_format = NULL, embedding_scale = NULL
+            WHERE id = ?
+        `);
+        this.db.transaction(() => {
+            for (const id of ids) {
+                statement.run(id);
+            }
+        })();
+    }
+
+    /**
+     * Store vectors for existing chunks in a single transaction.
+     */
+    setDocumentEmbeddings(entries: Array<Omit<StoredEmbedding, 'embedding'> & { embedding: Buffer }>): void {
+        const statement = this.db.prepare(`
+            UPDATE documents
+            SET embedding = ?, embedding_format = ?, embedding_scale = ?
+            WHERE id = ?
+        `);
+        this.db.transaction(() => {
+            for (const entry of entries) {
+                statement.run(entry.embedding, entry.embedding_format, entry.embedding_scale, entry.id);
+            }
+        })();
+    }
+
+    countCollectionDocuments(collectionId: number): number {
+        const row = this.db.prepare('SELECT COUNT(*) AS count FROM documents WHERE collection_id = ?').get(collectionId) as { count: number };
+        return row.count;
+    }
+
+    getCollectionDocumentIds(collectionId: number): number[] {
+        const rows = this.db.prepare('SELECT id FROM documents WHERE collection_id = ? ORDER BY id').all(collectionId) as { id: number }[];
+        return rows.map(row => row.id);
+    }
+
+    /**
+     * One entry per source file in the collection, newest import first.
+     */
+    getDocumentSummaries(collectionId: number): DocumentSummary[] {
+        const rows = this.db.prepare(`
+            SELECT source,
+                   MIN(type) AS type,
+                   MIN(title) AS title,
+                   COUNT(*) AS chunkCount,
+                   MAX(created_at) AS importedAt
+            FROM documents
+            WHERE collection_id = ?
+            GROUP BY source
+            ORDER BY importedAt DESC, source
+        `).all(collectionId) as Array<DocumentSummary & { title: string | null }>;
+
+        return rows.map(row => ({ ...row, title: row.title ?? undefined }));
+    }
+
+    getSourceDocumentIds(collectionId: number, source: string): number[] {
+        const rows = this.db.prepare(
+            'SELECT id FROM documents WHERE collection_id = ? AND source = ? ORDER BY id'
+        ).all(collectionId, source) as { id: number }[];
+        return rows.map(row => row.id);
+    }
+
+    getSourceFiles(collectionId: number): SourceFileRecord[] {
+        return this.db.prepare('SELECT * FROM source_files WHERE collection_id = ?').all(collectionId) as SourceFileRecord[];
+    }
+
+    /**
+     * Distinct sources with chunks in the collection, including files imported
+     * before their state was tracked in source_files.
+     */
+    getCollectionSources(collectionId: number): string[] {
+        const rows = this.db.prepare(
+            'SELECT DISTINCT source FROM documents WHERE collection_id = ?'
+        ).all(collectionId) as { source: string }[];
+        return rows.map(row => row.source);
+    }
+
+    upsertSourceFile(record: Omit<SourceFileRecord, 'imported_at'>): void {
+        this.db.prepare(`
+            INSERT INTO source_files (collection_id, source, size, mtime_ms, file_hash)
+            VALUES (?, ?, ?, ?, ?)
+            ON CONFLICT (collection_id, source) DO UPDATE SET
+                size = excluded.size,
+                mtime_ms = excluded.mtime_ms,
+                file_hash = excluded.file_hash,
+                imported_at = CURRENT_TIMESTAMP
+        `).run(record.collection_id, record.source, record.size, record.mtime_ms, record.file_hash);
+    }
+
+    deleteSourceFile(collectionId: number, source: string): void {
+        this.db.prepare('DELETE FROM source_files WHERE collection_id = ? AND source = ?').run(collectionId, source);
+    }
+
+    /**
+     * Record other files a chunk's content also appeared in, keeping the JSON
+     * array free of repeats and of the chunk's own source.
+     */
+    addDuplicateSources(id: number, sources: string[]): void {
+        const doc = this.getDocument(id);
+        if (!doc) return;
+
+        const merged = new Set<string>(doc.duplicate_sources ? JSON.parse(doc.duplicate_sources) : []);
+        for (const source of sources) {
+            if (source !== doc.source) merged.add(source);
+        }
+        this.db.prepare('UPDATE documents SET duplicate_sources = ? WHERE id = ?')
+            .run(merged.size > 0 ? JSON.stringify(Array.from(merged)) : null, id);
+    }
+
+    /**
+     * Replace a collection's topics with the result of a new clustering run,
+     * returning the ids of the new topics in input order. Chunks not listed
+     * under any topic are left without one.
+     */
+    replaceTopics(collectionId: number, topics: NewTopic[]): number[] {
+        const insertTopic = this.db.prepare(
+            'INSERT INTO topics (collection_id, label, representative_ids) VALUES (?, ?, ?)'
+        );
+        const assignChunk = this.db.prepare('UPDATE documents SET topic_id = ? WHERE id = ? AND collection_id = ?');
+
+        return this.db.transaction(() => {
+            // Chunks of the old topics lose their topic_id through ON DELETE SET NULL
+            this.db.prepare('DELETE FROM topics WHERE collection_id = ?').run(collectionId);
+
+            return topics.map(topic => {
+                const topicId = Number(insertTopic.run(collectionId, topic.label, JSON.stringify(topic.representativeIds)).lastInsertRowid);
+                for (const chunkId of topic.chunkIds) {
+                    assignChunk.run(topicId, chunkId, collectionId);
+                }
+                return topicId;
+            });
+        })();
+    }
+
+    /**
+     * A collection's topics with their current number of chunks, largest first.
+     */
+    getTopics(collectionId: number): TopicRecord[] {
+        return this.db.prepare(`
+            SELECT t.*, COUNT(d.id) AS chunk_count
+            FROM topics t
+            LEFT JOIN documents d ON d.topic_id = t.id
+            WHERE t.collection_id = ?
+            GROUP BY t.id
+            ORDER BY chunk_count DESC, t.id
+        `).all(collectionId) as TopicRecord[];
+    }
+
+    /**
+     * One page of a topic's chunks, in document order.
+     */
+    getTopicChunks(topicId: number, limit: number, offset: number = 0): DocumentRecord[] {
+        return this.db.prepare(`
+            SELECT * FROM documents
+            WHERE topic_id = ?
+            ORDER BY source, chunk_index, id
+            LIMIT ? OFFSET ?
+        `).all(topicId, limit, offset) as DocumentRecord[];
+    }
+
+    countUnassignedChunks(collectionId: number): number {
+        const row = this.db.prepare(
+            'SELECT COUNT(*) AS count FROM documents WHERE collection_id = ? AND topic_id IS NULL'
+        ).get(collectionId) as { count: number };
+        return row.count;
+    }
+
+    deleteDocuments(ids: number[]): number {
+        const statement = this.db.prepare('DELETE FROM documents WHERE id = ?');
+        const removeAll = this.db.transaction((documentIds: number[]) => {
+            let removed = 0;
+            for (const id of documentIds) {
+                removed += statement.run(id).changes;
+            }
+            return removed;
+        });
+
+        return removeAll(ids);
+    }
+
+    /**
+     * BM25 ranking of a collection's chunks against free text. Every term is quoted
+     * so user input never reaches the FTS5 query syntax; terms are ORed together and
+     * chunks matching more of them rank higher. Higher scores are better.
+     */
+    searchKeywords(collectionId: number, query: string, limit: number, filters: SearchFilters = {}): KeywordMatch[] {
+        const terms = query.match(/[\p{L}\p{N}_]+/gu);
+        if (!terms || terms.length === 0) return [];
+
+        const match = terms.map(term => `"${term}"`).join(' OR ');
+        const filter = this.buildFilterClause(filters, 'd');
+        const rows = this.db.prepare(`
+            SELECT d.id AS id, bm25(documents_fts) AS rank
+            FROM documents_fts
+            JOIN documents d ON d.id = documents_fts.rowid
+            WHERE documents_fts MATCH ? AND d.collection_id = ?${filter.sql}
+            ORDER BY rank
+            LIMIT ?
+        `).all(match, collectionId, ...filter.params, limit) as { id: number; rank: number }[];
+
+        // bm25() is negative with the best match lowest
+        return rows.map(row => ({ id: row.id, score: -row.rank }));
+    }
+
+    /**
+     * Ids of the collection's chunks that satisfy every given filter.
+     */
+    getFilteredDocumentIds(collectionId: number, filters: SearchFilters): number[] {
+        const filter = this.buildFilterClause(filters, 'd');
+        const rows = this.db.prepare(
+            `SELECT d.id AS id FROM documents d WHERE d.collection_id = ?${filter.sql}`
+        ).all(collectionId, ...filter.params) as { id: number }[];
+        return rows.map(row => row.id);
+    }
+
+    /**
+     * Translate search filters into AND-ed conditions on the documents table.
+     * File types ignore case and a leading dot; source globs use forward slashes
+     * on every platform; importedBefore is exclusive.
+     */
+    private buildFilterClause(filters: SearchFilters, alias: string): { sql: string; params: unknown[] } {
+        const conditions: string[] = [];
+        const params: unknown[] = [];
+
+        const fileTypes = (filters.fileTypes || [])
+            .map(type => type.trim().replace(/^\./, '').toLowerCase())
+            .filter(Boolean);
+        if (fileTypes.length > 0) {
+            conditions.push(`LTRIM(LOWER(${alias}.type), '.') IN (${fileTypes.map(() => '?').join(', ')})`);
+            params.push(...fileTypes);
+        }
+        if (filters.sourceGlob) {
+            conditions.push(`REPLACE(${alias}.source, '\\', '/') GLOB ?`);
+            params.push(filters.sourceGlob.replace(/\\/g, '/'));
+        }
+        if (filters.category) {
+            conditions.push(`${alias}.category = ? COLLATE NOCASE`);
+            params.push(filters.category);
+        }
+        if (filters.titleContains) {
+            conditions.push(`INSTR(LOWER(${alias}.title), LOWER(?)) > 0`);
+            params.push(filters.titleContains);
+        }
+        if (filters.importedAfter) {
+            conditions.push(`datetime(${alias}.created_at) >= datetime(?)`);
+            params.push(filters.importedAfter);
+        }
+        if (filters.importedBefore) {
+            conditions.push(`datetime(${alias}.created_at) < datetime(?)`);
+            params.push(filters.importedBefore);
+        }
+        if (filters.topicId !== undefined) {
+            conditions.push(`${alias}.topic_id = ?`);
+            params.push(filters.topicId);
+        }
+
+        return {
+            sql: conditions.map(condition => ` AND ${condition}`).join(''),
+            params
+        };
+    }
+
+    clearCollectionDocuments(collectionId: number): number {
+        const result = this.db.prepare('DELETE FROM documents WHERE collection_id = ?').run(collectionId);
+        this.db.prepare('DELETE FROM source_files WHERE collection_id = ?').run(collectionId);
+        this.db.prepare('DELETE FROM topics WHERE collection_id = ?').run(collectionId);
+        this.logger.info(`Removed ${result.changes} documents from collection ${collectionId}`);
+        return result.changes;
+    }
+
     close(): void {
         if (this.db) {
             this.db.close();
@@ -0,0 +1,102 @@
+import { DuplicateFileGroup } from '../../shared/types/document';
+
+// Share of each file's chunks that must have duplicates in the other file for the two to be grouped
+const FILE_COVERAGE_THRESHOLD = 0.8;
+
+// Chunk groups spread over more files than this are boilerplate (licence headers,
+// footers) and say nothing about whether two files are copies
+const MAX_FILES_PER_CHUNK_GROUP = 50;
+
+/**
+ * Union-find over arbitrary keys, with path compression.
+ */
+export class DisjointSet<T> {
+    private parents = new Map<T, T>();
+
+    find(item: T): T {
+        let root = item;
+        while (this.parents.has(root) && this.parents.get(root) !== root) {
+            root = this.parents.get(root)!;
+        }
+
+        let current = item;
+        while (current !== root) {
+            const next = this.parents.get(current)!;
+            this.parents.set(current, root);
+            current = next;
+        }
+        if (!this.parents.has(root)) this.parents.set(root, root);
+        return root;
+    }
+
+    union(a: T, b: T): void {
+        const rootA = this.find(a);
+        const rootB = this.find(b);
+        if (rootA !== rootB) this.parents.set(rootB, rootA);
+    }
+
+    /** Sets with more than one member, in the order their first member was added */
+    groups(): T[][] {
+        const byRoot = new Map<T, T[]>();
+        for (const item of this.parents.keys()) {
+            const root = this.find(item);
+            const members = byRoot.get(root);
+            if (members) {
+                members.push(item);
+            } else {
+                byRoot.set(root, [item]);
+            }
+        }
+        return Array.from(byRoot.values()).filter(members => members.length > 1);
+    }
+}
+
+/**
+ * Group files that are mostly copies of each other. Two files are linked when
+ * at least FILE_COVERAGE_THRESHOLD of the chunks of each are in a chunk group
+ * together with a chunk of the other.
+ *
+ * @param chunkGroups Sources of the chunks of each duplicate chunk group
+ * @param chunkCounts Number of chunks of every file in the collection
+ */
+export function groupDuplicateFiles(chunkGroups: string[][], chunkCounts: Map<string, number>): DuplicateFileGroup[] {
+    // shared.get(a).get(b): chunks of a with a duplicate in b
+    const shared = new Map<string, Map<string, number>>();
+    for (const sources of chunkGroups) {
+        const distinct = new Set(sources);
+        if (distinct.size < 2 || distinct.size > MAX_FILES_PER_CHUNK_GROUP) continue;
+
+        for (const source of sources) {
+            let counts = shared.get(source);
+            if (!counts) {
+                counts = new Map();
+                shared.set(source, counts);
+            }
+            for (const other of distinct) {
+                if (other !== source) counts.set(other, (counts.get(other) ?? 0) + 1);
+            }
+        }
+    }
+
+    const coverage = (a: string, b: string) => (shared.get(a)?.get(b) ?? 0) / (chunkCounts.get(a) || 1);
+    const files = new DisjointSet<string>();
+    for (const [source, counts] of shared) {
+        for (const other of counts.keys()) {
+            if (source < other
+                && coverage(source, other) >= FILE_COVERAGE_THRESHOLD
+                && coverage(other, source) >= FILE_COVERAGE_THRESHOLD) {
+                files.union(source, other);
+            }
+        }
+    }
+
+    return files.groups().map(sources => ({
+        files: sources.map(source => ({
+            source,
+            chunkCount: chunkCounts.get(source) ?? 0,
+            duplicatedChunks: Math.max(0, ...sources
+                .filter(other => other !== source)
+                .map(other => shared.get(source)?.get(other) ?? 0))
+        }))
+    }));
+}
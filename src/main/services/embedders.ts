@@ -0,0 +1,184 @@
+import fetch from 'node-fetch';
+import {
+    EmbeddingProvider,
+    XenovaEmbeddingConfig,
+    isOllamaEmbeddingConfig,
+    isOpenAIEmbeddingConfig
+} from '../../shared/types/embedding-provider';
+import { createRequestSignal } from './request-signal';
+
+/**
+ * Turns text into vectors. Implementations must return one vector per input
+ * text, in input order, all with the same length.
+ */
+export interface Embedder {
+    /** Stable identifier of the model, e.g. "ollama:nomic-embed-text" */
+    readonly modelId: string;
+    /** Rejects once `signal` is aborted, abandoning any request in flight */
+    embed(texts: string[], signal?: AbortSignal): Promise<Float32Array[]>;
+}
+
+function normalizeEndpoint(endpoint: string): string {
+    let normalized = endpoint.endsWith('/') ? endpoint.slice(0, -1) : endpoint;
+    if (!normalized.startsWith('http://') && !normalized.startsWith('https://')) {
+        normalized = 'http://' + normalized;
+    }
+    return normalized;
+}
+
+// Xenova pipelines are expensive to load, so share them between collections
+const xenovaPipelines = new Map<string, Promise<any>>();
+
+export class XenovaEmbedder implements Embedder {
+    readonly modelId: string;
+    private model: string;
+
+    constructor(config: XenovaEmbeddingConfig) {
+        this.model = config.model;
+        this.modelId = `xenova:${config.model}`;
+    }
+
+    private getPipeline(): Promise<any> {
+        let pipeline = xenovaPipelines.get(this.model);
+        if (!pipeline) {
+            pipeline = import('@xenova/transformers')
+                .then(transformers => transformers.pipeline('feature-extraction', this.model));
+            // Allow a retry if loading the model fails
+            pipeline.catch(() => xenovaPipelines.delete(this.model));
+            xenovaPipelines.set(this.model, pipeline);
+        }
+        return pipeline;
+    }
+
+    async embed(texts: string[], signal?: AbortSignal): Promise<Float32Array[]> {
+        const extractor = await this.getPipeline();
+        const vectors: Float32Array[] = [];
+
+        for (const text of texts) {
+            // A running inference cannot be interrupted, so stop between texts
+            signal?.throwIfAborted();
+            const output = await extractor(text, { pooling: 'mean', normalize: true });
+            if (!output?.data) {
+                throw new Error('Failed to generate embedding');
+            }
+
+            vectors.push(new Float32Array(
+                Object.keys(output.data)
+                    .sort((a, b) => parseInt(a) - parseInt(b))
+                    .map(key => output.data[key])
+            ));
+        }
+
+        return vectors;
+    }
+}
+
+export class OllamaEmbedder implements Embedder {
+    readonly modelId: string;
+    private endpoint: string;
+    private model: string;
+
+    constructor(endpoint: string, model: string) {
+        this.endpoint = normalizeEndpoint(endpoint);
+        this.model = model;
+        this.modelId = `ollama:${model}`;
+    }
+
+    async embed(texts: string[], signal?: AbortSignal): Promise<Float32Array[]> {
+        const request = createRequestSignal(60000, signal);
+        try {
+            const response = await fetch(`${this.endpoint}/api/embed`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({ model: this.model, input: texts }),
+                signal: request.signal
+            });
+
+            if (!response.ok) {
+                throw new Error(`Ollama embedding request failed with status ${response.status}: ${await response.text()}`);
+            }
+
+            const data = await response.json() as { embeddings?: number[][] };
+            if (!data.embeddings || data.embeddings.length !== texts.length) {
+                throw new Error(`Ollama returned ${data.embeddings?.length ?? 0} embeddings for ${texts.length} inputs`);
+            }
+
+            return data.embeddings.map(embedding => new Float32Array(embedding));
+        } finally {
+            request.dispose();
+        }
+    }
+}
+
+export class OpenAIEmbedder implements Embedder {
+    readonly modelId: string;
+    private url: string;
+    private model: string;
+    private apiKey?: string;
+
+    constructor(baseUrl: string, model: string, apiKey?: string) {
+        const normalized = normalizeEndpoint(baseUrl);
+        this.url = normalized.endsWith('/v1') ? `${normalized}/embeddings` : `${normalized}/v1/embeddings`;
+        this.model = model;
+        this.apiKey = apiKey;
+        this.modelId = `openai:${model}`;
+    }
+
+    async embed(texts: string[], signal?: AbortSignal): Promise<Float32Array[]> {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (this.apiKey) {
+            headers['Authorization'] = `Bearer ${this.apiKey}`;
+        }
+
+        const request = createRequestSignal(60000, signal);
+        try {
+            const response = await fetch(this.url, {
+                method: 'POST',
+                headers,
+                body: JSON.stringify({ model: this.model, input: texts }),
+                signal: request.signal
+            });
+
+            if (!response.ok) {
+                throw new Error(`Embedding request failed with status ${response.status}: ${await response.text()}`);
+            }
+
+            const data = await response.json() as { data?: Array<{ embedding: number[]; index: number }> };
+            if (!data.data || data.data.length !== texts.length) {
+                throw new Error(`Endpoint returned ${data.data?.length ?? 0} embeddings for ${texts.length} inputs`);
+            }
+
+            return [...data.data]
+                .sort((a, b) => a.index - b.index)
+                .map(item => new Float32Array(item.embedding));
+        } finally {
+            request.dispose();
+        }
+    }
+}
+
+export function createEmbedder(provider: EmbeddingProvider): Embedder {
+    if (provider.type === 'xenova') {
+        return new XenovaEmbedder(provider.config as XenovaEmbeddingConfig);
+    }
+    if (isOllamaEmbeddingConfig(provider.type, provider.config)) {
+        return new OllamaEmbedder(provider.config.endpoint, provider.config.model);
+    }
+    if (isOpenAIEmbeddingConfig(provider.type, provider.config)) {
+        return new OpenAIEmbedder(provider.config.baseUrl, provider.config.model, provider.config.apiKey);
+    }
+    throw new Error(`Unsupported embedding provider type: ${provider.type}`);
+}
+
+/**
+ * Determine the vector length a model produces by embedding a probe string.
+ */
+export async function detectDimension(embedder: Embedder): Promise<number> {
+    const [vector] = await embedder.embed(['dimension probe']);
+    if (!vector || vector.length === 0) {
+        throw new Error(`Embedding model ${embedder.modelId} returned an empty vector`);
+    }
+    return vector.length;
+}
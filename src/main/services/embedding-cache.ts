@@ -0,0 +1,191 @@
+import { Database } from 'better-sqlite3';
+import { decodeEmbedding, encodeEmbedding } from './embedding-codec';
+import { EmbeddingCacheStats } from '../../shared/types/vector-store';
+
+// Default limit on the total size of cached vectors
+const DEFAULT_MAX_CACHE_BYTES = 256 * 1024 * 1024;
+
+// Smallest limit that can be set, so the cache cannot be configured into uselessness
+const MIN_MAX_CACHE_BYTES = 1024 * 1024;
+
+// Share of the limit kept after an eviction, so eviction does not run on every insert
+const EVICTION_TARGET = 0.9;
+
+// Least recently used entries read and deleted per eviction step
+const EVICTION_BATCH = 500;
+
+interface CacheRow {
+    content_hash: string;
+    dimension: number;
+    embedding: Buffer;
+}
+
+/**
+ * Persistent cache of embeddings keyed by (model id, content hash). Vectors are
+ * stored as float32 whatever a collection's own storage format is, so a cached
+ * vector is exactly what the model returned. When the stored vectors exceed
+ * the configured limit, the least recently used entries are evicted.
+ */
+export class EmbeddingCache {
+    private maxBytes: number;
+    // Total size of the stored vectors, summed once and then kept up to date
+    private totalBytes: number | null = null;
+
+    constructor(private db: Database) {
+        const row = this.db.prepare('SELECT max_bytes FROM embedding_cache_settings WHERE id = 1').get() as
+            { max_bytes: number } | undefined;
+        this.maxBytes = row?.max_bytes ?? DEFAULT_MAX_CACHE_BYTES;
+    }
+
+    /** Cached vectors for the given hashes, recording hits and misses */
+    getMany(modelId: string, contentHashes: string[]): Map<string, Float32Array> {
+        const found = new Map<string, Float32Array>();
+        const unique = Array.from(new Set(contentHashes));
+        if (unique.length === 0) return found;
+
+        const select = this.db.prepare(`
+            SELECT content_hash, dimension, embedding
+            FROM embedding_cache
+            WHERE model_id = ? AND content_hash = ?
+        `);
+        const touch = this.db.prepare(`
+            UPDATE embedding_cache SET last_used_at = ? WHERE model_id = ? AND content_hash = ?
+        `);
+
+        const now = Date.now();
+        this.db.transaction(() => {
+            for (const hash of unique) {
+                const row = select.get(modelId, hash) as CacheRow | undefined;
+                if (!row) continue;
+
+                const vector = decodeEmbedding(row.embedding, 'float32', null);
+                if (vector.length !== row.dimension) continue;
+
+                found.set(hash, vector);
+                touch.run(now, modelId, hash);
+            }
+        })();
+
+        const hits = contentHashes.filter(hash => found.has(hash)).length;
+        this.recordLookups(hits, contentHashes.length - hits);
+        return found;
+    }
+
+    /** Store vectors, then evict if the cache has grown past its limit */
+    putMany(modelId: string, entries: Array<{ contentHash: string; vector: Float32Array }>): void {
+        if (entries.length === 0) return;
+
+        const existing = this.db.prepare(`
+            SELECT LENGTH(embedding) as size FROM embedding_cache WHERE model_id = ? AND content_hash = ?
+        `);
+        const insert = this.db.prepare(`
+            INSERT OR REPLACE INTO embedding_cache (model_id, content_hash, dimension, embedding, last_used_at)
+            VALUES (?, ?, ?, ?, ?)
+        `);
+
+        let total = this.getTotalBytes();
+        const now = Date.now();
+        this.db.transaction(() => {
+            for (const entry of entries) {
+                const replaced = existing.get(modelId, entry.contentHash) as { size: number } | undefined;
+                const encoded = encodeEmbedding(entry.vector, 'float32');
+                insert.run(modelId, entry.contentHash, entry.vector.length, encoded.blob, now);
+                total += encoded.blob.length - (replaced?.size ?? 0);
+            }
+        })();
+        this.totalBytes = total;
+
+        this.evict();
+    }
+
+    /**
+     * Change the size limit, evicting at once if the cache is already larger.
+     */
+    setMaxBytes(maxBytes: number): void {
+        if (!Number.isInteger(maxBytes) || maxBytes < MIN_MAX_CACHE_BYTES) {
+            throw new Error(`The cache limit must be a whole number of bytes, at least ${MIN_MAX_CACHE_BYTES}`);
+        }
+
+        this.db.prepare(`
+            INSERT INTO embedding_cache_settings (id, max_bytes) VALUES (1, ?)
+            ON CONFLICT(id) DO UPDATE SET max_bytes = excluded.max_bytes
+        `).run(maxBytes);
+        this.maxBytes = maxBytes;
+        this.evict();
+    }
+
+    getStats(): EmbeddingCacheStats {
+        const size = this.db.prepare(`
+            SELECT COUNT(*) as entries, COALESCE(SUM(LENGTH(embedding)), 0) as bytes FROM embedding_cache
+        `).get() as { entries: number; bytes: number };
+        const counters = this.db.prepare(`
+            SELECT embedding_cache_hits as hits, embedding_cache_misses as misses FROM statistics WHERE id = 1
+        `).get() as { hits: number; misses: number } | undefined;
+
+        this.totalBytes = size.bytes;
+        return {
+            entries: size.entries,
+            bytes: size.bytes,
+            maxBytes: this.maxBytes,
+            hits: counters?.hits ?? 0,
+            misses: counters?.misses ?? 0
+        };
+    }
+
+    clear(): void {
+        this.db.prepare('DELETE FROM embedding_cache').run();
+        this.totalBytes = 0;
+    }
+
+    private getTotalBytes(): number {
+        if (this.totalBytes === null) {
+            const { bytes } = this.db.prepare(`
+                SELECT COALESCE(SUM(LENGTH(embedding)), 0) as bytes FROM embedding_cache
+            `).get() as { bytes: number };
+            this.totalBytes = bytes;
+        }
+        return this.totalBytes;
+    }
+
+    private recordLookups(hits: number, misses: number): void {
+        this.db.prepare(`
+            UPDATE statistics
+            SET embedding_cache_hits = embedding_cache_hits + ?,
+                embedding_cache_misses = embedding_cache_misses + ?
+            WHERE id = 1
+        `).run(hits, misses);
+    }
+
+    private evict(): void {
+        const bytes = this.getTotalBytes();
+        if (bytes <= this.maxBytes) return;
+
+        const target = this.maxBytes * EVICTION_TARGET;
+        const oldest = this.db.prepare(`
+            SELECT model_id, content_hash, LENGTH(embedding) as size
+            FROM embedding_cache
+            ORDER BY last_used_at ASC
+            LIMIT ?
+        `);
+        const remove = this.db.prepare('DELETE FROM embedding_cache WHERE model_id = ? AND content_hash = ?');
+
+        let remaining = bytes;
+        let evicted = 0;
+        while (remaining > target) {
+            const batch = oldest.all(EVICTION_BATCH) as Array<{ model_id: string; content_hash: string; size: number }>;
+            if (batch.length === 0) break;
+
+            this.db.transaction(() => {
+                for (const row of batch) {
+                    if (remaining <= target) break;
+                    remove.run(row.model_id, row.content_hash);
+                    remaining -= row.size;
+                    evicted++;
+                }
+            })();
+        }
+        this.totalBytes = Math.max(remaining, 0);
+
+        console.log(`Evicted ${evicted} embeddings from the cache (${bytes} -> ${remaining} bytes)`);
+    }
+}
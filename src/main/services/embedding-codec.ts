@@ -0,0 +1,49 @@
+import { EmbeddingStorageFormat } from '../../shared/types/collection';
+
+export interface EncodedEmbedding {
+    blob: Buffer;
+    format: EmbeddingStorageFormat;
+    scale: number | null;
+}
+
+/**
+ * Serialize a vector for storage. int8 uses symmetric per-vector quantization:
+ * each component is divided by max(|x|) / 127 and rounded, which keeps cosine
+ * similarity within about 1% of the original at a quarter of the size.
+ */
+export function encodeEmbedding(vector: Float32Array | number[], format: EmbeddingStorageFormat): EncodedEmbedding {
+    if (format === 'int8') {
+        let maxAbs = 0;
+        for (let i = 0; i < vector.length; i++) {
+            maxAbs = Math.max(maxAbs, Math.abs(vector[i]));
+        }
+
+        const scale = maxAbs > 0 ? maxAbs / 127 : 1;
+        const quantized = new Int8Array(vector.length);
+        for (let i = 0; i < vector.length; i++) {
+            quantized[i] = Math.round(vector[i] / scale);
+        }
+        return { blob: Buffer.from(quantized.buffer), format, scale };
+    }
+
+    const floats = Float32Array.from(vector);
+    return { blob: Buffer.from(floats.buffer), format: 'float32', scale: null };
+}
+
+export function decodeEmbedding(blob: Buffer, format: string | null, scale: number | null): Float32Array {
+    if (format === 'int8') {
+        const quantized = new Int8Array(blob.buffer, blob.byteOffset, blob.byteLength);
+        const vector = new Float32Array(quantized.length);
+        for (let i = 0; i < quantized.length; i++) {
+            vector[i] = quantized[i] * (scale ?? 1);
+        }
+        return vector;
+    }
+
+    // Copy out of the Buffer, whose byte offset need not be 4-byte aligned
+    const floats = new Float32Array(blob.byteLength / 4);
+    for (let i = 0; i < floats.length; i++) {
+        floats[i] = blob.readFloatLE(i * 4);
+    }
+    return floats;
+}
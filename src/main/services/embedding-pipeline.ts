@@ -0,0 +1,184 @@
+import { Worker } from 'worker_threads';
+import * as path from 'path';
+import * as fs from 'fs';
+import { EmbeddingProvider } from '../../shared/types/embedding-provider';
+import { EmbeddingPipelineOptions } from '../../shared/types/api';
+
+export const DEFAULT_EMBEDDING_PIPELINE_OPTIONS: Required<EmbeddingPipelineOptions> = {
+    batchSize: 32,
+    concurrency: 2,
+    maxQueuedChunks: 512,
+    workerMemoryMb: 2048
+};
+
+export interface EmbeddingWorkerData {
+    provider: EmbeddingProvider;
+}
+
+export interface EmbeddingWorkerRequest {
+    id: number;
+    texts: string[];
+}
+
+export interface EmbeddingWorkerResponse {
+    id: number;
+    vectors?: Float32Array[];
+    error?: string;
+}
+
+interface PendingRequest {
+    resolve: (vectors: Float32Array[]) => void;
+    reject: (error: Error) => void;
+}
+
+function positiveInteger(value: number | undefined, fallback: number, name: string): number {
+    if (value === undefined) return fallback;
+    if (!Number.isInteger(value) || value < 1) {
+        throw new Error(`${name} must be a positive integer`);
+    }
+    return value;
+}
+
+function findWorkerScript(): string {
+    const possiblePaths = [
+        path.join(__dirname, 'embedding.worker.js'),
+        path.join(__dirname, 'workers', 'embedding.worker.js'),
+        path.join(__dirname, '..', 'workers', 'embedding.worker.js')
+    ];
+
+    const script = possiblePaths.find(p => fs.existsSync(p));
+    if (!script) {
+        throw new Error(`Embedding worker script not found in ${possiblePaths.join(', ')}`);
+    }
+    return script;
+}
+
+/**
+ * Embeds text on a worker thread, so loading and running local models does not
+ * block the main process and its IPC. Texts are split into batches and up to
+ * `concurrency` batches are in flight at once; the worker's heap is capped at
+ * `workerMemoryMb`.
+ *
+ * Only embedding runs here. The HNSW index belongs to the main process, which
+ * inserts each window of vectors and yields to the event loop in between.
+ */
+export class EmbeddingPipeline {
+    readonly modelId: string;
+    readonly options: Required<EmbeddingPipelineOptions>;
+    private worker: Worker;
+    private pending = new Map<number, PendingRequest>();
+    private nextRequestId = 0;
+    private failure: Error | null = null;
+    private embeddedChunks = 0;
+    private startedAt: number | null = null;
+
+    constructor(provider: EmbeddingProvider, options: EmbeddingPipelineOptions = {}) {
+        const defaults = DEFAULT_EMBEDDING_PIPELINE_OPTIONS;
+        this.options = {
+            batchSize: positiveInteger(options.batchSize, defaults.batchSize, 'batchSize'),
+            concurrency: positiveInteger(options.concurrency, defaults.concurrency, 'concurrency'),
+            maxQueuedChunks: positiveInteger(options.maxQueuedChunks, defaults.maxQueuedChunks, 'maxQueuedChunks'),
+            workerMemoryMb: positiveInteger(options.workerMemoryMb, defaults.workerMemoryMb, 'workerMemoryMb')
+        };
+        this.modelId = `${provider.type}:${provider.config.model}`;
+
+        const workerData: EmbeddingWorkerData = { provider };
+        this.worker = new Worker(findWorkerScript(), {
+            workerData,
+            resourceLimits: { maxOldGenerationSizeMb: this.options.workerMemoryMb }
+        });
+        this.worker.on('message', (response: EmbeddingWorkerResponse) => this.settle(response));
+        this.worker.on('error', error => this.fail(error));
+        this.worker.on('exit', code => this.fail(new Error(`Embedding worker exited with code ${code}`)));
+    }
+
+    /**
+     * Embed texts, returning one vector per text in input order. Aborting
+     * `signal` rejects at once and sends no further batches; batches already on
+     * the worker finish there and are discarded.
+     */
+    async embed(texts: string[], signal?: AbortSignal): Promise<Float32Array[]> {
+        const batches: string[][] = [];
+        for (let start = 0; start < texts.length; start += this.options.batchSize) {
+            batches.push(texts.slice(start, start + this.options.batchSize));
+        }
+
+        const results: Float32Array[][] = new Array(batches.length);
+        let next = 0;
+        const runBatches = async () => {
+            while (next < batches.length) {
+                const batch = next++;
+                results[batch] = await this.request(batches[batch], signal);
+                this.embeddedChunks += batches[batch].length;
+            }
+        };
+
+        this.startedAt ??= Date.now();
+        await Promise.all(Array.from({ length: Math.min(this.options.concurrency, batches.length) }, runBatches));
+        return results.flat();
+    }
+
+    /**
+     * Chunks embedded per second since the first batch was sent.
+     */
+    get chunksPerSecond(): number {
+        if (this.startedAt === null) return 0;
+        const seconds = (Date.now() - this.startedAt) / 1000;
+        return seconds > 0 ? this.embeddedChunks / seconds : 0;
+    }
+
+    async close(): Promise<void> {
+        this.failure ??= new Error('Embedding pipeline closed');
+        await this.worker.terminate();
+    }
+
+    private request(texts: string[], signal?: AbortSignal): Promise<Float32Array[]> {
+        if (this.failure) {
+            return Promise.reject(this.failure);
+        }
+        if (signal?.aborted) {
+            return Promise.reject(signal.reason);
+        }
+
+        const id = this.nextRequestId++;
+        return new Promise((resolve, reject) => {
+            const onAbort = () => {
+                this.pending.delete(id);
+                reject(signal!.reason);
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+            this.pending.set(id, {
+                resolve: vectors => {
+                    signal?.removeEventListener('abort', onAbort);
+                    resolve(vectors);
+                },
+                reject: error => {
+                    signal?.removeEventListener('abort', onAbort);
+                    reject(error);
+                }
+            });
+            const request: EmbeddingWorkerRequest = { id, texts };
+            this.worker.postMessage(request);
+        });
+    }
+
+    private settle(response: EmbeddingWorkerResponse): void {
+        const request = this.pending.get(response.id);
+        if (!request) return;
+
+        this.pending.delete(response.id);
+        if (response.error || !response.vectors) {
+            request.reject(new Error(response.error || 'Embedding worker returned no vectors'));
+        } else {
+            request.resolve(response.vectors);
+        }
+    }
+
+    private fail(error: Error): void {
+        this.failure ??= error;
+        for (const request of this.pending.values()) {
+            request.reject(error);
+        }
+        this.pending.clear();
+    }
+}
@@ -0,0 +1,274 @@
+import { Database } from 'better-sqlite3';
+import Logger from './logger';
+import { DatabaseManager } from './database';
+import { Embedder, createEmbedder, detectDimension } from './embedders';
+import {
+    EmbeddingProvider,
+    EmbeddingProviderType,
+    EmbeddingProviderResponse,
+    EmbeddingProviderListResponse,
+    CreateEmbeddingProviderRequest,
+    UpdateEmbeddingProviderRequest,
+    DEFAULT_EMBEDDING_PROVIDER_ID
+} from '../../shared/types/embedding-provider';
+
+interface EmbeddingProviderRow {
+    id: number;
+    name: string;
+    type: EmbeddingProviderType;
+    config: string;
+    dimension: number | null;
+    created_at: string;
+    last_used: string | null;
+}
+
+const PROVIDER_TYPES: EmbeddingProviderType[] = ['xenova', 'ollama', 'openai'];
+
+function mapProviderRow(row: EmbeddingProviderRow): EmbeddingProvider {
+    return {
+        id: row.id,
+        name: row.name,
+        type: row.type,
+        config: JSON.parse(row.config),
+        dimension: row.dimension ?? undefined,
+        createdAt: row.created_at,
+        lastUsed: row.last_used || undefined
+    };
+}
+
+/**
+ * Shared by the IPC handler and the vector store so that updating or deleting
+ * a provider drops the one cached embedder everyone embeds with.
+ */
+export class EmbeddingProviderService {
+    private static instance: EmbeddingProviderService;
+    private db: Database;
+    private logger: Logger;
+    private embedders = new Map<number, Embedder>();
+
+    private constructor(db: Database) {
+        this.db = db;
+        this.logger = Logger.getInstance();
+    }
+
+    static getInstance(): EmbeddingProviderService {
+        if (!EmbeddingProviderService.instance) {
+            EmbeddingProviderService.instance = new EmbeddingProviderService(DatabaseManager.getInstance().getDatabase());
+        }
+        return EmbeddingProviderService.instance;
+    }
+
+    /**
+     * Get all embedding providers
+     */
+    async getProviders(): Promise<EmbeddingProviderListResponse> {
+        try {
+            const rows = this.db.prepare(`
+                SELECT * FROM embedding_providers ORDER BY id = ${DEFAULT_EMBEDDING_PROVIDER_ID} DESC, name ASC
+            `).all() as EmbeddingProviderRow[];
+
+            return { success: true, providers: rows.map(mapProviderRow) };
+        } catch (error) {
+            this.logger.error('Error getting embedding providers:', error as Error);
+            return { success: false, providers: [], error: (error as Error).message };
+        }
+    }
+
+    /**
+     * Get an embedding provider by ID
+     */
+    async getProviderById(id: number): Promise<EmbeddingProvider | null> {
+        try {
+            const row = this.db.prepare('SELECT * FROM embedding_providers WHERE id = ?').get(id) as EmbeddingProviderRow | undefined;
+            return row ? mapProviderRow(row) : null;
+        } catch (error) {
+            this.logger.error(`Error getting embedding provider ${id}:`, error as Error);
+            return null;
+        }
+    }
+
+    /**
+     * Create a new embedding provider. The vector dimension is detected from
+     * the model when it is reachable; otherwise it is detected on first use.
+     */
+    async createProvider(request: CreateEmbeddingProviderRequest): Promise<EmbeddingProviderResponse> {
+        try {
+            const { name, type, config } = request;
+            if (!name?.trim()) {
+                return { success: false, error: 'Provider name is required' };
+            }
+            if (!PROVIDER_TYPES.includes(type)) {
+                return { success: false, error: `Unsupported embedding provider type: ${type}` };
+            }
+
+            const result = this.db.prepare(`
+                INSERT INTO embedding_providers (name, type, config) VALUES (?, ?, ?)
+            `).run(name.trim(), type, JSON.stringify(config));
+
+            const id = result.lastInsertRowid as number;
+            this.logger.info(`Created embedding provider: ${name} (${type})`);
+
+            try {
+                await this.resolveDimension(id);
+            } catch (error) {
+                this.logger.warn(`Could not detect dimension for embedding provider ${name}: ${(error as Error).message}`);
+            }
+
+            const provider = await this.getProviderById(id);
+            return { success: true, provider: provider || undefined };
+        } catch (error) {
+            const err = error as Error;
+            this.logger.error('Error creating embedding provider:', err);
+            return { success: false, error: `Failed to create embedding provider: ${err.message}` };
+        }
+    }
+
+    /**
+     * Update an embedding provider. Changing the model of a provider that
+     * collections already use would invalidate their vectors, so it is refused.
+     */
+    async updateProvider(id: number, request: UpdateEmbeddingProviderRequest): Promise<EmbeddingProviderResponse> {
+        try {
+            const current = await this.getProviderById(id);
+            if (!current) {
+                return { success: false, error: 'Embedding provider not found' };
+            }
+
+            const config = request.config ? { ...current.config, ...request.config } : current.config;
+            const configChanged = JSON.stringify(config) !== JSON.stringify(current.config);
+
+            if (configChanged && this.getCollectionUsage(id) > 0) {
+                return {
+                    success: false,
+                    error: 'This provider is used by collections. Create a new provider and re-embed the collections instead.'
+                };
+            }
+
+            this.db.prepare(`
+                UPDATE embedding_providers
+                SET name = ?, config = ?, dimension = CASE WHEN ? THEN NULL ELSE dimension END
+                WHERE id = ?
+            `).run(request.name?.trim() || current.name, JSON.stringify(config), configChanged ? 1 : 0, id);
+
+            if (configChanged) {
+                this.embedders.delete(id);
+            }
+
+            const provider = await this.getProviderById(id);
+            return { success: true, provider: provider || undefined };
+        } catch (error) {
+            const err = error as Error;
+            this.logger.error(`Error updating embedding provider ${id}:`, err);
+            return { success: false, error: `Failed to update embedding provider: ${err.message}` };
+        }
+    }
+
+    /**
+     * Delete an embedding provider that no collection uses
+     */
+    async deleteProvider(id: number): Promise<EmbeddingProviderResponse> {
+        try {
+            if (id === DEFAULT_EMBEDDING_PROVIDER_ID) {
+                return { success: false, error: 'The built-in embedding provider cannot be deleted' };
+            }
+
+            const usage = this.getCollectionUsage(id);
+            if (usage > 0) {
+                return { success: false, error: `This provider is used by ${usage} collection(s)` };
+            }
+
+            const result = this.db.prepare('DELETE FROM embedding_providers WHERE id = ?').run(id);
+            if (result.changes === 0) {
+                return { success: false, error: 'Embedding provider not found' };
+            }
+
+            this.embedders.delete(id);
+            this.logger.info(`Deleted embedding provider ${id}`);
+            return { success: true };
+        } catch (error) {
+            const err = error as Error;
+            this.logger.error(`Error deleting embedding provider ${id}:`, err);
+            return { success: false, error: `Failed to delete embedding provider: ${err.message}` };
+        }
+    }
+
+    /**
+     * Embed a probe string to check the provider works and refresh its dimension.
+     * The stored dimension is only replaced after a successful probe, and not at
+     * all when collections built with this provider have a different one.
+     */
+    async testProvider(id: number): Promise<{ success: boolean; dimension?: number; error?: string }> {
+        try {
+            const dimension = await detectDimension(await this.getEmbedder(id));
+
+            const mismatched = this.db.prepare(`
+                SELECT COUNT(*) as count FROM collections
+                WHERE embedding_provider_id = ? AND dimension IS NOT NULL AND dimension != ?
+            `).get(id, dimension) as { count: number };
+            if (mismatched.count > 0) {
+                return {
+                    success: false,
+                    dimension,
+                    error: `The model now returns ${dimension}-dimensional vectors, which does not match ` +
+                        `${mismatched.count} collection(s) using this provider; re-embed them with a new provider instead`
+                };
+            }
+
+            this.db.prepare('UPDATE embedding_providers SET dimension = ? WHERE id = ?').run(dimension, id);
+            return { success: true, dimension };
+        } catch (error) {
+            const err = error as Error;
+            this.logger.error(`Error testing embedding provider ${id}:`, err);
+            return { success: false, error: err.message };
+        }
+    }
+
+    /**
+     * Get the (cached) embedder for a provider
+     */
+    async getEmbedder(id: number): Promise<Embedder> {
+        let embedder = this.embedders.get(id);
+        if (!embedder) {
+            const provider = await this.getProviderById(id);
+            if (!provider) {
+                throw new Error(`Embedding provider ${id} not found`);
+            }
+            embedder = createEmbedder(provider);
+            this.embedders.set(id, embedder);
+        }
+        return embedder;
+    }
+
+    async updateLastUsed(id: number): Promise<void> {
+        try {
+            this.db.prepare(`UPDATE embedding_providers SET last_used = DATETIME('now') WHERE id = ?`).run(id);
+        } catch (error) {
+            this.logger.error(`Error updating last used timestamp for embedding provider ${id}:`, error as Error);
+        }
+    }
+
+    /**
+     * Get the vector dimension of a provider, detecting it from the model if unknown
+     */
+    async resolveDimension(id: number): Promise<number> {
+        const provider = await this.getProviderById(id);
+        if (!provider) {
+            throw new Error(`Embedding provider ${id} not found`);
+        }
+        if (provider.dimension) {
+            return provider.dimension;
+        }
+
+        const dimension = await detectDimension(await this.getEmbedder(id));
+        this.db.prepare('UPDATE embedding_providers SET dimension = ? WHERE id = ?').run(dimension, id);
+        this.logger.info(`Detected dimension ${dimension} for embedding provider ${provider.name}`);
+        return dimension;
+    }
+
+    private getCollectionUsage(id: number): number {
+        const row = this.db.prepare(`
+            SELECT COUNT(*) as count FROM collections WHERE embedding_provider_id = ?
+        `).get(id) as { count: number };
+        return row.count;
+    }
+}
@@ -0,0 +1,64 @@
+import { HighlightSpan } from '../../shared/types/api';
+
+export interface TextRange {
+    start: number;
+    end: number;
+}
+
+// Same token definition as the keyword search, so highlights match what BM25 matched
+const TOKEN = /[\p{L}\p{N}_]+/gu;
+
+// Sentence ends at ., ! or ? followed by whitespace, or at a blank line
+const SENTENCE_BREAK = /[.!?]+(?=\s)|\n\s*\n/g;
+
+/** Lower-cased distinct query terms, as the keyword search tokenizes them */
+export function queryTerms(query: string): Set<string> {
+    return new Set((query.match(TOKEN) ?? []).map(term => term.toLowerCase()));
+}
+
+/**
+ * Every token in the text that equals one of the terms, ignoring case.
+ */
+export function keywordSpans(text: string, terms: Set<string>): HighlightSpan[] {
+    if (terms.size === 0) return [];
+
+    const spans: HighlightSpan[] = [];
+    for (const match of text.matchAll(TOKEN)) {
+        if (terms.has(match[0].toLowerCase())) {
+            const start = match.index ?? 0;
+            spans.push({ start, end: start + match[0].length, kind: 'keyword' });
+        }
+    }
+    return spans;
+}
+
+/**
+ * Sentence ranges of the text with surrounding whitespace trimmed. Sentences
+ * shorter than minLength are joined to the following one so that headings and
+ * list markers do not become highlights of their own.
+ */
+export function splitSentences(text: string, minLength: number = 20): TextRange[] {
+    const ranges: TextRange[] = [];
+    let start = 0;
+    const push = (end: number) => {
+        let from = start;
+        let to = end;
+        while (from < to && /\s/.test(text[from])) from++;
+        while (to > from && /\s/.test(text[to - 1])) to--;
+        if (to - from >= minLength) {
+            ranges.push({ start: from, end: to });
+            start = end;
+        }
+    };
+
+    for (const match of text.matchAll(SENTENCE_BREAK)) {
+        push((match.index ?? 0) + (match[0].startsWith('\n') ? 0 : match[0].length));
+    }
+    push(text.length);
+
+    // Fold a short tail into the last sentence
+    if (start < text.length && ranges.length > 0 && text.slice(start).trim()) {
+        ranges[ranges.length - 1].end = text.trimEnd().length;
+    }
+    return ranges;
+}
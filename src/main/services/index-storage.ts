@@ -0,0 +1,316 @@
+import { HierarchicalNSW } from 'hnswlib-node';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { HnswParameters } from '../../shared/types/collection';
+
+export interface IndexManifest {
+    version: number;
+    collectionId: number;
+    checksum: string;
+    elementCount: number;
+    capacity: number;
+    documentCount: number;
+    dimension: number;
+    embeddingModel: string;
+    hnsw: HnswParameters;
+    savedAt: string;
+}
+
+export interface IndexSaveInfo {
+    documentCount: number;
+    embeddingModel: string;
+    hnsw: HnswParameters;
+}
+
+export interface LoadedIndex {
+    index: HierarchicalNSW;
+    manifest: IndexManifest | null;
+    recoveredFrom?: string;
+}
+
+const MANIFEST_VERSION = 1;
+
+// Number of snapshots kept per collection, newest first
+const MAX_SNAPSHOTS = 3;
+
+/**
+ * On-disk storage of the per-collection HNSW indexes.
+ *
+ * Every write goes to a temporary file that is flushed to disk and renamed over
+ * the live index, so the live file is always either the previous or the new
+ * complete index. Each index has a manifest with its checksum, and every save
+ * also becomes a snapshot; when the live index is missing, corrupt or does not
+ * match its manifest, the newest intact snapshot is restored instead of
+ * starting over empty.
+ */
+export class IndexStorage {
+    constructor(private directory: string) {}
+
+    ensureDirectory(): void {
+        fs.mkdirSync(this.directory, { recursive: true });
+    }
+
+    getIndexPath(collectionId: number): string {
+        return path.join(this.directory, `collection-${collectionId}.index`);
+    }
+
+    private getManifestPath(indexPath: string): string {
+        return `${indexPath}.manifest.json`;
+    }
+
+    private getPendingManifestPath(indexPath: string): string {
+        return `${this.getManifestPath(indexPath)}.tmp`;
+    }
+
+    private getSnapshotDirectory(collectionId: number): string {
+        return path.join(this.directory, 'snapshots', `collection-${collectionId}`);
+    }
+
+    exists(collectionId: number): boolean {
+        return fs.existsSync(this.getIndexPath(collectionId));
+    }
+
+    /**
+     * Atomically replace the live index and its manifest, then snapshot it.
+     *
+     * The new manifest is written and flushed before the index is renamed, so a
+     * crash between the two renames leaves it pending next to the new index,
+     * where load() finds and completes it.
+     */
+    save(collectionId: number, index: HierarchicalNSW, info: IndexSaveInfo): IndexManifest {
+        this.ensureDirectory();
+
+        const indexPath = this.getIndexPath(collectionId);
+        const tempPath = `${indexPath}.tmp`;
+        try {
+            index.writeIndexSync(tempPath);
+            this.syncFile(tempPath);
+
+            const manifest: IndexManifest = {
+                version: MANIFEST_VERSION,
+                collectionId,
+                checksum: this.hashFile(tempPath),
+                elementCount: index.getCurrentCount(),
+                capacity: index.getMaxElements(),
+                documentCount: info.documentCount,
+                dimension: index.getNumDimensions(),
+                embeddingModel: info.embeddingModel,
+                hnsw: info.hnsw,
+                savedAt: new Date().toISOString()
+            };
+
+            this.stageManifest(indexPath, manifest);
+            fs.renameSync(tempPath, indexPath);
+            this.commitManifest(indexPath);
+            this.createSnapshot(collectionId, manifest);
+            return manifest;
+        } finally {
+            if (fs.existsSync(tempPath)) {
+                fs.unlinkSync(tempPath);
+            }
+        }
+    }
+
+    /**
+     * Load the live index, falling back to the newest intact snapshot. Returns null
+     * when there is nothing usable on disk.
+     */
+    load(collectionId: number, dimension: number): LoadedIndex | null {
+        const indexPath = this.getIndexPath(collectionId);
+
+        if (fs.existsSync(indexPath)) {
+            try {
+                this.completePendingManifest(indexPath);
+                const manifest = this.readManifest(indexPath);
+                const index = this.readVerified(indexPath, manifest, dimension);
+                return { index, manifest };
+            } catch (error) {
+                console.warn(`Index for collection ${collectionId} is unusable:`, error);
+                // Keep the damaged file for inspection instead of deleting it
+                this.moveAside(indexPath);
+            }
+        }
+
+        for (const snapshotPath of this.listSnapshots(collectionId)) {
+            try {
+                const manifest = this.readManifest(snapshotPath);
+                const index = this.readVerified(snapshotPath, manifest, dimension);
+                this.restoreSnapshot(collectionId, snapshotPath, manifest);
+                console.warn(`Recovered index for collection ${collectionId} from snapshot ${path.basename(snapshotPath)}`);
+                return { index, manifest, recoveredFrom: snapshotPath };
+            } catch (error) {
+                console.warn(`Snapshot ${snapshotPath} is unusable:`, error);
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Remove the live index, its manifest and all snapshots of a collection.
+     */
+    remove(collectionId: number): void {
+        const indexPath = this.getIndexPath(collectionId);
+        for (const file of [indexPath, this.getManifestPath(indexPath), this.getPendingManifestPath(indexPath)]) {
+            if (fs.existsSync(file)) {
+                fs.unlinkSync(file);
+            }
+        }
+        fs.rmSync(this.getSnapshotDirectory(collectionId), { recursive: true, force: true });
+    }
+
+    private readVerified(indexPath: string, manifest: IndexManifest | null, dimension: number): HierarchicalNSW {
+        // Indexes written before manifests existed are accepted if they can be read
+        if (manifest) {
+            if (manifest.dimension !== dimension) {
+                throw new Error(`Manifest dimension ${manifest.dimension} does not match expected ${dimension}`);
+            }
+            if (this.hashFile(indexPath) !== manifest.checksum) {
+                throw new Error('Checksum mismatch');
+            }
+        }
+
+        const index = new HierarchicalNSW('cosine', dimension);
+        index.readIndexSync(indexPath);
+        return index;
+    }
+
+    private readManifest(indexPath: string): IndexManifest | null {
+        const manifestPath = this.getManifestPath(indexPath);
+        if (!fs.existsSync(manifestPath)) return null;
+        return JSON.parse(fs.readFileSync(manifestPath, 'utf8')) as IndexManifest;
+    }
+
+    private writeManifest(indexPath: string, manifest: IndexManifest): void {
+        this.stageManifest(indexPath, manifest);
+        this.commitManifest(indexPath);
+    }
+
+    private stageManifest(indexPath: string, manifest: IndexManifest): void {
+        const pendingPath = this.getPendingManifestPath(indexPath);
+        fs.writeFileSync(pendingPath, JSON.stringify(manifest, null, 2));
+        this.syncFile(pendingPath);
+    }
+
+    private commitManifest(indexPath: string): void {
+        fs.renameSync(this.getPendingManifestPath(indexPath), this.getManifestPath(indexPath));
+        this.syncDirectory(path.dirname(indexPath));
+    }
+
+    /**
+     * Finish a save that was interrupted between renaming the index and its
+     * manifest. A pending manifest that matches the live index belongs to it;
+     * any other was staged for an index that never went live.
+     */
+    private completePendingManifest(indexPath: string): void {
+        const pendingPath = this.getPendingManifestPath(indexPath);
+        if (!fs.existsSync(pendingPath)) return;
+
+        try {
+            const pending = JSON.parse(fs.readFileSync(pendingPath, 'utf8')) as IndexManifest;
+            if (pending.checksum === this.hashFile(indexPath)) {
+                this.commitManifest(indexPath);
+                return;
+            }
+        } catch {
+            // An unreadable pending manifest was cut short while being staged
+        }
+        fs.rmSync(pendingPath, { force: true });
+    }
+
+    /**
+     * Snapshot the live index under its save time and drop the oldest ones.
+     * Live files are only ever replaced by rename, so a hard link is enough.
+     */
+    private createSnapshot(collectionId: number, manifest: IndexManifest): void {
+        const snapshotDirectory = this.getSnapshotDirectory(collectionId);
+        fs.mkdirSync(snapshotDirectory, { recursive: true });
+
+        const snapshotPath = path.join(snapshotDirectory, `${manifest.savedAt.replace(/[:.]/g, '-')}.index`);
+        try {
+            fs.linkSync(this.getIndexPath(collectionId), snapshotPath);
+        } catch {
+            fs.copyFileSync(this.getIndexPath(collectionId), snapshotPath);
+        }
+        this.writeManifest(snapshotPath, manifest);
+
+        for (const stale of this.listSnapshots(collectionId).slice(MAX_SNAPSHOTS)) {
+            fs.unlinkSync(stale);
+            fs.rmSync(this.getManifestPath(stale), { force: true });
+        }
+    }
+
+    private restoreSnapshot(collectionId: number, snapshotPath: string, manifest: IndexManifest | null): void {
+        const indexPath = this.getIndexPath(collectionId);
+        const tempPath = `${indexPath}.tmp`;
+        fs.copyFileSync(snapshotPath, tempPath);
+        fs.renameSync(tempPath, indexPath);
+        if (manifest) {
+            this.writeManifest(indexPath, manifest);
+        }
+    }
+
+    private listSnapshots(collectionId: number): string[] {
+        const snapshotDirectory = this.getSnapshotDirectory(collectionId);
+        if (!fs.existsSync(snapshotDirectory)) return [];
+
+        // Snapshot names are ISO timestamps, so they sort chronologically
+        return fs.readdirSync(snapshotDirectory)
+            .filter(file => file.endsWith('.index'))
+            .sort()
+            .reverse()
+            .map(file => path.join(snapshotDirectory, file));
+    }
+
+    private moveAside(indexPath: string): void {
+        const corruptPath = `${indexPath}.corrupt-${Date.now()}`;
+        fs.renameSync(indexPath, corruptPath);
+        const manifestPath = this.getManifestPath(indexPath);
+        if (fs.existsSync(manifestPath)) {
+            fs.renameSync(manifestPath, `${corruptPath}.manifest.json`);
+        }
+    }
+
+    private syncFile(filePath: string): void {
+        const fd = fs.openSync(filePath, 'r+');
+        try {
+            fs.fsyncSync(fd);
+        } finally {
+            fs.closeSync(fd);
+        }
+    }
+
+    /**
+     * Persist the renames in a directory. Windows cannot open directories for
+     * syncing, and its renames are already durable, so failures are ignored.
+     */
+    private syncDirectory(directory: string): void {
+        let fd: number | undefined;
+        try {
+            fd = fs.openSync(directory, 'r');
+            fs.fsyncSync(fd);
+        } catch {
+            // Not supported on this platform
+        } finally {
+            if (fd !== undefined) {
+                fs.closeSync(fd);
+            }
+        }
+    }
+
+    private hashFile(filePath: string): string {
+        const hash = crypto.createHash('sha256');
+        const buffer = Buffer.alloc(1024 * 1024);
+        const fd = fs.openSync(filePath, 'r');
+        try {
+            let bytesRead: number;
+            while ((bytesRead = fs.readSync(fd, buffer, 0, buffer.length, null)) > 0) {
+                hash.update(buffer.subarray(0, bytesRead));
+            }
+        } finally {
+            fs.closeSync(fd);
+        }
+        return hash.digest('hex');
+    }
+}
@@ -0,0 +1,150 @@
+export interface KMeansResult {
+    /** Unit-length cluster centres */
+    centroids: Float32Array[];
+    /** Cluster of each input vector */
+    assignments: number[];
+    iterations: number;
+}
+
+export interface KMeansOptions {
+    maxIterations?: number;
+    seed?: number;
+    /** Stops the clustering between iterations when aborted */
+    signal?: AbortSignal;
+}
+
+export interface NearestCentroid {
+    cluster: number;
+    similarity: number;
+}
+
+/**
+ * Small seeded PRNG (mulberry32), so that clustering the same vectors twice
+ * gives the same topics.
+ */
+function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+export function normalize(vector: Float32Array): Float32Array {
+    let norm = 0;
+    for (let i = 0; i < vector.length; i++) {
+        norm += vector[i] * vector[i];
+    }
+    norm = Math.sqrt(norm);
+
+    const unit = new Float32Array(vector.length);
+    if (norm === 0) return unit;
+    for (let i = 0; i < vector.length; i++) {
+        unit[i] = vector[i] / norm;
+    }
+    return unit;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) {
+        sum += a[i] * b[i];
+    }
+    return sum;
+}
+
+/**
+ * The centroid most similar to a unit-length vector.
+ */
+export function nearestCentroid(centroids: Float32Array[], unit: Float32Array): NearestCentroid {
+    let best: NearestCentroid = { cluster: 0, similarity: -Infinity };
+    for (let c = 0; c < centroids.length; c++) {
+        const similarity = dot(centroids[c], unit);
+        if (similarity > best.similarity) {
+            best = { cluster: c, similarity };
+        }
+    }
+    return best;
+}
+
+/**
+ * Spherical k-means: k-means on unit vectors with cosine similarity, which is
+ * what the embeddings are compared with everywhere else. Seeded with k-means++,
+ * so the initial centres are spread out. A cluster that runs empty is restarted
+ * at the vector that fits its own cluster worst. Yields to the event loop
+ * after every iteration, since it runs on the main process.
+ *
+ * @param vectors Unit-length vectors, see normalize
+ */
+export async function sphericalKMeans(vectors: Float32Array[], k: number, options: KMeansOptions = {}): Promise<KMeansResult> {
+    const { maxIterations = 25, seed = 1, signal } = options;
+    if (vectors.length === 0) {
+        throw new Error('No vectors to cluster');
+    }
+    const clusterCount = Math.min(k, vectors.length);
+    const random = createRandom(seed);
+
+    // k-means++: each further centre is drawn with probability proportional to
+    // its distance from the nearest centre chosen so far
+    const centroids: Float32Array[] = [vectors[Math.floor(random() * vectors.length)]];
+    const distances = vectors.map(vector => 1 - dot(vector, centroids[0]));
+    while (centroids.length < clusterCount) {
+        const total = distances.reduce((sum, distance) => sum + Math.max(distance, 0), 0);
+        let target = random() * total;
+        let chosen = distances.findIndex(distance => (target -= Math.max(distance, 0)) <= 0);
+        if (chosen < 0 || total === 0) chosen = Math.floor(random() * vectors.length);
+
+        const centre = vectors[chosen];
+        centroids.push(centre);
+        for (let i = 0; i < vectors.length; i++) {
+            distances[i] = Math.min(distances[i], 1 - dot(vectors[i], centre));
+        }
+    }
+
+    const assignments = new Array<number>(vectors.length).fill(-1);
+    const similarities = new Array<number>(vectors.length).fill(0);
+    let iterations = 0;
+    while (iterations < maxIterations) {
+        await new Promise(resolve => setImmediate(resolve));
+        signal?.throwIfAborted();
+        iterations++;
+
+        let changed = 0;
+        for (let i = 0; i < vectors.length; i++) {
+            const { cluster, similarity } = nearestCentroid(centroids, vectors[i]);
+            if (assignments[i] !== cluster) changed++;
+            assignments[i] = cluster;
+            similarities[i] = similarity;
+        }
+        if (changed === 0) break;
+
+        const sums = centroids.map(centroid => new Float32Array(centroid.length));
+        const sizes = new Array<number>(centroids.length).fill(0);
+        for (let i = 0; i < vectors.length; i++) {
+            const sum = sums[assignments[i]];
+            for (let d = 0; d < sum.length; d++) {
+                sum[d] += vectors[i][d];
+            }
+            sizes[assignments[i]]++;
+        }
+
+        for (let c = 0; c < centroids.length; c++) {
+            if (sizes[c] > 0) {
+                centroids[c] = normalize(sums[c]);
+                continue;
+            }
+
+            let worst = 0;
+            for (let i = 1; i < vectors.length; i++) {
+                if (similarities[i] < similarities[worst]) worst = i;
+            }
+            centroids[c] = vectors[worst];
+            similarities[worst] = 1;
+        }
+    }
+
+    return { centroids, assignments, iterations };
+}
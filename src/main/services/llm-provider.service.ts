@@ -3,6 +3,7 @@ import fetch, { RequestInit } from 'node-fetch';
 import Logger from './logger';
 import { AnthropicAPI } from './anthropic-api';
 import { testOllamaConnection, checkOllamaModelExists } from './ollama-utils';
+import { createRequestSignal } from './request-signal';
 import {
     LLMProvider,
     CreateLLMProviderRequest,
@@ -753,9 +754,9 @@ export class LLMProviderService {
     }
 
     /**
-     * Generate a response using the LLM provider
+     * Generate a response using the LLM provider; aborting `signal` cancels the request
      */
-    async generateResponse(prompt: string, provider: LLMProvider): Promise<string> {
+    async generateResponse(prompt: string, provider: LLMProvider, signal?: AbortSignal): Promise<string> {
         try {
             let result: string;
 
@@ -790,33 +791,38 @@ export class LLMProviderService {
                 
                 this.logger.debug(`Using Ollama endpoint: ${normalizedEndpoint}, model: ${provider.config.model}`);
 
-                const response = await fetch(`${normalizedEndpoint}/api/generate`, {
-                    method: 'POST',
-                    headers: {
-                        'Content-Type': 'application/json',
-                    },
-                    body: JSON.stringify({
-                        model: provider.config.model,
-                        prompt: prompt
-                    }),
-                    signal: createTimeoutSignal(30000) // 30 second timeout for RAG
-                });
-                this.logger.debug(`Ollama response status: ${response.status}`);
-
-                if (!response.ok) {
-                    throw new Error(`HTTP error! status: ${response.status}`);
-                }
+                const request = createRequestSignal(30000, signal); // 30 second timeout for RAG
+                try {
+                    const response = await fetch(`${normalizedEndpoint}/api/generate`, {
+                        method: 'POST',
+                        headers: {
+                            'Content-Type': 'application/json',
+                        },
+                        body: JSON.stringify({
+                            model: provider.config.model,
+                            prompt: prompt
+                        }),
+                        signal: request.signal
+                    });
+                    this.logger.debug(`Ollama response status: ${response.status}`);
+
+                    if (!response.ok) {
+                        throw new Error(`HTTP error! status: ${response.status}`);
+                    }
 
-                const text = await response.text();
-                const lines = text.split('\n').filter(line => line.trim());
-                let finalResponse = '';
+                    const text = await response.text();
+                    const lines = text.split('\n').filter(line => line.trim());
+                    let finalResponse = '';
                 
-                for (const line of lines) {
-                    const data = JSON.parse(line);
-                    finalResponse += data.response;
-                }
+                    for (const line of lines) {
+                        const data = JSON.parse(line);
+                        finalResponse += data.response;
+                    }
                 
-                result = finalResponse || 'No response content';
+                    result = finalResponse || 'No response content';
+                } finally {
+                    request.dispose();
+                }
             } else if (provider.type === 'anthropic' && isAnthropicConfig(provider.config)) {
                 // Add debug logging to see what's happening with the API key
                 this.logger.debug(`Using Anthropic model: ${provider.config.model}`);
@@ -854,7 +860,8 @@ export class LLMProviderService {
                 result = await this.anthropicApi.generateResponse(
                     isAnthropicConfig(provider.config) ? provider.config.apiKey.trim() : '',
                     provider.config.model,
-                    prompt
+                    prompt,
+                    signal
                 );
             } else {
                 throw new Error(`Invalid provider configuration`);
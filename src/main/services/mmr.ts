@@ -0,0 +1,62 @@
+export interface MmrCandidate {
+    /** Similarity of the candidate to the query */
+    relevance: number;
+    /** Candidate vector, or null when it is not available */
+    vector: Float32Array | null;
+}
+
+export interface MmrSelection {
+    /** Position of the candidate in the input list */
+    index: number;
+    /** MMR score at the time the candidate was picked */
+    score: number;
+}
+
+export function cosine(a: Float32Array, b: Float32Array): number {
+    let dot = 0, normA = 0, normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Maximal marginal relevance: repeatedly pick the candidate that maximises
+ * lambda * relevance - (1 - lambda) * (highest similarity to anything already
+ * picked). lambda = 1 keeps the relevance order, lambda = 0 only maximises
+ * diversity. Candidates without a vector count as dissimilar to everything.
+ */
+export function maximalMarginalRelevance(candidates: MmrCandidate[], lambda: number, limit: number): MmrSelection[] {
+    const selected: MmrSelection[] = [];
+    const remaining = new Set(candidates.map((_, i) => i));
+    // Highest similarity of each candidate to the selected set so far
+    const redundancy = new Array<number>(candidates.length).fill(0);
+
+    while (selected.length < limit && remaining.size > 0) {
+        let best = -1;
+        let bestScore = -Infinity;
+        for (const i of remaining) {
+            const score = lambda * candidates[i].relevance - (1 - lambda) * redundancy[i];
+            if (score > bestScore) {
+                best = i;
+                bestScore = score;
+            }
+        }
+
+        selected.push({ index: best, score: bestScore });
+        remaining.delete(best);
+
+        const picked = candidates[best].vector;
+        if (!picked) continue;
+        for (const i of remaining) {
+            const vector = candidates[i].vector;
+            if (vector) {
+                redundancy[i] = Math.max(redundancy[i], cosine(picked, vector));
+            }
+        }
+    }
+
+    return selected;
+}
@@ -0,0 +1,62 @@
+import * as crypto from 'crypto';
+import { OperationInfo, OperationKind } from '../../shared/types/operation';
+
+// Message of the error a cancelled operation rejects with
+export const OPERATION_CANCELLED = 'Operation cancelled';
+
+interface RunningOperation extends OperationInfo {
+    controller: AbortController;
+}
+
+/**
+ * Running long operations by id. Each gets an AbortSignal that the work threads
+ * down to wherever it waits (the import loop, the embedders, provider HTTP
+ * calls), so `cancel` makes it stop at the next opportunity.
+ */
+export class OperationRegistry {
+    private static instance: OperationRegistry;
+    private operations = new Map<string, RunningOperation>();
+
+    static getInstance(): OperationRegistry {
+        if (!OperationRegistry.instance) {
+            OperationRegistry.instance = new OperationRegistry();
+        }
+        return OperationRegistry.instance;
+    }
+
+    /**
+     * Run work as an operation. The id is generated when the caller did not
+     * choose one, and is released when the work settles. Whatever the work fails
+     * with after a cancellation (fetch abort errors, provider errors wrapping
+     * them) becomes an OPERATION_CANCELLED error.
+     */
+    async run<T>(kind: OperationKind, id: string | undefined, work: (signal: AbortSignal, id: string) => Promise<T>): Promise<T> {
+        const operationId = id ?? crypto.randomUUID();
+        if (this.operations.has(operationId)) {
+            throw new Error(`Operation ${operationId} is already running`);
+        }
+
+        const controller = new AbortController();
+        this.operations.set(operationId, { id: operationId, kind, startedAt: Date.now(), controller });
+        try {
+            return await work(controller.signal, operationId);
+        } catch (error) {
+            throw controller.signal.aborted ? new Error(OPERATION_CANCELLED) : error;
+        } finally {
+            this.operations.delete(operationId);
+        }
+    }
+
+    /** Signal the operation to stop; false when no operation with the id is running */
+    cancel(id: string): boolean {
+        const operation = this.operations.get(id);
+        if (!operation) return false;
+
+        operation.controller.abort();
+        return true;
+    }
+
+    list(): OperationInfo[] {
+        return Array.from(this.operations.values()).map(({ id, kind, startedAt }) => ({ id, kind, startedAt }));
+    }
+}
@@ -0,0 +1,196 @@
+import { VectorStore, SearchOptions, SearchResult, DEFAULT_RERANK_TOP_N } from './vector-store';
+import { LLMProviderService } from './llm-provider.service';
+import Logger from './logger';
+import { fuseRankLists } from './rank-fusion';
+import { DEFAULT_COLLECTION_ID } from '../../shared/types/collection';
+import { RerankOptions, RetrievalStrategy, RetrievalTrace, describeProvenance } from '../../shared/types/api';
+import { LLMProvider } from '../../shared/types/llm-provider';
+
+// Paraphrases requested from the LLM for multi-query retrieval
+const PARAPHRASE_COUNT = 3;
+
+export interface RAGOptions {
+    collectionId?: number;
+    maxResults?: number;
+    minScore?: number;
+    /** Diversify the retrieved chunks with maximal marginal relevance */
+    mmrLambda?: number;
+    /** Rescore retrieved chunks with a cross-encoder */
+    rerank?: RerankOptions;
+    /** Give the model this many neighbouring chunks around each retrieved chunk */
+    contextWindow?: number;
+    retrieval?: RetrievalStrategy;
+    /** Cancels the searches and LLM requests of the question when aborted */
+    signal?: AbortSignal;
+}
+
+export interface RAGResult {
+    response: string;
+    prompt: string;
+    sources: SearchResult[];
+    retrieval: RetrievalTrace;
+}
+
+export class RAGService {
+    private vectorStore: VectorStore;
+    private llmProviderService: LLMProviderService;
+    private logger: Logger;
+
+    constructor(vectorStore: VectorStore, llmProviderService: LLMProviderService) {
+        this.vectorStore = vectorStore;
+        this.llmProviderService = llmProviderService;
+        this.logger = Logger.getInstance();
+    }
+
+    /**
+     * Answer a question using chunks retrieved from a collection as context
+     */
+    async askQuestion(query: string, providerId: number, options: RAGOptions = {}): Promise<RAGResult> {
+        const {
+            collectionId = DEFAULT_COLLECTION_ID,
+            maxResults = 5,
+            minScore = 0.3,
+            mmrLambda,
+            rerank,
+            contextWindow,
+            retrieval = 'single',
+            signal
+        } = options;
+
+        const provider = await this.llmProviderService.getProviderById(providerId);
+        if (!provider) {
+            throw new Error(`Provider with ID ${providerId} not found`);
+        }
+
+        const searchOptions: SearchOptions = {
+            limit: maxResults,
+            minScore,
+            mmrLambda,
+            rerank,
+            contextWindow,
+            signal
+        };
+
+        let sources: SearchResult[];
+        let queries: string[];
+        if (retrieval === 'multi-query') {
+            queries = [query, ...await this.generateParaphrases(query, provider, signal)];
+            // Rerank once after fusion, so passages are scored against the real question
+            const perQueryOptions: SearchOptions = {
+                ...searchOptions,
+                limit: rerank ? Math.max(maxResults, rerank.topN ?? DEFAULT_RERANK_TOP_N) : maxResults,
+                rerank: undefined
+            };
+            const rankings = await Promise.all(
+                queries.map(text => this.vectorStore.search(collectionId, text, perQueryOptions))
+            );
+            let fused = this.fuseRankings(rankings);
+            if (rerank) {
+                fused = await this.vectorStore.rerankResults(query, fused, rerank);
+                signal?.throwIfAborted();
+            }
+            sources = fused.slice(0, maxResults);
+        } else if (retrieval === 'hyde') {
+            const hypothetical = await this.generateHypotheticalAnswer(query, provider, signal);
+            queries = [hypothetical];
+            // The reranker still compares passages with the real question
+            sources = await this.vectorStore.search(collectionId, query, { ...searchOptions, embeddingText: hypothetical });
+        } else {
+            queries = [query];
+            sources = await this.vectorStore.search(collectionId, query, searchOptions);
+        }
+        this.logger.debug(`RAG retrieved ${sources.length} chunks from collection ${collectionId} using ${retrieval} retrieval`);
+
+        const prompt = this.buildPrompt(query, sources);
+        const response = await this.llmProviderService.generateResponse(prompt, provider, signal);
+
+        return { response, prompt, sources, retrieval: { strategy: retrieval, queries } };
+    }
+
+    /**
+     * Ask the LLM for differently worded versions of the question. Falls back
+     * to no paraphrases, i.e. a plain search, when the reply has none.
+     */
+    private async generateParaphrases(query: string, provider: LLMProvider, signal?: AbortSignal): Promise<string[]> {
+        const reply = await this.llmProviderService.generateResponse([
+            `Write ${PARAPHRASE_COUNT} different search queries that would find documents answering the question below.`,
+            'Vary the wording and use synonyms. Put each query on its own line with no numbering or other text.',
+            '',
+            `Question: ${query}`
+        ].join('\n'), provider, signal);
+
+        const seen = new Set([query.trim().toLowerCase()]);
+        const paraphrases: string[] = [];
+        for (const line of reply.split('\n')) {
+            const paraphrase = line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').replace(/^["']|["']$/g, '').trim();
+            if (!paraphrase || seen.has(paraphrase.toLowerCase())) continue;
+            seen.add(paraphrase.toLowerCase());
+            paraphrases.push(paraphrase);
+            if (paraphrases.length === PARAPHRASE_COUNT) break;
+        }
+
+        this.logger.debug(`RAG multi-query paraphrases: ${JSON.stringify(paraphrases)}`);
+        return paraphrases;
+    }
+
+    /**
+     * Ask the LLM for a plausible answer passage. It may be wrong; only its
+     * embedding is used, to find real passages that read like an answer.
+     */
+    private async generateHypotheticalAnswer(query: string, provider: LLMProvider, signal?: AbortSignal): Promise<string> {
+        const reply = await this.llmProviderService.generateResponse([
+            'Write a short passage, as it might appear in a document, that answers the question below.',
+            'Do not mention that the passage is hypothetical.',
+            '',
+            `Question: ${query}`
+        ].join('\n'), provider, signal);
+
+        return reply.trim() || query;
+    }
+
+    /**
+     * Merge the result lists of several queries with reciprocal rank fusion.
+     * The same chunk found by several queries keeps its highest confidence.
+     */
+    private fuseRankings(rankings: SearchResult[][]): SearchResult[] {
+        const best = new Map<number, SearchResult>();
+        for (const result of rankings.flat()) {
+            const current = best.get(result.id);
+            if (!current || result.confidence > current.confidence) {
+                best.set(result.id, result);
+            }
+        }
+
+        return fuseRankLists(rankings.map(ranking => ranking.map(result => result.id)))
+            .map(candidate => best.get(candidate.id)!);
+    }
+
+    private buildPrompt(query: string, sources: SearchResult[]): string {
+        if (sources.length === 0) {
+            return [
+                'No relevant context was found in the knowledge base.',
+                'Answer the question as well as you can and say that no supporting documents were found.',
+                '',
+                `Question: ${query}`
+            ].join('\n');
+        }
+
+        const context = sources
+            .map((source, i) => {
+                const position = describeProvenance(source.passage?.provenance ?? source.provenance);
+                return `[${i + 1}] ${source.location}${position ? `, ${position}` : ''}` +
+                    `${source.context ? ` (${source.context})` : ''}\n${source.passage?.content ?? source.content}`;
+            })
+            .join('\n\n');
+
+        return [
+            'Use the following context to answer the question. Cite sources by their number in square brackets.',
+            'If the context does not contain the answer, say so.',
+            '',
+            'Context:',
+            context,
+            '',
+            `Question: ${query}`
+        ].join('\n');
+    }
+}
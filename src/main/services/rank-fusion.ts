@@ -0,0 +1,62 @@
+import { SearchResult } from '../../shared/types/api';
+
+export interface RankedCandidate {
+    id: number;
+    score: number;
+}
+
+export interface FusedCandidate {
+    id: number;
+    scores: NonNullable<SearchResult['scores']>;
+}
+
+// Damping constant from the original reciprocal rank fusion paper
+export const RRF_K = 60;
+
+/**
+ * Weighted reciprocal rank fusion of a vector and a keyword ranking:
+ * score(d) = sum over lists of weight / (RRF_K + rank of d in that list).
+ * Each fused candidate keeps its score from the lists it appeared in; the
+ * best `limit` are returned, highest fused score first.
+ */
+export function fuseRankings(
+    vectorHits: RankedCandidate[],
+    keywordHits: RankedCandidate[],
+    weights: { vector: number; keyword: number },
+    limit: number
+): FusedCandidate[] {
+    const fused = new Map<number, NonNullable<SearchResult['scores']>>();
+    const accumulate = (hits: RankedCandidate[], weight: number, key: 'vector' | 'keyword') => {
+        hits.forEach((hit, rank) => {
+            const entry = fused.get(hit.id) || { fused: 0 };
+            entry[key] = hit.score;
+            entry.fused = (entry.fused || 0) + weight / (RRF_K + rank + 1);
+            fused.set(hit.id, entry);
+        });
+    };
+    accumulate(vectorHits, weights.vector, 'vector');
+    accumulate(keywordHits, weights.keyword, 'keyword');
+
+    return Array.from(fused.entries())
+        .sort((a, b) => (b[1].fused || 0) - (a[1].fused || 0))
+        .slice(0, limit)
+        .map(([id, scores]) => ({ id, scores }));
+}
+
+/**
+ * Unweighted reciprocal rank fusion of any number of rankings, each a list of
+ * ids best first. Every id is returned once with its fused score, highest
+ * first; ties keep the order in which the ids were first seen.
+ */
+export function fuseRankLists(rankings: number[][]): RankedCandidate[] {
+    const fused = new Map<number, number>();
+    for (const ranking of rankings) {
+        ranking.forEach((id, rank) => {
+            fused.set(id, (fused.get(id) ?? 0) + 1 / (RRF_K + rank + 1));
+        });
+    }
+
+    return Array.from(fused.entries())
+        .map(([id, score]) => ({ id, score }))
+        .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,33 @@
+import { RequestInit } from 'node-fetch';
+
+export interface RequestSignal {
+    signal: RequestInit['signal'];
+    /** Clears the timeout and detaches from the cancel signal; call once the request has settled */
+    dispose(): void;
+}
+
+/**
+ * Abort signal for one HTTP request. It fires after timeoutMs, or as soon as
+ * the operation the request belongs to is cancelled through cancelSignal.
+ * Cancel signals outlive their requests, so dispose() must run in a finally
+ * block to remove the listener added to them.
+ */
+export function createRequestSignal(timeoutMs: number, cancelSignal?: AbortSignal): RequestSignal {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    const timeoutId = setTimeout(abort, timeoutMs);
+
+    if (cancelSignal?.aborted) {
+        abort();
+    } else {
+        cancelSignal?.addEventListener('abort', abort, { once: true });
+    }
+
+    return {
+        signal: controller.signal as RequestInit['signal'],
+        dispose: () => {
+            clearTimeout(timeoutId);
+            cancelSignal?.removeEventListener('abort', abort);
+        }
+    };
+}
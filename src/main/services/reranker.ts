@@ -0,0 +1,74 @@
+// Cross-encoder used when a search does not name one
+export const DEFAULT_RERANKER_MODEL = 'Xenova/ms-marco-MiniLM-L-6-v2';
+
+// Query/passage pairs scored per forward pass
+const RERANK_BATCH_SIZE = 16;
+
+interface CrossEncoder {
+    tokenizer: any;
+    model: any;
+}
+
+// Models are expensive to load, so share them between searches
+const crossEncoders = new Map<string, Promise<CrossEncoder>>();
+
+function sigmoid(x: number): number {
+    return 1 / (1 + Math.exp(-x));
+}
+
+/**
+ * Scores query/passage pairs with a local cross-encoder through the same
+ * @xenova/transformers runtime as the Xenova embedder. Unlike the bi-encoder,
+ * the model reads query and passage together, which ranks much better but is
+ * too slow for anything but a short candidate list.
+ */
+export class CrossEncoderReranker {
+    readonly model: string;
+
+    constructor(model: string = DEFAULT_RERANKER_MODEL) {
+        this.model = model;
+    }
+
+    private load(): Promise<CrossEncoder> {
+        let encoder = crossEncoders.get(this.model);
+        if (!encoder) {
+            encoder = import('@xenova/transformers').then(async transformers => ({
+                tokenizer: await transformers.AutoTokenizer.from_pretrained(this.model),
+                model: await transformers.AutoModelForSequenceClassification.from_pretrained(this.model)
+            }));
+            // Allow a retry if loading the model fails
+            encoder.catch(() => crossEncoders.delete(this.model));
+            crossEncoders.set(this.model, encoder);
+        }
+        return encoder;
+    }
+
+    /**
+     * Relevance of each passage to the query between 0 and 1, in input order.
+     */
+    async score(query: string, passages: string[]): Promise<number[]> {
+        if (passages.length === 0) return [];
+
+        const { tokenizer, model } = await this.load();
+        const scores: number[] = [];
+        for (let start = 0; start < passages.length; start += RERANK_BATCH_SIZE) {
+            const batch = passages.slice(start, start + RERANK_BATCH_SIZE);
+            const inputs = tokenizer(new Array(batch.length).fill(query), {
+                text_pair: batch,
+                padding: true,
+                truncation: true
+            });
+            const { logits } = await model(inputs);
+
+            // ms-marco models have one relevance logit per pair; for two-class
+            // models the last logit is the "relevant" class
+            const values = Array.from(logits.data as Float32Array);
+            const perPair = values.length / batch.length;
+            for (let i = 0; i < batch.length; i++) {
+                scores.push(sigmoid(values[(i + 1) * perPair - 1]));
+            }
+        }
+
+        return scores;
+    }
+}
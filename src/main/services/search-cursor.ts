@@ -0,0 +1,155 @@
+import { decodeEmbedding, encodeEmbedding } from './embedding-codec';
+import { RerankOptions, SEARCH_MODES, SearchFilters, SearchMode, SearchWeights } from '../../shared/types/api';
+
+/**
+ * Everything needed to continue a search where the previous page ended,
+ * without embedding the query again.
+ */
+export interface SearchCursor {
+    collectionId: number;
+    query: string;
+    /** Embedding model the query vector came from; the cursor expires when it changes */
+    modelId?: string;
+    /** Query vector, absent for keyword searches */
+    queryVector?: Float32Array;
+    /** Rank position of the first result of the next page */
+    offset: number;
+    limit: number;
+    minScore: number;
+    mode: SearchMode;
+    weights: SearchWeights;
+    filters: SearchFilters;
+    ef?: number;
+    mmrLambda?: number;
+    rerank?: RerankOptions;
+    exact: boolean;
+    contextWindow: number;
+    highlight: boolean;
+    semanticHighlight: boolean;
+}
+
+// Bumped when the cursor layout changes, so old cursors are rejected instead of misread
+const CURSOR_VERSION = 2;
+
+type Check = (value: unknown) => boolean;
+
+const isString: Check = value => typeof value === 'string';
+const isBoolean: Check = value => typeof value === 'boolean';
+const isFiniteNumber: Check = value => typeof value === 'number' && Number.isFinite(value);
+const isInteger = (min: number): Check => value => Number.isInteger(value) && (value as number) >= min;
+const optional = (check: Check): Check => value => value === undefined || check(value);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function matches(value: unknown, shape: Record<string, Check>): value is Record<string, unknown> {
+    return isRecord(value) && Object.entries(shape).every(([key, check]) => check(value[key]));
+}
+
+const WEIGHTS_SHAPE: Record<string, Check> = {
+    vector: optional(value => isFiniteNumber(value) && (value as number) >= 0),
+    keyword: optional(value => isFiniteNumber(value) && (value as number) >= 0)
+};
+
+const FILTERS_SHAPE: Record<string, Check> = {
+    fileTypes: optional(value => Array.isArray(value) && value.every(isString)),
+    sourceGlob: optional(isString),
+    category: optional(isString),
+    titleContains: optional(isString),
+    importedAfter: optional(isString),
+    importedBefore: optional(isString),
+    topicId: optional(isInteger(1))
+};
+
+const RERANK_SHAPE: Record<string, Check> = {
+    topN: optional(isInteger(1)),
+    model: optional(isString)
+};
+
+// Every field is checked, since a cursor comes back from the renderer and may have been altered
+const CURSOR_SHAPE: Record<string, Check> = {
+    v: value => value === CURSOR_VERSION,
+    collectionId: isInteger(1),
+    query: isString,
+    modelId: optional(isString),
+    queryVector: optional(isString),
+    offset: isInteger(0),
+    limit: isInteger(1),
+    minScore: isFiniteNumber,
+    mode: value => SEARCH_MODES.includes(value as SearchMode),
+    weights: value => matches(value, WEIGHTS_SHAPE),
+    filters: value => matches(value, FILTERS_SHAPE),
+    ef: optional(isInteger(1)),
+    mmrLambda: optional(value => isFiniteNumber(value) && (value as number) >= 0 && (value as number) <= 1),
+    rerank: optional(value => matches(value, RERANK_SHAPE)),
+    exact: isBoolean,
+    contextWindow: isInteger(0),
+    highlight: isBoolean,
+    semanticHighlight: isBoolean
+};
+
+function pick<T>(value: Record<string, unknown>, shape: Record<string, Check>): T {
+    const picked: Record<string, unknown> = {};
+    for (const key of Object.keys(shape)) {
+        if (value[key] !== undefined) {
+            picked[key] = value[key];
+        }
+    }
+    return picked as T;
+}
+
+export function encodeSearchCursor(cursor: SearchCursor): string {
+    const { queryVector, ...rest } = cursor;
+    const payload = {
+        v: CURSOR_VERSION,
+        ...rest,
+        queryVector: queryVector ? encodeEmbedding(queryVector, 'float32').blob.toString('base64') : undefined
+    };
+    return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Parse a cursor returned by encodeSearchCursor. Anything that is not exactly
+ * such a cursor, including one with an out-of-range option, is rejected.
+ */
+export function decodeSearchCursor(token: string): SearchCursor {
+    let payload: unknown;
+    try {
+        payload = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    } catch {
+        throw new Error('Invalid search cursor');
+    }
+    if (!matches(payload, CURSOR_SHAPE)) {
+        throw new Error('Invalid search cursor');
+    }
+
+    let queryVector: Float32Array | undefined;
+    if (typeof payload.queryVector === 'string') {
+        const blob = Buffer.from(payload.queryVector, 'base64');
+        if (blob.length === 0 || blob.length % 4 !== 0) {
+            throw new Error('Invalid search cursor');
+        }
+        queryVector = decodeEmbedding(blob, 'float32', null);
+    }
+
+    return {
+        collectionId: payload.collectionId as number,
+        query: payload.query as string,
+        modelId: payload.modelId as string | undefined,
+        queryVector,
+        offset: payload.offset as number,
+        limit: payload.limit as number,
+        minScore: payload.minScore as number,
+        mode: payload.mode as SearchMode,
+        weights: pick<SearchWeights>(payload.weights as Record<string, unknown>, WEIGHTS_SHAPE),
+        filters: pick<SearchFilters>(payload.filters as Record<string, unknown>, FILTERS_SHAPE),
+        ef: payload.ef as number | undefined,
+        mmrLambda: payload.mmrLambda as number | undefined,
+        rerank: payload.rerank ? pick<RerankOptions>(payload.rerank as Record<string, unknown>, RERANK_SHAPE) : undefined,
+        exact: payload.exact as boolean,
+        contextWindow: payload.contextWindow as number,
+        highlight: payload.highlight as boolean,
+        semanticHighlight: payload.semanticHighlight as boolean
+    };
+}
@@ -1,5 +1,6 @@
 import { DatabaseManager } from './database';
 import Logger from './logger';
+import { CollectionStatistics } from '../../shared/types/collection';
 
 export interface Statistics {
     totalDocuments: number;
@@ -9,6 +10,8 @@ export interface Statistics {
     totalSearches: number;
     totalRagQueries: number;
     lastRagQuery: string | null;
+    embeddingCacheHits: number;
+    embeddingCacheMisses: number;
 }
 
 type StatisticsUpdateListener = (stats: Statistics) => void;
@@ -31,7 +34,9 @@ export class StatisticsService {
                        last_search as lastSearch,
                        total_searches as totalSearches,
                        total_rag_queries as totalRagQueries,
-                       last_rag_query as lastRagQuery
+                       last_rag_query as lastRagQuery,
+                       embedding_cache_hits as embeddingCacheHits,
+                       embedding_cache_misses as embeddingCacheMisses
                 FROM statistics
                 WHERE id = 1
             `);
@@ -44,7 +49,9 @@ export class StatisticsService {
                 lastSearch: null,
                 totalSearches: 0,
                 totalRagQueries: 0,
-                lastRagQuery: null
+                lastRagQuery: null,
+                embeddingCacheHits: 0,
+                embeddingCacheMisses: 0
             };
         } catch (error) {
             this.logger.error('Error getting statistics:', error as Error);
@@ -55,11 +62,37 @@ export class StatisticsService {
                 lastSearch: null,
                 totalSearches: 0,
                 totalRagQueries: 0,
-                lastRagQuery: null
+                lastRagQuery: null,
+                embeddingCacheHits: 0,
+                embeddingCacheMisses: 0
             };
         }
     }
 
+    async getCollectionStatistics(collectionId: number): Promise<CollectionStatistics> {
+        try {
+            const row = this.db.prepare(`
+                SELECT COUNT(DISTINCT d.source) as totalDocuments,
+                       COUNT(d.id) as totalChunks,
+                       c.last_import as lastImport
+                FROM collections c
+                LEFT JOIN documents d ON d.collection_id = c.id
+                WHERE c.id = ?
+                GROUP BY c.id
+            `).get(collectionId) as Omit<CollectionStatistics, 'collectionId'> | undefined;
+
+            return {
+                collectionId,
+                totalDocuments: row?.totalDocuments ?? 0,
+                totalChunks: row?.totalChunks ?? 0,
+                lastImport: row?.lastImport ?? null
+            };
+        } catch (error) {
+            this.logger.error(`Error getting statistics for collection ${collectionId}:`, error as Error);
+            return { collectionId, totalDocuments: 0, totalChunks: 0, lastImport: null };
+        }
+    }
+
     async updateAfterImport(documentsAdded: number, chunksAdded: number): Promise<void> {
         try {
             const stmt = this.db.prepare(`
@@ -137,6 +170,49 @@ export class StatisticsService {
         }
     }
 
+    async syncDocumentCounts(): Promise<void> {
+        try {
+            const stmt = this.db.prepare(`
+                UPDATE statistics
+                SET total_documents = (SELECT COUNT(DISTINCT collection_id || ':' || source) FROM documents),
+                    total_chunks = (SELECT COUNT(*) FROM documents)
+                WHERE id = 1
+            `);
+
+            stmt.run();
+            this.logger.info('Document counts synchronized with document table');
+
+            // Notify listeners
+            await this.notifyListeners();
+        } catch (error) {
+            this.logger.error('Error synchronizing document counts:', error as Error);
+        }
+    }
+
+    /**
+     * Compare the recorded document totals with the documents table
+     */
+    async getDocumentCountDrift(): Promise<{
+        recordedDocuments: number;
+        recordedChunks: number;
+        actualDocuments: number;
+        actualChunks: number;
+    }> {
+        const recorded = await this.getStatistics();
+        const actual = this.db.prepare(`
+            SELECT COUNT(DISTINCT collection_id || ':' || source) as documents,
+                   COUNT(*) as chunks
+            FROM documents
+        `).get() as { documents: number; chunks: number };
+
+        return {
+            recordedDocuments: recorded.totalDocuments,
+            recordedChunks: recorded.totalChunks,
+            actualDocuments: actual.documents,
+            actualChunks: actual.chunks
+        };
+    }
+
     onUpdate(listener: StatisticsUpdateListener): () => void {
         this.listeners.push(listener);
         return () => {
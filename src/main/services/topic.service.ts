@@ -0,0 +1,183 @@
+import { VectorStore } from './vector-store';
+import { LLMProviderService } from './llm-provider.service';
+import { DatabaseManager, DocumentRecord, TopicRecord } from './database';
+import { nearestCentroid, normalize, sphericalKMeans } from './kmeans';
+import Logger from './logger';
+import { LLMProvider } from '../../shared/types/llm-provider';
+import { Topic, TopicChunk, TopicClusterResult } from '../../shared/types/topic';
+
+// Chunks the centres are fitted on; every chunk is then assigned to the nearest centre
+const CLUSTER_SAMPLE_SIZE = 4000;
+
+// Upper bound on the number of topics, for the label requests and the browse list
+const MAX_TOPIC_COUNT = 30;
+
+// Chunk vectors loaded at once while assigning topics
+const ASSIGN_BATCH_SIZE = 500;
+
+// Chunks nearest each centre that the LLM labels the topic from
+const REPRESENTATIVES_PER_TOPIC = 5;
+
+// Characters of each representative chunk included in the label prompt
+const REPRESENTATIVE_EXCERPT_LENGTH = 600;
+
+const MAX_LABEL_LENGTH = 60;
+
+export interface TopicClusterOptions {
+    topicCount?: number;
+    /** Cancels the clustering and the label requests when aborted */
+    signal?: AbortSignal;
+}
+
+interface Cluster {
+    chunkIds: number[];
+    /** Nearest chunks to the centre, most similar first */
+    representatives: Array<{ id: number; similarity: number }>;
+}
+
+export class TopicService {
+    private vectorStore: VectorStore;
+    private llmProviderService: LLMProviderService;
+    private db: DatabaseManager;
+    private logger: Logger;
+
+    constructor(vectorStore: VectorStore, llmProviderService: LLMProviderService) {
+        this.vectorStore = vectorStore;
+        this.llmProviderService = llmProviderService;
+        this.db = DatabaseManager.getInstance();
+        this.logger = Logger.getInstance();
+    }
+
+    /**
+     * Cluster a collection's chunks into topics and label each with the LLM,
+     * replacing the topics of the previous run. Nothing is stored until every
+     * topic has its label, so a cancelled or failed run keeps the old topics.
+     */
+    async clusterCollection(collectionId: number, providerId: number, options: TopicClusterOptions = {}): Promise<TopicClusterResult> {
+        const { signal } = options;
+        const provider = await this.llmProviderService.getProviderById(providerId);
+        if (!provider) {
+            throw new Error(`Provider with ID ${providerId} not found`);
+        }
+
+        const ids = this.db.getCollectionDocumentIds(collectionId);
+        if (ids.length < 2) {
+            throw new Error('The collection needs at least two chunks to find topics');
+        }
+        const topicCount = options.topicCount ?? Math.max(2, Math.round(Math.sqrt(ids.length / 2)));
+        if (!Number.isInteger(topicCount) || topicCount < 2) {
+            throw new Error('topicCount must be an integer of at least 2');
+        }
+
+        // Evenly spaced over the id order, so the sample spans the whole import history
+        const stride = Math.max(1, Math.floor(ids.length / CLUSTER_SAMPLE_SIZE));
+        const sample = await this.vectorStore.getChunkVectors(collectionId, ids.filter((_, i) => i % stride === 0));
+        if (sample.size < 2) {
+            throw new Error('The collection has no stored vectors; repair or re-embed it first');
+        }
+
+        const { centroids, iterations } = await sphericalKMeans(
+            Array.from(sample.values(), normalize),
+            Math.min(topicCount, MAX_TOPIC_COUNT),
+            { signal }
+        );
+        this.logger.info(`Fitted ${centroids.length} topic centres for collection ${collectionId} in ${iterations} iterations`);
+
+        const clusters: Cluster[] = centroids.map(() => ({ chunkIds: [], representatives: [] }));
+        let chunksAssigned = 0;
+        for (let start = 0; start < ids.length; start += ASSIGN_BATCH_SIZE) {
+            signal?.throwIfAborted();
+            const vectors = await this.vectorStore.getChunkVectors(collectionId, ids.slice(start, start + ASSIGN_BATCH_SIZE));
+            for (const [id, vector] of vectors) {
+                const { cluster, similarity } = nearestCentroid(centroids, normalize(vector));
+                clusters[cluster].chunkIds.push(id);
+                this.keepRepresentative(clusters[cluster], id, similarity);
+                chunksAssigned++;
+            }
+        }
+
+        const topics = clusters.filter(cluster => cluster.chunkIds.length > 0);
+        const labels: string[] = [];
+        for (const [i, cluster] of topics.entries()) {
+            labels.push(await this.labelTopic(cluster, provider, signal) || `Topic ${i + 1}`);
+        }
+        signal?.throwIfAborted();
+
+        this.db.replaceTopics(collectionId, topics.map((cluster, i) => ({
+            label: labels[i],
+            representativeIds: cluster.representatives.map(representative => representative.id),
+            chunkIds: cluster.chunkIds
+        })));
+        this.logger.info(`Stored ${topics.length} topics for collection ${collectionId}: ${JSON.stringify(labels)}`);
+
+        return {
+            topics: this.listTopics(collectionId),
+            chunksAssigned,
+            chunksWithoutVector: ids.length - chunksAssigned
+        };
+    }
+
+    listTopics(collectionId: number): Topic[] {
+        return this.db.getTopics(collectionId).map(record => this.toTopic(record));
+    }
+
+    countUnassignedChunks(collectionId: number): number {
+        return this.db.countUnassignedChunks(collectionId);
+    }
+
+    getTopicChunks(topicId: number, limit: number = 50, offset: number = 0): TopicChunk[] {
+        return this.db.getTopicChunks(topicId, limit, offset).map(doc => ({
+            id: doc.id,
+            source: doc.source,
+            title: doc.title ?? undefined,
+            content: doc.content,
+            chunkIndex: doc.chunk_index ?? undefined
+        }));
+    }
+
+    private keepRepresentative(cluster: Cluster, id: number, similarity: number): void {
+        const { representatives } = cluster;
+        if (representatives.length === REPRESENTATIVES_PER_TOPIC && similarity <= representatives[representatives.length - 1].similarity) {
+            return;
+        }
+
+        const position = representatives.findIndex(representative => representative.similarity < similarity);
+        representatives.splice(position < 0 ? representatives.length : position, 0, { id, similarity });
+        if (representatives.length > REPRESENTATIVES_PER_TOPIC) representatives.pop();
+    }
+
+    /**
+     * Ask the LLM for a short name of what the representative chunks have in
+     * common. Returns an empty string when the reply has no usable line.
+     */
+    private async labelTopic(cluster: Cluster, provider: LLMProvider, signal?: AbortSignal): Promise<string> {
+        const excerpts = cluster.representatives
+            .map(representative => this.db.getDocument(representative.id))
+            .filter((doc): doc is DocumentRecord => doc !== undefined)
+            .map((doc, i) => `Excerpt ${i + 1}:\n${doc.content.slice(0, REPRESENTATIVE_EXCERPT_LENGTH)}`);
+
+        const reply = await this.llmProviderService.generateResponse([
+            'The excerpts below come from documents about the same topic.',
+            'Name the topic in 2 to 5 words. Reply with the name only, without quotes or other text.',
+            ...excerpts
+        ].join('\n\n'), provider, signal);
+
+        const line = reply.split('\n').map(text => text.trim()).find(Boolean) ?? '';
+        const label = line
+            .replace(/^(?:topic|label|name)\s*:\s*/i, '')
+            .replace(/^["'*]+|["'*.]+$/g, '')
+            .trim();
+        return label.slice(0, MAX_LABEL_LENGTH);
+    }
+
+    private toTopic(record: TopicRecord): Topic {
+        return {
+            id: record.id,
+            collectionId: record.collection_id,
+            label: record.label,
+            chunkCount: record.chunk_count,
+            representativeIds: record.representative_ids ? JSON.parse(record.representative_ids) : [],
+            createdAt: record.created_at
+        };
+    }
+}
@@ -1,26 +1,194 @@
 import { HierarchicalNSW } from 'hnswlib-node';
-import { DatabaseManager } from './database';
+import { DatabaseManager, DocumentRecord, NewDocument, SourceFileRecord } from './database';
+import { CollectionService } from './collection.service';
+import { EmbeddingProviderService } from './embedding-provider.service';
+import { Embedder } from './embedders';
+import { IndexStorage } from './index-storage';
+import { decodeEmbedding, encodeEmbedding } from './embedding-codec';
+import { EmbeddingPipeline } from './embedding-pipeline';
+import { EmbeddingCache } from './embedding-cache';
+import { cosine, maximalMarginalRelevance } from './mmr';
+import { CrossEncoderReranker } from './reranker';
+import { locateChunks } from './chunk-provenance';
+import { DisjointSet, groupDuplicateFiles } from './duplicate-groups';
+import { keywordSpans, queryTerms, splitSentences } from './highlight';
+import { decodeSearchCursor, encodeSearchCursor } from './search-cursor';
+import { RankedCandidate, fuseRankings } from './rank-fusion';
 import { ProcessorRegistry } from './processors/processor-registry';
 import * as path from 'path';
 import { app } from 'electron';
 import * as crypto from 'crypto';
 import * as fs from 'fs';
-import { StatisticsService } from './statistics.service';
+import {
+    ChunkProvenance,
+    EmbeddingPipelineOptions,
+    ExpandedPassage,
+    HighlightSpan,
+    ImportProgress,
+    RerankOptions,
+    SearchFilters,
+    SearchMode,
+    SearchWeights,
+    SimilarSearchOptions,
+    SimilarSearchTarget,
+    SyncSummary
+} from '../../shared/types/api';
+import { Collection, CollectionResponse, HnswParameters, ReembedProgress } from '../../shared/types/collection';
+import {
+    CompactionResult,
+    DocumentDeleteResult,
+    DocumentReimportResult,
+    DuplicateGroup,
+    DuplicateReport,
+    DuplicateResolution,
+    DuplicateResolutionResult,
+    DuplicateScanOptions
+} from '../../shared/types/document';
+import { ImportCancelBehaviour } from '../../shared/types/operation';
+import {
+    EmbeddingCacheStats,
+    RebuildIndexResult,
+    RecallOptions,
+    RecallReport,
+    RepairResult,
+    VerifyIssue,
+    VerifyReport
+} from '../../shared/types/vector-store';
 
 export interface SearchOptions {
     limit?: number;
     minScore?: number;
     includeVectors?: boolean;
+    mode?: SearchMode;
+    weights?: SearchWeights;
+    filters?: SearchFilters;
+    ef?: number;
+    /** Re-rank with maximal marginal relevance using this lambda (0-1); off when unset */
+    mmrLambda?: number;
+    rerank?: RerankOptions;
+    /** Scan every vector instead of searching the HNSW graph */
+    exact?: boolean;
+    /** Also return this many chunks before and after each hit, merged into a passage */
+    contextWindow?: number;
+    /** Attach keyword highlight spans to each result */
+    highlight?: boolean;
+    /** With highlight, also mark the sentences closest in meaning to the query; embeds sentences */
+    semanticHighlight?: boolean;
+    /** Embed this text for the vector search instead of the query, e.g. a hypothetical answer */
+    embeddingText?: string;
+    /** Continue a previous search from the cursor it returned; other options are then ignored */
+    cursor?: string;
+    signal?: AbortSignal;
+}
+
+export interface SearchPage {
+    results: SearchResult[];
+    /** Pass as `cursor` to fetch the next page; absent on the last page */
+    nextCursor?: string;
 }
 
 export interface SearchResult {
+    id: number;
     content: string;
     confidence: number;
+    rerankScore?: number;
     fileType: string;
     location: string;
     context: string;
+    provenance?: ChunkProvenance;
+    passage?: ExpandedPassage;
+    highlights?: HighlightSpan[];
+    alsoIn?: string[];
+    scores?: {
+        vector?: number;
+        keyword?: number;
+        fused?: number;
+        mmr?: number;
+    };
+}
+
+interface CollectionInspection {
+    index: HierarchicalNSW;
+    documentIds: Set<number>;
+    liveLabels: Set<number>;
+    deletedLabelCount: number;
+    orphanedLabels: number[];
+    documentsWithoutVector: number[];
+    duplicateLabels: number[];
+    storedVectorMismatches: number[];
+    collectionDimension?: number;
+    providerDimension?: number;
+}
+
+// Ids listed per issue in a verify report
+const VERIFY_SAMPLE_SIZE = 20;
+
+interface ScoredDocument {
+    doc: DocumentRecord;
+    similarity: number;
+    scores: NonNullable<SearchResult['scores']>;
+    rerankScore?: number;
+    passage?: ExpandedPassage;
+    highlights?: HighlightSpan[];
+}
+
+interface ImportedFile {
+    filePath: string;
+    documentIds: number[];
+    /** Previous chunks of a changed file, removed once the import is through */
+    replacedIds: number[];
+    previousRecord: SourceFileRecord | null;
+}
+
+interface IndexPoint {
+    label: number;
+    vector: Float32Array;
+    norm: number;
 }
 
+// Candidates fetched per requested result when MMR re-ranks them
+const MMR_CANDIDATE_FACTOR = 4;
+
+// Candidates rescored by the cross-encoder unless the search asks otherwise
+export const DEFAULT_RERANK_TOP_N = 20;
+
+// Shortest shared text between neighbouring chunks that is treated as their overlap
+const MIN_CHUNK_OVERLAP = 20;
+
+// Recent query vectors kept in memory, outside the persistent embedding cache
+const QUERY_VECTOR_CACHE_SIZE = 100;
+
+// Sentences per page of results compared with the query for semantic highlights
+const MAX_HIGHLIGHT_SENTENCES = 40;
+
+// Best-matching sentences highlighted per result
+const SEMANTIC_HIGHLIGHTS_PER_RESULT = 2;
+
+// Cosine similarity from which two chunks count as near-duplicates unless the scan asks otherwise
+const DEFAULT_DUPLICATE_THRESHOLD = 0.95;
+
+// Nearest neighbours of each chunk checked for near-duplicates
+const DUPLICATE_NEIGHBOURS = 10;
+
+// Chunks scanned for duplicates between yields to the event loop
+const DUPLICATE_SCAN_BATCH = 200;
+
+// Characters of each chunk shown in a duplicate report
+const DUPLICATE_PREVIEW_LENGTH = 200;
+
+// Formats whose chunks are verbatim slices of the file, so they can be located in it
+const PLAIN_TEXT_EXTENSIONS = new Set(['.txt', '.md', '.clw', '.inc']);
+
+// Share of deleted points in an index above which it is rebuilt without them
+const COMPACTION_THRESHOLD = 0.2;
+
+// Files imported between intermediate index saves during a large import
+const CHECKPOINT_INTERVAL = 10;
+
+// Capacity of a new index; it grows by INDEX_GROWTH_FACTOR whenever it fills up
+const INITIAL_INDEX_CAPACITY = 1000;
+const INDEX_GROWTH_FACTOR = 2;
+
 export interface ImportStats {
     success: boolean;
     filesProcessed: number;
@@ -30,6 +198,10 @@ export interface ImportStats {
         error: string;
         retryable: boolean;
     }>;
+    /** The import was cancelled before it got through every file */
+    cancelled?: boolean;
+    /** Files whose chunks are not in the collection because of the cancellation */
+    pendingFiles?: string[];
 }
 
 export interface ImportOptions {
@@ -37,22 +209,46 @@ export interface ImportOptions {
     overlapSize?: number;
     skipDuplicates?: boolean;
     forceUpdate?: boolean;
+    isDirectory?: boolean;
+    embedding?: EmbeddingPipelineOptions;
+    /** Stops the import after the current embedding window when aborted */
+    signal?: AbortSignal;
+    /** What to do with the files already imported when cancelled; defaults to keeping them */
+    onCancel?: ImportCancelBehaviour;
+}
+
+export type ImportProgressCallback = (progress: ImportProgress) => void;
+
+export type ReembedProgressCallback = (progress: ReembedProgress) => void;
+
+export interface ReembedStats {
+    success: boolean;
+    vectorCount: number;
+    dimension: number;
 }
 
 export class VectorStore {
     private static instance: VectorStore;
-    private index!: HierarchicalNSW;
+    private indexes = new Map<number, HierarchicalNSW>();
     private db: DatabaseManager;
-    private statisticsService: StatisticsService;
+    private collectionService: CollectionService;
+    private embeddingProviderService: EmbeddingProviderService;
     private processorRegistry: ProcessorRegistry;
-    private embedder: any;
+    private storage: IndexStorage;
+    private embeddingCache: EmbeddingCache;
     private initialized: boolean = false;
-    private readonly dimension = 384; // Default for all-MiniLM-L6-v2
+    private reembedding = new Set<number>();
+    // Imports, syncs and re-embeds running per collection
+    private activeJobs = new Map<number, number>();
+    private queryVectors = new Map<string, Float32Array>();
 
     private constructor() {
         this.db = DatabaseManager.getInstance();
-        this.statisticsService = new StatisticsService(this.db.getDatabase());
+        this.collectionService = new CollectionService(this.db.getDatabase());
+        this.embeddingProviderService = EmbeddingProviderService.getInstance();
+        this.embeddingCache = new EmbeddingCache(this.db.getDatabase());
         this.processorRegistry = ProcessorRegistry.getInstance();
+        this.storage = new IndexStorage(path.join(app.getPath('userData'), 'indexes'));
     }
 
     static getInstance(): VectorStore {
@@ -62,40 +258,18 @@ export class VectorStore {
         return VectorStore.instance;
     }
 
+    static async create(): Promise<VectorStore> {
+        const store = VectorStore.getInstance();
+        await store.initialize();
+        return store;
+    }
+
     async initialize(): Promise<void> {
         if (this.initialized) return;
 
         try {
-            // Initialize database
-            await this.db.initialize();
-
-            // Initialize embedder using dynamic import
-            const transformers = await import('@xenova/transformers');
-            this.embedder = await transformers.pipeline('feature-extraction', 'Xenova/all-MiniLM-L6-v2');
-
-            // Initialize HNSW index
-            const indexPath = path.join(app.getPath('userData'), 'vectors.index');
-            
-            // Initialize HNSW index
-            this.index = new HierarchicalNSW('cosine', this.dimension);
-
-            if (fs.existsSync(indexPath)) {
-                try {
-                    // Try to load existing index
-                    this.index.readIndex(indexPath);
-                    console.log('Loaded existing vector index');
-                } catch (error) {
-                    console.warn('Failed to load existing index, creating new one:', error);
-                    // Only remove and recreate if loading fails
-                    fs.unlinkSync(indexPath);
-                    this.index.initIndex(1000);
-                    console.log('Created new vector index');
-                }
-            } else {
-                // Create new index if none exists
-                this.index.initIndex(1000);
-                console.log('Created new vector index');
-            }
+            // Collection indexes and embedders are loaded lazily on first use
+            this.storage.ensureDirectory();
 
             this.initialized = true;
             console.log('Vector store initialized successfully');
@@ -105,28 +279,417 @@ export class VectorStore {
         }
     }
 
-    private async generateEmbedding(text: string): Promise<Float32Array> {
-        const output = await this.embedder(text, { pooling: 'mean', normalize: true });
-        if (!output?.data) {
+    private async requireCollection(collectionId: number): Promise<Collection> {
+        const collection = await this.collectionService.getCollectionById(collectionId);
+        if (!collection) {
+            throw new Error(`Collection ${collectionId} not found`);
+        }
+        return collection;
+    }
+
+    private async getCollectionEmbedder(collectionId: number): Promise<Embedder> {
+        const collection = await this.requireCollection(collectionId);
+        const embedder = await this.embeddingProviderService.getEmbedder(collection.embeddingProviderId);
+        await this.embeddingProviderService.updateLastUsed(collection.embeddingProviderId);
+        return embedder;
+    }
+
+    /**
+     * The dimension is fixed by the collection's index once it exists; for a new
+     * collection it is detected from the embedding provider.
+     */
+    private async getCollectionDimension(collectionId: number): Promise<number> {
+        const collection = await this.requireCollection(collectionId);
+        if (collection.dimension) {
+            return collection.dimension;
+        }
+
+        const dimension = await this.embeddingProviderService.resolveDimension(collection.embeddingProviderId);
+        this.collectionService.setDimension(collectionId, dimension);
+        return dimension;
+    }
+
+    private async getIndex(collectionId: number): Promise<HierarchicalNSW> {
+        let index = this.indexes.get(collectionId);
+        if (!index) {
+            index = await this.loadIndex(collectionId);
+            this.indexes.set(collectionId, index);
+        }
+        return index;
+    }
+
+    private async loadIndex(collectionId: number): Promise<HierarchicalNSW> {
+        const collection = await this.requireCollection(collectionId);
+        const loaded = this.storage.load(collectionId, await this.getCollectionDimension(collectionId));
+        if (loaded) {
+            loaded.index.setEf(collection.hnsw.efSearch);
+            const documentCount = this.db.countCollectionDocuments(collectionId);
+            if (loaded.recoveredFrom && loaded.manifest && loaded.manifest.documentCount !== documentCount) {
+                console.warn(
+                    `Recovered index for collection ${collectionId} was saved with ${loaded.manifest.documentCount} ` +
+                    `documents, the database now has ${documentCount}`
+                );
+            }
+            console.log(`Loaded vector index for collection ${collectionId}`);
+            return loaded.index;
+        }
+
+        const index = this.createIndex(await this.getCollectionDimension(collectionId), INITIAL_INDEX_CAPACITY, collection.hnsw);
+        console.log(`Created new vector index for collection ${collectionId}`);
+        return index;
+    }
+
+    private createIndex(dimension: number, capacity: number, hnsw: HnswParameters): HierarchicalNSW {
+        const index = new HierarchicalNSW('cosine', dimension);
+        index.initIndex(Math.max(INITIAL_INDEX_CAPACITY, capacity), hnsw.m, hnsw.efConstruction);
+        index.setEf(hnsw.efSearch);
+        return index;
+    }
+
+    /**
+     * Add a vector, growing the index first when it is full.
+     */
+    private addVector(index: HierarchicalNSW, vector: Float32Array | number[], label: number): void {
+        if (index.getCurrentCount() >= index.getMaxElements()) {
+            const capacity = Math.ceil(index.getMaxElements() * INDEX_GROWTH_FACTOR);
+            index.resizeIndex(capacity);
+            console.log(`Resized vector index to ${capacity} elements`);
+        }
+        index.addPoint(Array.from(vector), label);
+    }
+
+    /**
+     * Run a search with a temporary ef, restoring the collection default afterwards.
+     */
+    private withEf<T>(index: HierarchicalNSW, ef: number | undefined, search: () => T): T {
+        if (!ef) return search();
+
+        const previous = index.getEf();
+        index.setEf(ef);
+        try {
+            return search();
+        } finally {
+            index.setEf(previous);
+        }
+    }
+
+    /**
+     * Embedding model recorded in the index manifest, in the same form as Embedder.modelId.
+     */
+    private async getEmbeddingModelId(collectionId: number): Promise<string> {
+        const collection = await this.requireCollection(collectionId);
+        const provider = await this.embeddingProviderService.getProviderById(collection.embeddingProviderId);
+        return provider ? `${provider.type}:${provider.config.model}` : 'unknown';
+    }
+
+    private async saveIndex(collectionId: number): Promise<void> {
+        const index = this.indexes.get(collectionId);
+        if (!index) return;
+
+        const collection = await this.requireCollection(collectionId);
+        this.storage.save(collectionId, index, {
+            documentCount: this.db.countCollectionDocuments(collectionId),
+            embeddingModel: await this.getEmbeddingModelId(collectionId),
+            hnsw: collection.hnsw
+        });
+    }
+
+    /**
+     * Replace a collection's index with a fully built one. Storage writes are
+     * atomic, so a crash leaves either the old or the new index on disk.
+     */
+    private swapIndex(collectionId: number, index: HierarchicalNSW, embeddingModel: string, hnsw: HnswParameters): void {
+        this.storage.save(collectionId, index, {
+            documentCount: this.db.countCollectionDocuments(collectionId),
+            embeddingModel,
+            hnsw
+        });
+        this.indexes.set(collectionId, index);
+    }
+
+    private assertNotReembedding(collectionId: number): void {
+        if (this.reembedding.has(collectionId)) {
+            throw new Error(`Collection ${collectionId} is being re-embedded; try again when it has finished`);
+        }
+    }
+
+    /**
+     * Throws while an import, sync or re-embed is writing to the collection, so
+     * it is not deleted from under the job.
+     */
+    assertCollectionIdle(collectionId: number): void {
+        this.assertNotReembedding(collectionId);
+        if (this.activeJobs.has(collectionId)) {
+            throw new Error(`Collection ${collectionId} has an import, sync or re-embed running; cancel it or wait for it to finish`);
+        }
+    }
+
+    private async trackJob<T>(collectionId: number, work: () => Promise<T>): Promise<T> {
+        this.activeJobs.set(collectionId, (this.activeJobs.get(collectionId) ?? 0) + 1);
+        try {
+            return await work();
+        } finally {
+            const remaining = (this.activeJobs.get(collectionId) ?? 1) - 1;
+            if (remaining > 0) {
+                this.activeJobs.set(collectionId, remaining);
+            } else {
+                this.activeJobs.delete(collectionId);
+            }
+        }
+    }
+
+    private async generateEmbedding(
+        embedder: Embedder,
+        index: HierarchicalNSW,
+        text: string,
+        signal?: AbortSignal
+    ): Promise<Float32Array> {
+        const [vector] = await this.embedTexts(embedder, index, [text], signal);
+        if (!vector) {
+            throw new Error('Failed to generate embedding');
+        }
+        return vector;
+    }
+
+    /**
+     * Embed a search query. Queries stay out of the persistent cache, so they
+     * neither evict chunk vectors nor count in its statistics; the most recent
+     * ones are remembered in memory instead.
+     */
+    private async embedQuery(
+        embedder: Embedder,
+        index: HierarchicalNSW,
+        query: string,
+        signal?: AbortSignal
+    ): Promise<Float32Array> {
+        const key = `${embedder.modelId}\0${query}`;
+        const cached = this.queryVectors.get(key);
+        if (cached && cached.length === index.getNumDimensions()) {
+            // Re-inserting moves it to the end, so the map stays in least recently used order
+            this.queryVectors.delete(key);
+            this.queryVectors.set(key, cached);
+            return cached;
+        }
+
+        const [vector] = await embedder.embed([query], signal);
+        if (!vector) {
             throw new Error('Failed to generate embedding');
         }
+        this.assertDimension(embedder.modelId, index, vector);
 
-        return new Float32Array(
-            Object.keys(output.data)
-                .sort((a, b) => parseInt(a) - parseInt(b))
-                .map(key => output.data[key])
-        );
+        this.queryVectors.set(key, vector);
+        if (this.queryVectors.size > QUERY_VECTOR_CACHE_SIZE) {
+            this.queryVectors.delete(this.queryVectors.keys().next().value as string);
+        }
+        return vector;
+    }
+
+    /**
+     * Embed texts with the collection's embedder in one request, taking what it can from the cache.
+     */
+    private async embedTexts(
+        embedder: Embedder,
+        index: HierarchicalNSW,
+        texts: string[],
+        signal?: AbortSignal
+    ): Promise<Float32Array[]> {
+        const hashes = texts.map(text => this.generateContentHash(text));
+        const cached = this.embeddingCache.getMany(embedder.modelId, hashes);
+        const vectors = hashes.map(hash => cached.get(hash));
+
+        const missing = vectors
+            .map((vector, i) => (vector && vector.length === index.getNumDimensions() ? -1 : i))
+            .filter(i => i >= 0);
+        if (missing.length > 0) {
+            const embedded = await embedder.embed(missing.map(i => texts[i]), signal);
+            embedded.forEach(vector => this.assertDimension(embedder.modelId, index, vector));
+            missing.forEach((textIndex, i) => {
+                vectors[textIndex] = embedded[i];
+            });
+            this.embeddingCache.putMany(embedder.modelId, missing.map((textIndex, i) => ({
+                contentHash: hashes[textIndex],
+                vector: embedded[i]
+            })));
+        }
+
+        return vectors as Float32Array[];
+    }
+
+    /**
+     * Embed a batch of chunks through the pipeline, taking what it can from the cache.
+     */
+    private async embedChunks(
+        pipeline: EmbeddingPipeline,
+        index: HierarchicalNSW,
+        chunks: Array<Pick<NewDocument, 'content' | 'content_hash'>>,
+        signal?: AbortSignal
+    ): Promise<Float32Array[]> {
+        const hashes = chunks.map(chunk => chunk.content_hash ?? this.generateContentHash(chunk.content));
+        const cached = this.embeddingCache.getMany(pipeline.modelId, hashes);
+        const vectors = hashes.map(hash => cached.get(hash));
+
+        const missing = vectors
+            .map((vector, i) => (vector && vector.length === index.getNumDimensions() ? -1 : i))
+            .filter(i => i >= 0);
+        if (missing.length > 0) {
+            const embedded = await pipeline.embed(missing.map(i => chunks[i].content), signal);
+            embedded.forEach(vector => this.assertDimension(pipeline.modelId, index, vector));
+            missing.forEach((chunkIndex, i) => {
+                vectors[chunkIndex] = embedded[i];
+            });
+            this.embeddingCache.putMany(pipeline.modelId, missing.map((chunkIndex, i) => ({
+                contentHash: hashes[chunkIndex],
+                vector: embedded[i]
+            })));
+        }
+
+        return vectors as Float32Array[];
+    }
+
+    private assertDimension(modelId: string, index: HierarchicalNSW, vector: Float32Array): void {
+        if (vector.length !== index.getNumDimensions()) {
+            throw new Error(
+                `Embedding model ${modelId} returned ${vector.length} dimensions, ` +
+                `but the collection index expects ${index.getNumDimensions()}`
+            );
+        }
+    }
+
+    /**
+     * Start a worker-thread embedding pipeline for an embedding provider.
+     */
+    private async createEmbeddingPipeline(embeddingProviderId: number, options?: EmbeddingPipelineOptions): Promise<EmbeddingPipeline> {
+        const provider = await this.embeddingProviderService.getProviderById(embeddingProviderId);
+        if (!provider) {
+            throw new Error(`Embedding provider ${embeddingProviderId} not found`);
+        }
+        await this.embeddingProviderService.updateLastUsed(embeddingProviderId);
+        return new EmbeddingPipeline(provider, options);
     }
 
     private generateContentHash(content: string): string {
         return crypto.createHash('sha256').update(content).digest('hex');
     }
 
-    async importFiles(filePaths: string[], options: ImportOptions = {}): Promise<ImportStats> {
+    private generateFileHash(filePath: string): string {
+        return crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+    }
+
+    /**
+     * Remember which version of a file the stored chunks came from.
+     */
+    private recordSourceFile(collectionId: number, filePath: string): void {
+        const stat = fs.statSync(filePath);
+        this.db.upsertSourceFile({
+            collection_id: collectionId,
+            source: filePath,
+            size: stat.size,
+            mtime_ms: Math.floor(stat.mtimeMs),
+            file_hash: this.generateFileHash(filePath)
+        });
+    }
+
+    /**
+     * Position of each chunk in its file. Processors may report it in the chunk
+     * metadata; for plain-text formats whatever they leave out is filled in by
+     * locating the chunk text in the file.
+     */
+    private resolveProvenance(
+        filePath: string,
+        contents: string[],
+        metadata: Array<Partial<ChunkProvenance>>
+    ): Array<ChunkProvenance | undefined> {
+        const reported = metadata.map(meta => {
+            const provenance: ChunkProvenance = {};
+            for (const key of ['page', 'startLine', 'endLine', 'startOffset', 'endOffset'] as const) {
+                if (typeof meta?.[key] === 'number') provenance[key] = meta[key];
+            }
+            if (Array.isArray(meta?.headingPath)) provenance.headingPath = meta.headingPath.map(String);
+            return provenance;
+        });
+
+        const extension = path.extname(filePath).toLowerCase();
+        if (PLAIN_TEXT_EXTENSIONS.has(extension) && reported.some(p => p.startOffset === undefined)) {
+            try {
+                const located = locateChunks(fs.readFileSync(filePath, 'utf8'), contents, extension === '.md');
+                reported.forEach((provenance, i) => Object.assign(provenance, { ...located[i], ...provenance }));
+            } catch (error) {
+                console.warn(`Could not locate chunks of ${filePath}:`, error);
+            }
+        }
+
+        return reported.map(provenance => (Object.keys(provenance).length > 0 ? provenance : undefined));
+    }
+
+    private toProvenanceColumns(provenance?: ChunkProvenance): Partial<NewDocument> {
+        return {
+            page: provenance?.page ?? null,
+            start_line: provenance?.startLine ?? null,
+            end_line: provenance?.endLine ?? null,
+            start_offset: provenance?.startOffset ?? null,
+            end_offset: provenance?.endOffset ?? null,
+            heading_path: provenance?.headingPath ? JSON.stringify(provenance.headingPath) : null
+        };
+    }
+
+    private fromProvenanceColumns(doc: DocumentRecord): ChunkProvenance | undefined {
+        const provenance: ChunkProvenance = {};
+        if (doc.page !== null) provenance.page = doc.page;
+        if (doc.start_line !== null) provenance.startLine = doc.start_line;
+        if (doc.end_line !== null) provenance.endLine = doc.end_line;
+        if (doc.start_offset !== null) provenance.startOffset = doc.start_offset;
+        if (doc.end_offset !== null) provenance.endOffset = doc.end_offset;
+        if (doc.heading_path) {
+            try {
+                provenance.headingPath = JSON.parse(doc.heading_path);
+            } catch {
+                // Ignore a malformed path rather than failing the search
+            }
+        }
+        return Object.keys(provenance).length > 0 ? provenance : undefined;
+    }
+
+    private expandPaths(filePaths: string[], isDirectory: boolean = false): string[] {
+        if (!isDirectory) return filePaths;
+
+        const extensions = new Set(this.getSupportedExtensions().map(ext => ext.toLowerCase()));
+        const files: string[] = [];
+        const walk = (dir: string) => {
+            for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+                const entryPath = path.join(dir, entry.name);
+                if (entry.isDirectory()) {
+                    walk(entryPath);
+                } else if (entry.isFile() && extensions.has(path.extname(entry.name).toLowerCase())) {
+                    files.push(entryPath);
+                }
+            }
+        };
+
+        filePaths.forEach(walk);
+        return files;
+    }
+
+    async importFiles(
+        collectionId: number,
+        filePaths: string[],
+        options: ImportOptions = {},
+        onProgress?: ImportProgressCallback
+    ): Promise<ImportStats> {
+        return this.trackJob(collectionId, () => this.runImport(collectionId, filePaths, options, onProgress));
+    }
+
+    private async runImport(
+        collectionId: number,
+        filePaths: string[],
+        options: ImportOptions,
+        onProgress?: ImportProgressCallback
+    ): Promise<ImportStats> {
         if (!this.initialized) {
             await this.initialize();
         }
 
+        this.assertNotReembedding(collectionId);
+
         const stats: ImportStats = {
             success: true,
             filesProcessed: 0,
@@ -134,10 +697,32 @@ export class VectorStore {
             errors: []
         };
 
-        const documentVectors = new Map<number, number>(); // Track vectors per document
+        const collection = await this.requireCollection(collectionId);
+        const index = await this.getIndex(collectionId);
+        const pipeline = await this.createEmbeddingPipeline(collection.embeddingProviderId, options.embedding);
+        const files = this.expandPaths(filePaths, options.isDirectory);
+
+        // What a cancellation has to undo: the chunks of finished files, and the
+        // source file records they replaced (null where there was none)
+        const { signal, onCancel = 'commit' } = options;
+        const finished: ImportedFile[] = [];
+        const knownFiles = new Map(this.db.getSourceFiles(collectionId).map(record => [record.source, record]));
+        let position = 0;
 
         try {
-            for (const filePath of filePaths) {
+            for (; position < files.length; position++) {
+                const filePath = files[position];
+                signal?.throwIfAborted();
+
+                onProgress?.({
+                    filesProcessed: stats.filesProcessed,
+                    totalFiles: files.length,
+                    currentFile: filePath,
+                    chunksCreated: stats.vectorCount,
+                    status: 'processing'
+                });
+
+                const fileIds: number[] = [];
                 try {
                     // Get appropriate processor
                     const processor = this.processorRegistry.getProcessor(filePath);
@@ -150,46 +735,95 @@ export class VectorStore {
                         continue;
                     }
 
+                    // With skipDuplicates, a file already in the collection is skipped when
+                    // unchanged and otherwise replaces its previous chunks, as a sync would
+                    const previousRecord = knownFiles.get(filePath) ?? null;
+                    const replacedIds = options.skipDuplicates ? this.db.getSourceDocumentIds(collectionId, filePath) : [];
+                    if (replacedIds.length > 0 && !options.forceUpdate && previousRecord
+                        && this.generateFileHash(filePath) === previousRecord.file_hash) {
+                        this.recordSourceFile(collectionId, filePath);
+                        finished.push({ filePath, documentIds: [], replacedIds: [], previousRecord });
+                        stats.filesProcessed++;
+                        continue;
+                    }
+
                     // Process file
                     const result = await processor.processFile(filePath, options);
 
-                    // Add each chunk to vector store
+                    const provenance = this.resolveProvenance(filePath, result.contents, result.metadata);
+
+                    // Drop repeats within this file before they cost an embedding. Text shared
+                    // with other files stays, so every file keeps its full chunk range and provenance
+                    const chunks: NewDocument[] = [];
+                    const seenHashes = new Set<string>();
                     for (let i = 0; i < result.contents.length; i++) {
                         const content = result.contents[i];
                         const meta = result.metadata[i];
-
-                        try {
-                            // Generate embedding
-                            const vector = await this.generateEmbedding(content);
-
-                            // Add to database
-                            const docId = this.db.addDocument({
-                                content,
-                                source: meta.source,
-                                type: meta.type,
-                                title: meta.title,
-                                category: meta.category,
-                                content_hash: this.generateContentHash(content)
-                            });
-
-                            // Add to vector index
-                            this.index.addPoint(Array.from(vector), docId);
-
-                            // Track vectors per document
-                            documentVectors.set(
-                                docId,
-                                (documentVectors.get(docId) || 0) + 1
-                            );
-
-                            // Update total vector count
-                            stats.vectorCount++;
-                        } catch (error) {
-                            console.error(`Error processing chunk from ${filePath}:`, error);
+                        const contentHash = this.generateContentHash(content);
+                        if (options.skipDuplicates && seenHashes.has(contentHash)) {
+                            continue;
                         }
+                        seenHashes.add(contentHash);
+
+                        chunks.push({
+                            collection_id: collectionId,
+                            content,
+                            source: meta.source,
+                            type: meta.type,
+                            title: meta.title,
+                            category: meta.category,
+                            content_hash: contentHash,
+                            chunk_index: i,
+                            ...this.toProvenanceColumns(provenance[i])
+                        });
+                    }
+
+                    // Embed in bounded windows, so a huge file never holds all its vectors at once
+                    for (let start = 0; start < chunks.length; start += pipeline.options.maxQueuedChunks) {
+                        const batch = chunks.slice(start, start + pipeline.options.maxQueuedChunks);
+                        const vectors = await this.embedChunks(pipeline, index, batch, signal);
+
+                        const docIds = this.db.addDocuments(batch.map((chunk, i) => {
+                            const encoded = encodeEmbedding(vectors[i], collection.embeddingStorage);
+                            return {
+                                ...chunk,
+                                embedding: encoded.blob,
+                                embedding_format: encoded.format,
+                                embedding_scale: encoded.scale
+                            };
+                        }));
+                        docIds.forEach((docId, i) => this.addVector(index, vectors[i], docId));
+                        fileIds.push(...docIds);
+                        stats.vectorCount += docIds.length;
+
+                        onProgress?.({
+                            filesProcessed: stats.filesProcessed,
+                            totalFiles: files.length,
+                            currentFile: filePath,
+                            chunksCreated: stats.vectorCount,
+                            chunksPerSecond: pipeline.chunksPerSecond,
+                            status: 'processing'
+                        });
+
+                        // Let queued IPC through between windows
+                        await new Promise(resolve => setImmediate(resolve));
                     }
 
+                    this.recordSourceFile(collectionId, filePath);
+                    finished.push({ filePath, documentIds: fileIds, replacedIds, previousRecord });
                     stats.filesProcessed++;
+
+                    // Save periodically so a crash late in a large import loses little work
+                    if (stats.filesProcessed % CHECKPOINT_INTERVAL === 0) {
+                        await this.saveIndex(collectionId);
+                    }
                 } catch (error) {
+                    // Never leave part of a file behind, so retrying it cannot duplicate chunks
+                    await this.removeChunks(collectionId, fileIds);
+                    stats.vectorCount -= fileIds.length;
+                    if (signal?.aborted) {
+                        throw error;
+                    }
                     stats.errors?.push({
                         file: filePath,
                         error: error instanceof Error ? error.message : 'Unknown error',
@@ -198,31 +832,27 @@ export class VectorStore {
                 }
             }
 
-            // Update statistics if vectors were added successfully
-            if (stats.success && stats.vectorCount > 0) {
-                // Update document vector statistics
-                for (const [docId, vectorCount] of documentVectors.entries()) {
-                    await this.statisticsService.updateDocumentVectorStats({
-                        documentId: docId,
-                        vectorCount: vectorCount,
-                        averageVectorLength: this.dimension,
-                        totalTokens: vectorCount * this.dimension,
-                        chunksCount: vectorCount,
-                        lastUpdated: new Date().toISOString()
-                    });
-                }
-
-                // Update overall database statistics
-                await this.statisticsService.updateDatabaseStats();
-            }
+            await this.removeReplacedChunks(collectionId, finished);
 
             // Save index
-            const indexPath = path.join(app.getPath('userData'), 'vectors.index');
-            this.index.writeIndex(indexPath);
+            await this.saveIndex(collectionId);
+
+            onProgress?.({
+                filesProcessed: stats.filesProcessed,
+                totalFiles: files.length,
+                chunksCreated: stats.vectorCount,
+                chunksPerSecond: pipeline.chunksPerSecond,
+                status: 'complete',
+                isComplete: true
+            });
 
             return stats;
         } catch (error) {
+            if (signal?.aborted) {
+                return await this.settleCancelledImport(collectionId, files.slice(position), finished, onCancel, stats, onProgress);
+            }
             console.error('Error importing files:', error);
+            await this.removeReplacedChunks(collectionId, finished);
             return {
                 success: false,
                 filesProcessed: stats.filesProcessed,
@@ -233,71 +863,1714 @@ export class VectorStore {
                     retryable: true
                 }]
             };
+        } finally {
+            await pipeline.close();
+        }
+    }
+
+    /**
+     * Drop the previous chunks of changed files that were imported again. Done
+     * after the batch, so a rolled back import can still keep them.
+     */
+    private async removeReplacedChunks(collectionId: number, finished: ImportedFile[]): Promise<void> {
+        for (const file of finished) {
+            await this.removeChunks(collectionId, file.replacedIds);
+        }
+    }
+
+    /**
+     * Finish an import that was cancelled at a file boundary: keep the finished
+     * files in place of their previous chunks, or with 'rollback' remove their
+     * chunks and restore the source file records they replaced. The index is saved either way, so SQLite and the
+     * index on disk agree.
+     */
+    private async settleCancelledImport(
+        collectionId: number,
+        unfinished: string[],
+        finished: ImportedFile[],
+        onCancel: ImportCancelBehaviour,
+        stats: ImportStats,
+        onProgress?: ImportProgressCallback
+    ): Promise<ImportStats> {
+        let pendingFiles = unfinished;
+        if (onCancel === 'rollback') {
+            await this.removeChunks(collectionId, finished.flatMap(file => file.documentIds));
+            for (const { filePath, previousRecord } of finished) {
+                if (previousRecord) {
+                    const { imported_at, ...record } = previousRecord;
+                    this.db.upsertSourceFile(record);
+                } else {
+                    this.db.deleteSourceFile(collectionId, filePath);
+                }
+            }
+            pendingFiles = [...finished.map(file => file.filePath), ...unfinished];
+            stats.filesProcessed = 0;
+            stats.vectorCount = 0;
+        } else {
+            await this.removeReplacedChunks(collectionId, finished);
         }
+
+        await this.saveIndex(collectionId);
+        console.log(
+            `Import into collection ${collectionId} cancelled (${onCancel}): ` +
+            `${stats.filesProcessed} files kept, ${pendingFiles.length} not imported`
+        );
+
+        onProgress?.({
+            filesProcessed: stats.filesProcessed,
+            totalFiles: finished.length + unfinished.length,
+            chunksCreated: stats.vectorCount,
+            status: 'cancelled',
+            isComplete: true
+        });
+
+        return { ...stats, cancelled: true, pendingFiles };
+    }
+
+    async search(collectionId: number, query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+        return (await this.searchPage(collectionId, query, options)).results;
     }
 
-    async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    /**
+     * One page of results, with a cursor for the next page when there are more.
+     * Given `options.cursor`, the query, options and query vector stored in it are
+     * used instead of the arguments, so later pages skip the embedding call. The
+     * ranking is recomputed up to the end of the requested page, which keeps
+     * pages consistent while the collection is unchanged; neighbouring hits are
+     * only merged into passages within a page.
+     */
+    async searchPage(collectionId: number, query: string, options: SearchOptions = {}): Promise<SearchPage> {
         if (!this.initialized) {
             await this.initialize();
         }
 
+        const cursor = options.cursor ? decodeSearchCursor(options.cursor) : undefined;
+        if (cursor && cursor.collectionId !== collectionId) {
+            throw new Error('The search cursor belongs to a different collection');
+        }
+        if (cursor) {
+            query = cursor.query;
+        }
+        const settings: SearchOptions = cursor ?? options;
+
         const {
             limit = 10,
             minScore = 0.4,
-            includeVectors = false
-        } = options;
+            mode = 'vector',
+            weights = {},
+            filters = {},
+            ef,
+            mmrLambda,
+            rerank,
+            exact = false,
+            contextWindow = 0,
+            highlight = false,
+            semanticHighlight = false,
+            embeddingText
+        } = settings;
+        // Not part of the cursor, so taken from the call itself
+        const { signal } = options;
+        const offset = cursor?.offset ?? 0;
 
-        try {
-            // Generate query embedding
-            const queryVector = await this.generateEmbedding(query);
+        if (!Number.isInteger(limit) || limit < 1) {
+            throw new Error('limit must be a positive integer');
+        }
+        if (!Number.isFinite(minScore)) {
+            throw new Error('minScore must be a number');
+        }
+        for (const key of ['vector', 'keyword'] as const) {
+            const weight = weights[key];
+            if (weight !== undefined && (!Number.isFinite(weight) || weight < 0)) {
+                throw new Error(`weights.${key} must be a non-negative number`);
+            }
+        }
+        if (mmrLambda !== undefined && (!Number.isFinite(mmrLambda) || mmrLambda < 0 || mmrLambda > 1)) {
+            throw new Error('mmrLambda must be between 0 and 1');
+        }
+        const rerankTopN = rerank ? rerank.topN ?? DEFAULT_RERANK_TOP_N : 0;
+        if (rerank && (!Number.isInteger(rerankTopN) || rerankTopN < 1)) {
+            throw new Error('rerank.topN must be a positive integer');
+        }
+        if (!Number.isInteger(contextWindow) || contextWindow < 0) {
+            throw new Error('contextWindow must be a non-negative integer');
+        }
 
-            // Search for nearest neighbors
-            const numElements = Math.min(limit * 2, this.index.getCurrentCount());
-            if (numElements === 0) return [];
+        // Rank one result past the end of the page to learn whether another page exists
+        const end = offset + limit;
 
-            const result = this.index.searchKnn(Array.from(queryVector), numElements);
+        try {
+            let ranked: ScoredDocument[];
+            let queryVector: Float32Array | undefined;
+            let modelId: string | undefined;
 
-            // Process results
-            const results: SearchResult[] = [];
-            for (let i = 0; i < result.neighbors.length; i++) {
-                const docId = result.neighbors[i];
-                const score = 1 - result.distances[i];
+            if (mode === 'keyword') {
+                ranked = this.keywordSearch(collectionId, query, Math.max(end + 1, rerankTopN), filters);
+                if (rerank) {
+                    ranked = await this.rerankCandidates(query, ranked, rerankTopN, rerank.model);
+                }
+            } else {
+                const index = await this.getIndex(collectionId);
+                const embedder = await this.getCollectionEmbedder(collectionId);
+                modelId = embedder.modelId;
+                if (cursor?.queryVector) {
+                    if (cursor.modelId !== modelId || cursor.queryVector.length !== index.getNumDimensions()) {
+                        throw new Error('The search cursor has expired because the collection was re-embedded; search again');
+                    }
+                    queryVector = cursor.queryVector;
+                } else {
+                    queryVector = await this.embedQuery(embedder, index, embeddingText ?? query, signal);
+                }
+                const vector = queryVector;
 
-                if (score < minScore) continue;
+                // MMR and the reranker need a wider pool than the final list to choose from
+                const candidateCount = Math.max(mmrLambda !== undefined ? (end + 1) * MMR_CANDIDATE_FACTOR : end + 1, rerankTopN);
 
-                const doc = this.db.getDocument(docId);
-                if (!doc) continue;
+                ranked = mode === 'hybrid'
+                    ? this.withEf(index, ef, () =>
+                        this.hybridSearch(collectionId, query, index, vector, candidateCount, minScore, weights, filters, exact)
+                    )
+                    : this.withEf(index, ef, () =>
+                        this.vectorSearch(collectionId, index, vector, candidateCount, minScore, filters, exact)
+                    );
 
-                results.push({
-                    content: doc.content,
-                    confidence: score,
-                    fileType: doc.type,
-                    location: doc.source,
-                    context: doc.title || ''
-                });
+                if (rerank) {
+                    ranked = await this.rerankCandidates(query, ranked, rerankTopN, rerank.model);
+                }
+                if (mmrLambda !== undefined) {
+                    ranked = this.diversify(index, ranked, mmrLambda, end + 1);
+                }
+            }
+
+            // Reranking cannot be interrupted, so check once it is done
+            signal?.throwIfAborted();
 
-                if (results.length >= limit) break;
+            let page = this.expandContext(ranked.slice(offset, end), contextWindow);
+            if (highlight) {
+                page = await this.addHighlights(collectionId, query, page, semanticHighlight, queryVector, signal);
             }
 
-            return results;
+            const nextCursor = ranked.length > end
+                ? encodeSearchCursor({
+                    collectionId,
+                    query,
+                    modelId,
+                    queryVector,
+                    offset: end,
+                    limit,
+                    minScore,
+                    mode,
+                    weights,
+                    filters,
+                    ef,
+                    mmrLambda,
+                    rerank,
+                    exact,
+                    contextWindow,
+                    highlight,
+                    semanticHighlight
+                })
+                : undefined;
+
+            return { results: page.map(entry => this.toSearchResult(entry)), nextCursor };
         } catch (error) {
             console.error('Search failed:', error);
             throw error;
         }
     }
 
-    getSupportedExtensions(): string[] {
-        return this.processorRegistry.getSupportedExtensions();
+    /**
+     * "More like this": chunks nearest to a stored chunk vector, or to the mean of
+     * a document's chunk vectors, without embedding any text. The target chunk,
+     * and for a document target all of its chunks, are never returned.
+     */
+    async findSimilar(
+        collectionId: number,
+        target: SimilarSearchTarget,
+        options: Omit<SimilarSearchOptions, 'collectionId'> = {}
+    ): Promise<SearchResult[]> {
+        if (!this.initialized) {
+            await this.initialize();
+        }
+
+        const { limit = 10, minScore = 0, filters = {}, excludeSameSource = false } = options;
+        if (!Number.isInteger(limit) || limit < 1) {
+            throw new Error('limit must be a positive integer');
+        }
+
+        const index = await this.getIndex(collectionId);
+        let vectors: Float32Array[];
+        let excluded: Set<number>;
+        if ('chunkId' in target) {
+            const doc = this.db.getDocument(target.chunkId);
+            if (!doc || doc.collection_id !== collectionId) {
+                throw new Error(`Chunk ${target.chunkId} not found in collection ${collectionId}`);
+            }
+            const vector = this.getChunkVector(index, doc);
+            vectors = vector ? [vector] : [];
+            excluded = new Set(excludeSameSource ? this.db.getSourceDocumentIds(collectionId, doc.source) : [doc.id]);
+        } else {
+            const ids = this.db.getSourceDocumentIds(collectionId, target.source);
+            if (ids.length === 0) {
+                throw new Error(`Document ${target.source} not found in collection ${collectionId}`);
+            }
+            vectors = ids
+                .map(id => this.db.getDocument(id))
+                .map(doc => (doc ? this.getChunkVector(index, doc) : null))
+                .filter((vector): vector is Float32Array => vector !== null);
+            excluded = new Set(ids);
+        }
+        if (vectors.length === 0) {
+            throw new Error('The target has no stored vector; repair or re-embed the collection');
+        }
+
+        // Mean of the vectors; cosine similarity does not depend on its length
+        const queryVector = new Float32Array(vectors[0].length);
+        for (const vector of vectors) {
+            for (let i = 0; i < vector.length; i++) {
+                queryVector[i] += vector[i] / vectors.length;
+            }
+        }
+
+        const results: SearchResult[] = [];
+        for (const candidate of this.vectorCandidates(collectionId, index, queryVector, limit + excluded.size, minScore, filters)) {
+            if (excluded.has(candidate.id)) continue;
+
+            const doc = this.db.getDocument(candidate.id);
+            if (!doc) continue;
+
+            results.push(this.toSearchResult({ doc, similarity: candidate.score, scores: { vector: candidate.score } }));
+            if (results.length >= limit) break;
+        }
+        return results;
     }
 
-    async close(): Promise<void> {
-        if (this.initialized) {
+    /**
+     * Nearest neighbours above minScore, best first, restricted to the collection.
+     *
+     * With filters, the matching chunk ids are resolved in SQLite first and handed
+     * to HNSW as a label filter, so the graph search keeps going past rejected
+     * neighbours until it has `count` matching ones instead of post-filtering a
+     * fixed top-k that may contain none of them. With `exact`, every vector is
+     * scored instead and the graph is not used at all.
+     */
+    private vectorCandidates(
+        collectionId: number,
+        index: HierarchicalNSW,
+        queryVector: Float32Array,
+        count: number,
+        minScore: number,
+        filters: SearchFilters = {},
+        exact: boolean = false
+    ): RankedCandidate[] {
+        let numElements = Math.min(count, index.getCurrentCount());
+        let allowed: Set<number> | undefined;
+        if (this.hasFilters(filters)) {
+            allowed = new Set(this.db.getFilteredDocumentIds(collectionId, filters));
+            numElements = Math.min(numElements, allowed.size);
+        }
+        if (numElements === 0) return [];
+
+        if (exact) {
+            return this.exactNeighbors(this.readIndexPoints(index, allowed), queryVector, numElements)
+                .filter(candidate => candidate.score >= minScore)
+                .filter(candidate => this.db.getDocument(candidate.id)?.collection_id === collectionId);
+        }
+
+        let result = allowed
+            ? index.searchKnn(Array.from(queryVector), numElements, label => allowed!.has(label))
+            : index.searchKnn(Array.from(queryVector), numElements);
+
+        // A very selective filter can exhaust the search beam before enough matching
+        // labels are found; widen the beam and search again in that case
+        if (allowed && result.neighbors.length < numElements) {
+            const ef = index.getEf();
             try {
-                const indexPath = path.join(app.getPath('userData'), 'vectors.index');
-                if (this.index && this.index.getCurrentCount() > 0) {
-                    await this.index.writeIndex(indexPath);
-                    console.log('Vector index saved successfully');
+                index.setEf(Math.max(ef, index.getCurrentCount()));
+                result = index.searchKnn(Array.from(queryVector), numElements, label => allowed!.has(label));
+            } finally {
+                index.setEf(ef);
+            }
+        }
+        const candidates: RankedCandidate[] = [];
+        for (let i = 0; i < result.neighbors.length; i++) {
+            const score = 1 - result.distances[i];
+            if (score < minScore) continue;
+
+            const doc = this.db.getDocument(result.neighbors[i]);
+            if (!doc || doc.collection_id !== collectionId) continue;
+
+            candidates.push({ id: result.neighbors[i], score });
+        }
+
+        return candidates;
+    }
+
+    /**
+     * BM25-only search. Confidence is the BM25 score relative to the best match,
+     * since raw BM25 values are not comparable between queries.
+     */
+    private keywordSearch(collectionId: number, query: string, limit: number, filters: SearchFilters): ScoredDocument[] {
+        const matches = this.db.searchKeywords(collectionId, query, limit, filters);
+        const best = matches[0]?.score || 1;
+
+        const results: ScoredDocument[] = [];
+        for (const match of matches) {
+            const doc = this.db.getDocument(match.id);
+            if (!doc) continue;
+            results.push({ doc, similarity: match.score / best, scores: { keyword: match.score } });
+        }
+
+        return results;
+    }
+
+    /**
+     * Rescore results that were ranked elsewhere, e.g. fused from several
+     * searches, against the query the way a reranked search does.
+     */
+    async rerankResults(query: string, results: SearchResult[], rerank: RerankOptions): Promise<SearchResult[]> {
+        const topN = rerank.topN ?? DEFAULT_RERANK_TOP_N;
+        if (!Number.isInteger(topN) || topN < 1) {
+            throw new Error('rerank.topN must be a positive integer');
+        }
+
+        const head = results.slice(0, topN);
+        const scores = await new CrossEncoderReranker(rerank.model).score(query, head.map(result => result.content));
+        const reranked = head
+            .map((result, i) => ({ ...result, rerankScore: scores[i] }))
+            .sort((a, b) => b.rerankScore - a.rerankScore);
+        return [...reranked, ...results.slice(topN)];
+    }
+
+    /**
+     * Rescore the first topN candidates with a cross-encoder and move them into
+     * its order; candidates beyond topN keep their place behind them.
+     */
+    private async rerankCandidates(
+        query: string,
+        ranked: ScoredDocument[],
+        topN: number,
+        model?: string
+    ): Promise<ScoredDocument[]> {
+        const head = ranked.slice(0, topN);
+        const scores = await new CrossEncoderReranker(model).score(query, head.map(entry => entry.doc.content));
+
+        const reranked = head
+            .map((entry, i) => ({ ...entry, rerankScore: scores[i] }))
+            .sort((a, b) => b.rerankScore - a.rerankScore);
+        return [...reranked, ...ranked.slice(topN)];
+    }
+
+    /**
+     * The nearest chunks to the query vector that pass the filters and minScore.
+     */
+    private vectorSearch(
+        collectionId: number,
+        index: HierarchicalNSW,
+        queryVector: Float32Array,
+        limit: number,
+        minScore: number,
+        filters: SearchFilters,
+        exact: boolean
+    ): ScoredDocument[] {
+        const ranked: ScoredDocument[] = [];
+        for (const candidate of this.vectorCandidates(collectionId, index, queryVector, limit * 2, minScore, filters, exact)) {
+            const doc = this.db.getDocument(candidate.id);
+            if (!doc) continue;
+
+            ranked.push({ doc, similarity: candidate.score, scores: { vector: candidate.score } });
+            if (ranked.length >= limit) break;
+        }
+        return ranked;
+    }
+
+    /**
+     * Fuse the HNSW and BM25 rankings with weighted reciprocal rank fusion.
+     *
+     * minScore only filters the vector list, so an exact keyword hit is kept even
+     * when its embedding is not close to the query. Confidence remains the cosine
+     * similarity, computed from the stored vector for keyword-only hits.
+     */
+    private hybridSearch(
+        collectionId: number,
+        query: string,
+        index: HierarchicalNSW,
+        queryVector: Float32Array,
+        limit: number,
+        minScore: number,
+        weights: SearchWeights,
+        filters: SearchFilters,
+        exact: boolean
+    ): ScoredDocument[] {
+        const vectorWeight = weights.vector ?? 1;
+        const keywordWeight = weights.keyword ?? 1;
+        const candidateCount = limit * 4;
+
+        const vectorHits = vectorWeight > 0
+            ? this.vectorCandidates(collectionId, index, queryVector, candidateCount, minScore, filters, exact)
+            : [];
+        const keywordHits = keywordWeight > 0
+            ? this.db.searchKeywords(collectionId, query, candidateCount, filters)
+            : [];
+
+        const ranked = fuseRankings(vectorHits, keywordHits, { vector: vectorWeight, keyword: keywordWeight }, limit);
+
+        const results: ScoredDocument[] = [];
+        for (const { id, scores } of ranked) {
+            const doc = this.db.getDocument(id);
+            if (!doc) continue;
+
+            const similarity = scores.vector ?? this.cosineSimilarity(index, id, queryVector);
+            results.push({ doc, similarity, scores });
+        }
+
+        return results;
+    }
+
+    /**
+     * Re-rank candidates with maximal marginal relevance, so near-identical chunks
+     * do not fill the whole result list. Relevance is the reranker score when there
+     * is one and the cosine similarity to the query otherwise; redundancy is
+     * measured on the chunk vectors stored with each document.
+     */
+    private diversify(index: HierarchicalNSW, ranked: ScoredDocument[], lambda: number, limit: number): ScoredDocument[] {
+        const selection = maximalMarginalRelevance(
+            ranked.map(entry => ({
+                relevance: entry.rerankScore ?? entry.similarity,
+                vector: this.getChunkVector(index, entry.doc)
+            })),
+            lambda,
+            limit
+        );
+
+        return selection.map(({ index: position, score }) => ({
+            ...ranked[position],
+            scores: { ...ranked[position].scores, mmr: score }
+        }));
+    }
+
+    /**
+     * Attach the `window` chunks before and after each hit as a merged passage.
+     * A hit whose window overlaps or touches that of a better-ranked hit from the
+     * same document is folded into that passage instead of being returned again.
+     */
+    private expandContext(entries: ScoredDocument[], window: number): ScoredDocument[] {
+        if (window === 0) return entries;
+
+        const ranges = new Map<string, Array<{ from: number; to: number; entry: ScoredDocument }>>();
+        const kept: ScoredDocument[] = [];
+        for (const entry of entries) {
+            const ordinal = entry.doc.chunk_index;
+            if (ordinal === null) {
+                kept.push(entry);
+                continue;
+            }
+
+            const key = `${entry.doc.collection_id}:${entry.doc.source}`;
+            const documentRanges = ranges.get(key) ?? [];
+            const from = Math.max(0, ordinal - window);
+            const to = ordinal + window;
+
+            const overlapping = documentRanges.find(range => from <= range.to + 1 && to >= range.from - 1);
+            if (overlapping) {
+                overlapping.from = Math.min(overlapping.from, from);
+                overlapping.to = Math.max(overlapping.to, to);
+                continue;
+            }
+
+            documentRanges.push({ from, to, entry });
+            ranges.set(key, documentRanges);
+            kept.push(entry);
+        }
+
+        const passages = new Map<ScoredDocument, ExpandedPassage>();
+        for (const documentRanges of ranges.values()) {
+            for (const range of documentRanges) {
+                const chunks = this.db.getChunkRange(range.entry.doc.collection_id, range.entry.doc.source, range.from, range.to);
+                if (chunks.length > 0) {
+                    passages.set(range.entry, this.mergeChunks(chunks));
+                }
+            }
+        }
+
+        return kept.map(entry => (passages.has(entry) ? { ...entry, passage: passages.get(entry) } : entry));
+    }
+
+    /**
+     * Mark the query terms in each result's text and, when semantic is set, the
+     * sentences whose embeddings are closest to the query. At most
+     * MAX_HIGHLIGHT_SENTENCES are embedded for the whole page, shared between
+     * the results in rank order, and they bypass the embedding cache so one-off
+     * sentences never evict chunk vectors. Without a query vector (keyword mode)
+     * the query is embedded here; if that fails, only keyword spans are returned.
+     */
+    private async addHighlights(
+        collectionId: number,
+        query: string,
+        entries: ScoredDocument[],
+        semantic: boolean,
+        queryVector?: Float32Array,
+        signal?: AbortSignal
+    ): Promise<ScoredDocument[]> {
+        const terms = queryTerms(query);
+        const texts = entries.map(entry => entry.passage?.content ?? entry.doc.content);
+        const highlights = texts.map(text => keywordSpans(text, terms));
+
+        // Single-sentence results gain nothing from a sentence highlight
+        let budget = semantic ? MAX_HIGHLIGHT_SENTENCES : 0;
+        const perResult = Math.max(SEMANTIC_HIGHLIGHTS_PER_RESULT, Math.ceil(budget / Math.max(entries.length, 1)));
+        const sentences = texts.map(text => {
+            const ranges = splitSentences(text);
+            if (ranges.length < 2 || budget < 2) return [];
+            const taken = ranges.slice(0, Math.min(perResult, budget));
+            budget -= taken.length;
+            return taken;
+        });
+        const sentenceTexts = sentences.flatMap((ranges, i) => ranges.map(range => texts[i].slice(range.start, range.end)));
+
+        if (sentenceTexts.length > 0) {
+            try {
+                const index = await this.getIndex(collectionId);
+                const embedder = await this.getCollectionEmbedder(collectionId);
+                const target = queryVector ?? await this.embedQuery(embedder, index, query, signal);
+                const vectors = await embedder.embed(sentenceTexts, signal);
+                vectors.forEach(vector => this.assertDimension(embedder.modelId, index, vector));
+
+                let offset = 0;
+                sentences.forEach((ranges, i) => {
+                    const best = ranges
+                        .map((range, j) => ({ range, score: cosine(target, vectors[offset + j]) }))
+                        .sort((a, b) => b.score - a.score)
+                        .slice(0, SEMANTIC_HIGHLIGHTS_PER_RESULT);
+                    offset += ranges.length;
+                    for (const { range, score } of best) {
+                        highlights[i].push({ start: range.start, end: range.end, kind: 'semantic', score });
+                    }
+                });
+            } catch (error) {
+                if (signal?.aborted) throw error;
+                console.warn('Semantic highlighting failed, returning keyword highlights only:', error);
+            }
+        }
+
+        return entries.map((entry, i) => ({
+            ...entry,
+            highlights: highlights[i].sort((a, b) => a.start - b.start || a.end - b.end)
+        }));
+    }
+
+    /**
+     * Join consecutive chunks into one text, dropping the overlap the chunker
+     * repeats at the start of each chunk.
+     */
+    private mergeChunks(chunks: DocumentRecord[]): ExpandedPassage {
+        let content = chunks[0].content;
+        for (const chunk of chunks.slice(1)) {
+            let overlap = 0;
+            for (let length = Math.min(content.length, chunk.content.length); length >= MIN_CHUNK_OVERLAP; length--) {
+                if (content.endsWith(chunk.content.slice(0, length))) {
+                    overlap = length;
+                    break;
+                }
+            }
+            content += overlap > 0 ? chunk.content.slice(overlap) : `\n${chunk.content}`;
+        }
+
+        const first = this.fromProvenanceColumns(chunks[0]);
+        const last = this.fromProvenanceColumns(chunks[chunks.length - 1]);
+        const provenance: ChunkProvenance | undefined = first || last
+            ? {
+                ...first,
+                endLine: last?.endLine ?? first?.endLine,
+                endOffset: last?.endOffset ?? first?.endOffset
+            }
+            : undefined;
+
+        return {
+            content,
+            firstChunk: chunks[0].chunk_index ?? 0,
+            lastChunk: chunks[chunks.length - 1].chunk_index ?? 0,
+            provenance
+        };
+    }
+
+    private getChunkVector(index: HierarchicalNSW, doc: DocumentRecord): Float32Array | null {
+        if (doc.embedding) {
+            return decodeEmbedding(doc.embedding, doc.embedding_format, doc.embedding_scale);
+        }
+        try {
+            return Float32Array.from(index.getPoint(doc.id));
+        } catch {
+            // Chunk has no vector in the index
+            return null;
+        }
+    }
+
+    /**
+     * Every live vector in the index, optionally restricted to some labels.
+     */
+    private readIndexPoints(index: HierarchicalNSW, labels?: Set<number>): IndexPoint[] {
+        const points: IndexPoint[] = [];
+        for (const label of labels ?? index.getIdsList()) {
+            let vector: Float32Array;
+            try {
+                vector = Float32Array.from(index.getPoint(label));
+            } catch {
+                // Marked deleted, or not in the index
+                continue;
+            }
+
+            let norm = 0;
+            for (let i = 0; i < vector.length; i++) {
+                norm += vector[i] * vector[i];
+            }
+            points.push({ label, vector, norm: Math.sqrt(norm) });
+        }
+        return points;
+    }
+
+    /**
+     * Exact top-k by cosine similarity, best first.
+     */
+    private exactNeighbors(points: IndexPoint[], queryVector: Float32Array, k: number): RankedCandidate[] {
+        let queryNorm = 0;
+        for (let i = 0; i < queryVector.length; i++) {
+            queryNorm += queryVector[i] * queryVector[i];
+        }
+        queryNorm = Math.sqrt(queryNorm);
+
+        const scored: RankedCandidate[] = points.map(point => {
+            let dot = 0;
+            for (let i = 0; i < point.vector.length; i++) {
+                dot += point.vector[i] * queryVector[i];
+            }
+            return { id: point.label, score: point.norm && queryNorm ? dot / (point.norm * queryNorm) : 0 };
+        });
+
+        return scored.sort((a, b) => b.score - a.score).slice(0, k);
+    }
+
+    private hasFilters(filters: SearchFilters): boolean {
+        return Boolean(
+            filters.fileTypes?.length ||
+            filters.sourceGlob ||
+            filters.category ||
+            filters.titleContains ||
+            filters.importedAfter ||
+            filters.importedBefore ||
+            filters.topicId !== undefined
+        );
+    }
+
+    private cosineSimilarity(index: HierarchicalNSW, id: number, queryVector: Float32Array): number {
+        try {
+            const point = index.getPoint(id);
+            let dot = 0, normA = 0, normB = 0;
+            for (let i = 0; i < point.length; i++) {
+                dot += point[i] * queryVector[i];
+                normA += point[i] * point[i];
+                normB += queryVector[i] * queryVector[i];
+            }
+            return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+        } catch {
+            // Chunk has no vector in the index
+            return 0;
+        }
+    }
+
+    private toSearchResult(entry: ScoredDocument): SearchResult {
+        const { doc, similarity, scores, rerankScore } = entry;
+        return {
+            id: doc.id,
+            content: doc.content,
+            confidence: similarity,
+            rerankScore,
+            fileType: doc.type,
+            location: doc.source,
+            context: doc.title || '',
+            provenance: this.fromProvenanceColumns(doc),
+            passage: entry.passage,
+            highlights: entry.highlights,
+            alsoIn: doc.duplicate_sources ? this.duplicateSourcesOf(doc) : undefined,
+            scores
+        };
+    }
+
+    async clearDatabase(collectionId: number): Promise<void> {
+        if (!this.initialized) {
+            await this.initialize();
+        }
+
+        this.assertNotReembedding(collectionId);
+        this.db.clearCollectionDocuments(collectionId);
+
+        // An empty collection may pick up a new dimension from its provider
+        this.dropCollectionIndex(collectionId);
+        this.collectionService.setDimension(collectionId, null);
+        console.log(`Cleared collection ${collectionId}`);
+    }
+
+    /**
+     * Regenerate every vector of a collection with a different embedding provider.
+     *
+     * Chunk content is re-read from SQLite and embedded in batches into a fresh
+     * index. Searches keep using the old index and provider until the new index
+     * is complete. The new vectors and provider are then committed to SQLite, and
+     * only once that has succeeded is the new index swapped in and written over
+     * the old one. When cancelled before the commit, the collection keeps its old
+     * provider and vectors.
+     */
+    async reembedCollection(
+        collectionId: number,
+        embeddingProviderId: number,
+        onProgress?: ReembedProgressCallback,
+        signal?: AbortSignal
+    ): Promise<ReembedStats> {
+        if (!this.initialized) {
+            await this.initialize();
+        }
+
+        // An import or sync running alongside would write old-model vectors the swap then drops
+        this.assertCollectionIdle(collectionId);
+        return this.trackJob(collectionId, () => this.runReembed(collectionId, embeddingProviderId, onProgress, signal));
+    }
+
+    private async runReembed(
+        collectionId: number,
+        embeddingProviderId: number,
+        onProgress?: ReembedProgressCallback,
+        signal?: AbortSignal
+    ): Promise<ReembedStats> {
+        const collection = await this.requireCollection(collectionId);
+        this.reembedding.add(collectionId);
+
+        let pipeline: EmbeddingPipeline | null = null;
+        try {
+            const dimension = await this.embeddingProviderService.resolveDimension(embeddingProviderId);
+            const documentIds = this.db.getCollectionDocumentIds(collectionId);
+            pipeline = await this.createEmbeddingPipeline(embeddingProviderId);
+
+            const stats: ReembedStats = { success: true, vectorCount: 0, dimension };
+            const report = (status: string, isComplete = false) => onProgress?.({
+                collectionId,
+                processed: stats.vectorCount,
+                total: documentIds.length,
+                status,
+                isComplete
+            });
+
+            const index = this.createIndex(dimension, documentIds.length, collection.hnsw);
+            const embedded: number[] = [];
+            report('embedding');
+
+            // Any failure aborts the job so a partial index is never swapped in
+            for (let start = 0; start < documentIds.length; start += pipeline.options.maxQueuedChunks) {
+                signal?.throwIfAborted();
+                const docs = documentIds
+                    .slice(start, start + pipeline.options.maxQueuedChunks)
+                    .map(documentId => this.db.getDocument(documentId))
+                    .filter((doc): doc is DocumentRecord => doc !== undefined);
+
+                const vectors = await this.embedChunks(pipeline, index, docs, signal);
+                docs.forEach((doc, i) => {
+                    this.addVector(index, vectors[i], doc.id);
+                    embedded.push(doc.id);
+                });
+                stats.vectorCount += docs.length;
+                report('embedding');
+
+                // Let queued IPC through between windows
+                await new Promise(resolve => setImmediate(resolve));
+            }
+
+            signal?.throwIfAborted();
+            this.db.getDatabase().transaction(() => {
+                this.db.setDocumentEmbeddings(embedded.map(documentId => {
+                    const encoded = encodeEmbedding(index.getPoint(documentId), collection.embeddingStorage);
+                    return {
+                        id: documentId,
+                        embedding: encoded.blob,
+                        embedding_format: encoded.format,
+                        embedding_scale: encoded.scale
+                    };
+                }));
+                this.collectionService.setEmbeddingProvider(collectionId, embeddingProviderId, dimension);
+            })();
+
+            // SQLite now holds the new vectors, so searches must use the new index even if writing it fails
+            try {
+                this.swapIndex(collectionId, index, pipeline.modelId, collection.hnsw);
+            } catch (error) {
+                this.indexes.set(collectionId, index);
+                console.error(`Could not write the re-embedded index of collection ${collectionId}; it will be written on the next save:`, error);
+            }
+            console.log(`Re-embedded collection ${collectionId} with ${pipeline.modelId} (${stats.vectorCount} vectors)`);
+
+            report('complete', true);
+            return stats;
+        } finally {
+            await pipeline?.close();
+            this.reembedding.delete(collectionId);
+        }
+    }
+
+    /**
+     * Remove every chunk imported from one source file.
+     */
+    async deleteDocument(collectionId: number, source: string): Promise<DocumentDeleteResult> {
+        if (!this.initialized) {
+            await this.initialize();
+        }
+
+        this.assertNotReembedding(collectionId);
+        const documentIds = this.db.getSourceDocumentIds(collectionId, source);
+        if (documentIds.length === 0) {
+            throw new Error(`No chunks from ${source} in collection ${collectionId}`);
+        }
+
+        const chunksRemoved = await this.removeChunks(collectionId, documentIds);
+        this.db.deleteSourceFile(collectionId, source);
+        const { compacted } = await this.compactIndex(collectionId);
+        console.log(`Deleted ${chunksRemoved} chunks of ${source} from collection ${collectionId}`);
+
+        return { chunksRemoved, compacted };
+    }
+
+    /**
+     * Vectors of the given chunks of a collection, from SQLite or else the index.
+     * Chunks without a vector anywhere, or from another collection, are left out.
+     */
+    async getChunkVectors(collectionId: number, ids: number[]): Promise<Map<number, Float32Array>> {
+        if (!this.initialized) {
+            await this.initialize();
+        }
+
+        const index = await this.getIndex(collectionId);
+        const vectors = new Map<number, Float32Array>();
+        for (const id of ids) {
+            const doc = this.db.getDocument(id);
+            if (!doc || doc.collection_id !== collectionId) continue;
+
+            const vector = this.getChunkVector(index, doc);
+            if (vector) vectors.set(id, vector);
+        }
+        return vectors;
+    }
+
+    /**
+     * Find chunks that are exact copies (same content hash) or near-duplicates
+     * (cosine similarity of at least the threshold) of each other, and files that
+     * mostly consist of such chunks. Near-duplicates come from each chunk's nearest
+     * neighbours in the index, so similar pairs chain together into groups.
+     */
+    async findDuplicates(collectionId: number, options: DuplicateScanOptions = {}): Promise<DuplicateReport> {
+        if (!this.initialized) {
+            await this.initialize();
+        }
+
+        const threshold = options.threshold ?? DEFAULT_DUPLICATE_THRESHOLD;
+        if (!(threshold > 0 && threshold <= 1)) {
+            throw new Error('threshold must be between 0 and 1');
+        }
+
+        const index = await this.getIndex(collectionId);
+        const ids = this.db.getCollectionDocumentIds(collectionId);
+        const chunks = new DisjointSet<number>();
+        const firstByHash = new Map<string, number>();
+        const chunkCounts = new Map<string, number>();
+
+        for (let i = 0; i < ids.length; i++) {
+            const doc = this.db.getDocument(ids[i]);
+            if (!doc) continue;
+
+            chunkCounts.set(doc.source, (chunkCounts.get(doc.source) ?? 0) + 1);
+            if (doc.content_hash) {
+                const first = firstByHash.get(doc.content_hash);
+                if (first === undefined) {
+                    firstByHash.set(doc.content_hash, doc.id);
+                } else {
+                    chunks.union(first, doc.id);
+                }
+            }
+
+            const vector = this.getChunkVector(index, doc);
+            if (vector) {
+                for (const candidate of this.vectorCandidates(collectionId, index, vector, DUPLICATE_NEIGHBOURS + 1, threshold)) {
+                    if (candidate.id !== doc.id) chunks.union(doc.id, candidate.id);
+                }
+            }
+
+            if ((i + 1) % DUPLICATE_SCAN_BATCH === 0) {
+                // Keep the main process responsive on large collections
+                await new Promise(resolve => setImmediate(resolve));
+            }
+        }
+
+        const chunkGroups: DuplicateGroup[] = [];
+        for (const members of chunks.groups()) {
+            const docs = members
+                .sort((a, b) => a - b)
+                .map(id => this.db.getDocument(id))
+                .filter((doc): doc is DocumentRecord => doc !== undefined);
+            if (docs.length < 2) continue;
+
+            const exact = docs.every(doc => doc.content_hash !== null && doc.content_hash === docs[0].content_hash);
+            const firstVector = exact ? null : this.getChunkVector(index, docs[0]);
+            chunkGroups.push({
+                kind: exact ? 'exact' : 'near',
+                chunks: docs.map((doc, i) => {
+                    let similarity = 1;
+                    if (i > 0 && !exact) {
+                        const vector = this.getChunkVector(index, doc);
+                        similarity = firstVector && vector ? cosine(firstVector, vector) : 0;
+                    }
+                    return {
+                        id: doc.id,
+                        source: doc.source,
+                        preview: doc.content.slice(0, DUPLICATE_PREVIEW_LENGTH),
+                        similarity
+                    };
+                })
+            });
+        }
+        chunkGroups.sort((a, b) => b.chunks.length - a.chunks.length);
+
+        return {
+            collectionId,
+            threshold,
+            scannedChunks: ids.length,
+            redundantChunks: chunkGroups.reduce((sum, group) => sum + group.chunks.length - 1, 0),
+            chunkGroups,
+            fileGroups: groupDuplicateFiles(chunkGroups.map(group => group.chunks.map(chunk => chunk.source)), chunkCounts)
+        };
+    }
+
+    /**
+     * Keep one copy of a duplicate group and delete or merge the others; see
+     * DuplicateResolution. A file left without chunks is removed altogether.
+     */
+    async resolveDuplicates(collectionId: number, resolution: DuplicateResolution): Promise<DuplicateResolutionResult> {
+        if (!this.initialized) {
+            await this.initialize();
+        }
+
+        this.assertNotReembedding(collectionId);
+        let chunksRemoved = 0;
+        let affectedSources: string[];
+
+        if (resolution.kind === 'chunks') {
+            const kept = this.db.getDocument(resolution.keepId);
+            if (!kept || kept.collection_id !== collectionId) {
+                throw new Error(`Chunk ${resolution.keepId} not found in collection ${collectionId}`);
+            }
+
+            const removed = resolution.removeIds
+                .filter(id => id !== kept.id)
+                .map(id => this.db.getDocument(id))
+                .filter((doc): doc is DocumentRecord => doc?.collection_id === collectionId);
+            if (resolution.action === 'merge') {
+                this.db.addDuplicateSources(kept.id, removed.flatMap(doc => [doc.source, ...this.duplicateSourcesOf(doc)]));
+            }
+            chunksRemoved = await this.removeChunks(collectionId, removed.map(doc => doc.id));
+            affectedSources = removed.map(doc => doc.source);
+        } else {
+            const keptIds = this.db.getSourceDocumentIds(collectionId, resolution.keepSource);
+            if (keptIds.length === 0) {
+                throw new Error(`Document ${resolution.keepSource} not found in collection ${collectionId}`);
+            }
+
+            affectedSources = resolution.removeSources.filter(source => source !== resolution.keepSource);
+            for (const source of affectedSources) {
+                const ids = this.db.getSourceDocumentIds(collectionId, source);
+                chunksRemoved += resolution.action === 'merge'
+                    ? await this.mergeFileInto(collectionId, ids, keptIds, resolution.threshold ?? DEFAULT_DUPLICATE_THRESHOLD)
+                    : await this.removeChunks(collectionId, ids);
+            }
+        }
+
+        let filesRemoved = 0;
+        for (const source of new Set(affectedSources)) {
+            if (this.db.getSourceDocumentIds(collectionId, source).length === 0) {
+                this.db.deleteSourceFile(collectionId, source);
+                filesRemoved++;
+            }
+        }
+
+        const { compacted } = await this.compactIndex(collectionId);
+        console.log(`Resolved duplicates in collection ${collectionId}: removed ${chunksRemoved} chunks and ${filesRemoved} files`);
+
+        return { chunksRemoved, filesRemoved, compacted };
+    }
+
+    /**
+     * Remove the chunks of a file that duplicate a chunk of the kept file, by
+     * content hash or by a cosine similarity of at least the threshold, and record
+     * the file on the chunks they duplicate. Returns the number of chunks removed.
+     */
+    private async mergeFileInto(collectionId: number, ids: number[], keptIds: number[], threshold: number): Promise<number> {
+        const index = await this.getIndex(collectionId);
+        const kept = keptIds
+            .map(id => this.db.getDocument(id))
+            .filter((doc): doc is DocumentRecord => doc !== undefined);
+        const keptByHash = new Map(kept.filter(doc => doc.content_hash).map(doc => [doc.content_hash!, doc.id]));
+        const keptPoints = this.readIndexPoints(index, new Set(keptIds));
+
+        const removed: number[] = [];
+        for (const id of ids) {
+            const doc = this.db.getDocument(id);
+            if (!doc) continue;
+
+            let match = doc.content_hash ? keptByHash.get(doc.content_hash) : undefined;
+            if (match === undefined) {
+                const vector = this.getChunkVector(index, doc);
+                const [best] = vector ? this.exactNeighbors(keptPoints, vector, 1) : [];
+                if (best && best.score >= threshold) match = best.id;
+            }
+            if (match === undefined) continue;
+
+            this.db.addDuplicateSources(match, [doc.source, ...this.duplicateSourcesOf(doc)]);
+            removed.push(doc.id);
+        }
+
+        return this.removeChunks(collectionId, removed);
+    }
+
+    private duplicateSourcesOf(doc: DocumentRecord): string[] {
+        return doc.duplicate_sources ? JSON.parse(doc.duplicate_sources) : [];
+    }
+
+    /**
+     * Import a source file again and drop its previous chunks. The old chunks are
+     * only removed once the new import succeeded, so a file that has become
+     * unreadable keeps its existing content.
+     */
+    async reimportDocument(
+        collectionId: number,
+        source: string,
+        options: ImportOptions = {},
+        onProgress?: ImportProgressCallback
+    ): Promise<DocumentReimportResult> {
+        if (!this.initialized) {
+            await this.initialize();
+        }
+
+        this.assertNotReembedding(collectionId);
+        if (!fs.existsSync(source)) {
+            throw new Error(`Source file no longer exists: ${source}`);
+        }
+
+        const previousIds = this.db.getSourceDocumentIds(collectionId, source);
+        // Old and new chunks overlap, so duplicates must not be skipped here
+        const stats = await this.importFiles(collectionId, [source], {
+            ...options,
+            skipDuplicates: false,
+            isDirectory: false
+        }, onProgress);
+        if (!stats.success || stats.filesProcessed === 0) {
+            throw new Error(stats.errors?.[0]?.error || `Failed to re-import ${source}`);
+        }
+
+        const chunksRemoved = await this.removeChunks(collectionId, previousIds);
+        const { compacted } = await this.compactIndex(collectionId);
+        console.log(`Re-imported ${source} into collection ${collectionId}: -${chunksRemoved} +${stats.vectorCount} chunks`);
+
+        return { chunksRemoved, chunksAdded: stats.vectorCount, compacted };
+    }
+
+    /**
+     * Bring a collection in line with a folder on disk.
+     *
+     * Files whose size and mtime match the stored state are skipped without being
+     * read; otherwise the file hash decides whether the content really changed.
+     * New and changed files are imported in one batch, after which the previous
+     * chunks of the successfully imported changed files are removed, as are the
+     * documents of files that no longer exist under the folder.
+     *
+     * When cancelled, changed files that were not re-imported keep their previous
+     * chunks and vanished files are left for the next sync.
+     */
+    async syncFolder(
+        collectionId: number,
+        folderPath: string,
+        options: ImportOptions = {},
+        onProgress?: ImportProgressCallback
+    ): Promise<SyncSummary> {
+        return this.trackJob(collectionId, () => this.runSync(collectionId, folderPath, options, onProgress));
+    }
+
+    private async runSync(
+        collectionId: number,
+        folderPath: string,
+        options: ImportOptions,
+        onProgress?: ImportProgressCallback
+    ): Promise<SyncSummary> {
+        if (!this.initialized) {
+            await this.initialize();
+        }
+
+        this.assertNotReembedding(collectionId);
+
+        const summary: SyncSummary = {
+            added: 0,
+            updated: 0,
+            removed: 0,
+            unchanged: 0,
+            chunksAdded: 0,
+            chunksRemoved: 0,
+            errors: []
+        };
+
+        const files = this.expandPaths([folderPath], true);
+        const knownFiles = new Map(this.db.getSourceFiles(collectionId).map(record => [record.source, record]));
+        const storedSources = new Set(this.db.getCollectionSources(collectionId));
+
+        const added: string[] = [];
+        const changed: string[] = [];
+        for (const filePath of files) {
+            options.signal?.throwIfAborted();
+            if (!storedSources.has(filePath)) {
+                added.push(filePath);
+                continue;
+            }
+
+            const known = knownFiles.get(filePath);
+            if (!known || options.forceUpdate) {
+                changed.push(filePath);
+                continue;
+            }
+
+            try {
+                const stat = fs.statSync(filePath);
+                if (stat.size === known.size && Math.floor(stat.mtimeMs) === known.mtime_ms) {
+                    summary.unchanged++;
+                } else if (this.generateFileHash(filePath) === known.file_hash) {
+                    // Touched but identical; refresh the stored mtime so it is not hashed again
+                    this.recordSourceFile(collectionId, filePath);
+                    summary.unchanged++;
+                } else {
+                    changed.push(filePath);
+                }
+            } catch (error) {
+                summary.errors.push({
+                    file: filePath,
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        }
+
+        // Capture the chunks that the changed files currently own before importing
+        const previousIds = new Map(changed.map(filePath => [filePath, this.db.getSourceDocumentIds(collectionId, filePath)]));
+
+        const toImport = [...added, ...changed];
+        if (toImport.length > 0) {
+            const stats = await this.importFiles(collectionId, toImport, {
+                ...options,
+                skipDuplicates: false,
+                isDirectory: false
+            }, onProgress);
+            summary.chunksAdded = stats.vectorCount;
+
+            const failed = new Set<string>();
+            for (const error of stats.errors || []) {
+                failed.add(error.file);
+                summary.errors.push({ file: error.file, error: error.error });
+            }
+            if (!stats.success) {
+                // The batch itself failed; keep every previous chunk
+                toImport.forEach(filePath => failed.add(filePath));
+            }
+            if (stats.cancelled) {
+                summary.cancelled = true;
+                stats.pendingFiles?.forEach(filePath => failed.add(filePath));
+            }
+
+            summary.added = added.filter(filePath => !failed.has(filePath)).length;
+            for (const filePath of changed) {
+                if (failed.has(filePath)) continue;
+                summary.chunksRemoved += await this.removeChunks(collectionId, previousIds.get(filePath) || []);
+                summary.updated++;
+            }
+        }
+
+        // Sources under the folder that are no longer on disk
+        if (!summary.cancelled) {
+            const present = new Set(files);
+            const folderPrefix = path.resolve(folderPath) + path.sep;
+            for (const source of storedSources) {
+                if (present.has(source) || !path.resolve(source).startsWith(folderPrefix)) continue;
+
+                summary.chunksRemoved += await this.removeChunks(collectionId, this.db.getSourceDocumentIds(collectionId, source));
+                this.db.deleteSourceFile(collectionId, source);
+                summary.removed++;
+            }
+        }
+
+        await this.compactIndex(collectionId);
+        console.log(
+            `Synced collection ${collectionId} with ${folderPath}: ` +
+            `${summary.added} added, ${summary.updated} updated, ${summary.removed} removed, ${summary.unchanged} unchanged`
+        );
+
+        return summary;
+    }
+
+    /**
+     * Rebuild a collection's index without its deleted points. Unless forced, this
+     * only happens once they make up more than COMPACTION_THRESHOLD of the index;
+     * otherwise the index is just saved with its deletion marks.
+     */
+    async compactIndex(collectionId: number, force: boolean = false): Promise<CompactionResult> {
+        if (!this.initialized) {
+            await this.initialize();
+        }
+
+        this.assertNotReembedding(collectionId);
+        const index = await this.getIndex(collectionId);
+
+        // getIdsList() still reports marked-deleted labels; SQLite knows which are live
+        const liveIds = new Set(this.db.getCollectionDocumentIds(collectionId));
+        const labels = index.getIdsList();
+        const liveLabels = labels.filter(label => liveIds.has(label));
+        const deletedCount = labels.length - liveLabels.length;
+
+        if (deletedCount === 0 || (!force && deletedCount / labels.length <= COMPACTION_THRESHOLD)) {
+            await this.saveIndex(collectionId);
+            return { compacted: false, liveCount: liveLabels.length, deletedCount };
+        }
+
+        const collection = await this.requireCollection(collectionId);
+        this.swapIndex(
+            collectionId,
+            this.rebuildIndex(index, liveLabels, collection.hnsw),
+            await this.getEmbeddingModelId(collectionId),
+            collection.hnsw
+        );
+        console.log(`Compacted index for collection ${collectionId}: dropped ${deletedCount} deleted points`);
+
+        return { compacted: true, liveCount: liveLabels.length, deletedCount };
+    }
+
+    /**
+     * Rebuild a collection's index from the vectors stored in SQLite, without
+     * running the embedding model. Chunks imported before vectors were stored
+     * are taken from the current index when it still has them, and their vectors
+     * are saved so later rebuilds do not depend on the index. Chunks with no
+     * vector anywhere are counted as missing and need a re-embed.
+     */
+    async rebuildIndexFromDatabase(collectionId: number): Promise<RebuildIndexResult> {
+        if (!this.initialized) {
+            await this.initialize();
+        }
+
+        this.assertNotReembedding(collectionId);
+        const collection = await this.requireCollection(collectionId);
+        const dimension = await this.getCollectionDimension(collectionId);
+
+        let current: HierarchicalNSW | undefined;
+        try {
+            current = await this.getIndex(collectionId);
+        } catch (error) {
+            console.warn(`Current index of collection ${collectionId} is not available:`, error);
+        }
+
+        const result: RebuildIndexResult = { vectorCount: 0, restoredFromIndex: 0, missing: 0 };
+        const index = this.createIndex(dimension, this.db.countCollectionDocuments(collectionId), collection.hnsw);
+        const backfill: Parameters<DatabaseManager['setDocumentEmbeddings']>[0] = [];
+
+        for (const row of this.db.iterateCollectionEmbeddings(collectionId)) {
+            let vector: Float32Array | number[] | undefined;
+            if (row.embedding) {
+                vector = decodeEmbedding(row.embedding, row.embedding_format, row.embedding_scale);
+            } else if (current) {
+                try {
+                    const point: number[] = current.getPoint(row.id);
+                    const encoded = encodeEmbedding(point, collection.embeddingStorage);
+                    vector = point;
+                    backfill.push({
+                        id: row.id,
+                        embedding: encoded.blob,
+                        embedding_format: encoded.format,
+                        embedding_scale: encoded.scale
+                    });
+                    result.restoredFromIndex++;
+                } catch {
+                    // Not in the index either
+                }
+            }
+
+            if (!vector) {
+                result.missing++;
+                continue;
+            }
+            if (vector.length !== dimension) {
+                throw new Error(`Stored vector of chunk ${row.id} has ${vector.length} dimensions, expected ${dimension}`);
+            }
+
+            this.addVector(index, vector, row.id);
+            result.vectorCount++;
+        }
+
+        // Rows can only be written once the iterator above has finished
+        this.db.setDocumentEmbeddings(backfill);
+        this.swapIndex(collectionId, index, await this.getEmbeddingModelId(collectionId), collection.hnsw);
+        console.log(
+            `Rebuilt index for collection ${collectionId} from SQLite: ${result.vectorCount} vectors, ` +
+            `${result.restoredFromIndex} taken from the previous index, ${result.missing} missing`
+        );
+
+        return result;
+    }
+
+    /**
+     * Measure how much of the exact top-k HNSW finds. Indexed vectors are sampled
+     * as queries (each query's own label is left out of both result lists) and
+     * searched once per ef value, so different ef settings can be compared on the
+     * collection's actual data.
+     */
+    async measureRecall(collectionId: number, options: RecallOptions = {}): Promise<RecallReport> {
+        if (!this.initialized) {
+            await this.initialize();
+        }
+
+        const { k = 10, sampleSize = 50 } = options;
+        if (!Number.isInteger(k) || k < 1) {
+            throw new Error('k must be a positive integer');
+        }
+        if (!Number.isInteger(sampleSize) || sampleSize < 1) {
+            throw new Error('sampleSize must be a positive integer');
+        }
+
+        const collection = await this.requireCollection(collectionId);
+        const index = await this.getIndex(collectionId);
+        const efValues = Array.from(new Set(options.efValues?.length ? options.efValues : [collection.hnsw.efSearch]));
+        if (efValues.some(ef => !Number.isInteger(ef) || ef < 1)) {
+            throw new Error('ef values must be positive integers');
+        }
+
+        const points = this.readIndexPoints(index);
+        if (points.length < 2) {
+            throw new Error('Recall needs at least two vectors in the index');
+        }
+
+        // Partial Fisher-Yates shuffle for an unbiased sample of query points
+        const pool = [...points];
+        const count = Math.min(sampleSize, pool.length);
+        for (let i = 0; i < count; i++) {
+            const j = i + Math.floor(Math.random() * (pool.length - i));
+            [pool[i], pool[j]] = [pool[j], pool[i]];
+        }
+        const queries = pool.slice(0, count);
+
+        const neighborCount = Math.min(k + 1, points.length);
+        let exactTime = 0;
+        const truth = queries.map(query => {
+            const start = performance.now();
+            const neighbors = this.exactNeighbors(points, query.vector, neighborCount);
+            exactTime += performance.now() - start;
+            return new Set(neighbors.map(n => n.id).filter(id => id !== query.label).slice(0, k));
+        });
+
+        const measurements = efValues.map(ef => this.withEf(index, ef, () => {
+            let recallSum = 0;
+            let searchTime = 0;
+            queries.forEach((query, i) => {
+                const start = performance.now();
+                const result = index.searchKnn(Array.from(query.vector), neighborCount);
+                searchTime += performance.now() - start;
+
+                const found = result.neighbors.filter(id => id !== query.label).slice(0, k);
+                const hits = found.filter(id => truth[i].has(id)).length;
+                recallSum += truth[i].size > 0 ? hits / truth[i].size : 1;
+            });
+
+            return { ef, recall: recallSum / queries.length, meanLatencyMs: searchTime / queries.length };
+        }));
+
+        return {
+            collectionId,
+            k,
+            sampleSize: queries.length,
+            vectorCount: points.length,
+            hnsw: collection.hnsw,
+            exactMeanLatencyMs: exactTime / queries.length,
+            measurements
+        };
+    }
+
+    getEmbeddingCacheStats(): EmbeddingCacheStats {
+        return this.embeddingCache.getStats();
+    }
+
+    setEmbeddingCacheLimit(maxBytes: number): EmbeddingCacheStats {
+        this.embeddingCache.setMaxBytes(maxBytes);
+        return this.embeddingCache.getStats();
+    }
+
+    clearEmbeddingCache(): void {
+        this.embeddingCache.clear();
+    }
+
+    /**
+     * Compare a collection's document rows with the labels in its index.
+     */
+    async verifyCollection(collectionId: number): Promise<Omit<VerifyReport, 'statistics'>> {
+        if (!this.initialized) {
+            await this.initialize();
+        }
+
+        const inspection = await this.inspectCollection(collectionId);
+        const issue = (ids: number[]): VerifyIssue => ({ count: ids.length, sample: ids.slice(0, VERIFY_SAMPLE_SIZE) });
+        const indexDimension = inspection.index.getNumDimensions();
+        const hasVectors = inspection.liveLabels.size > 0;
+
+        return {
+            collectionId,
+            documentCount: inspection.documentIds.size,
+            indexElementCount: inspection.liveLabels.size,
+            deletedLabelCount: inspection.deletedLabelCount,
+            orphanedLabels: issue(inspection.orphanedLabels),
+            documentsWithoutVector: issue(inspection.documentsWithoutVector),
+            duplicateLabels: issue(inspection.duplicateLabels),
+            dimension: {
+                index: indexDimension,
+                collection: inspection.collectionDimension,
+                provider: inspection.providerDimension,
+                storedVectorMismatches: issue(inspection.storedVectorMismatches)
+            },
+            isConsistent:
+                inspection.orphanedLabels.length === 0 &&
+                inspection.documentsWithoutVector.length === 0 &&
+                inspection.duplicateLabels.length === 0 &&
+                inspection.storedVectorMismatches.length === 0 &&
+                (!hasVectors || inspection.collectionDimension === indexDimension) &&
+                (!hasVectors || !inspection.providerDimension || inspection.providerDimension === indexDimension)
+        };
+    }
+
+    /**
+     * Fix what verifyCollection reports, as far as possible without a re-embed of
+     * the whole collection: orphaned labels are marked deleted, missing vectors are
+     * restored from SQLite or embedded again, and stored vectors of the wrong size
+     * are replaced from the index. A provider whose dimension no longer matches the
+     * index is only reported; that needs a full re-embed.
+     */
+    async repairCollection(collectionId: number): Promise<Omit<RepairResult, 'statisticsSynced' | 'report'>> {
+        if (!this.initialized) {
+            await this.initialize();
+        }
+
+        this.assertNotReembedding(collectionId);
+        const result: Omit<RepairResult, 'statisticsSynced' | 'report'> = {
+            orphanedLabelsRemoved: 0,
+            vectorsRestored: 0,
+            vectorsReembedded: 0,
+            storedVectorsFixed: 0,
+            duplicatesResolved: false
+        };
+
+        let inspection = await this.inspectCollection(collectionId);
+        if (inspection.duplicateLabels.length > 0) {
+            await this.rebuildIndexFromDatabase(collectionId);
+            inspection = await this.inspectCollection(collectionId);
+            result.duplicatesResolved = true;
+        }
+
+        const { index } = inspection;
+        const collection = await this.requireCollection(collectionId);
+
+        for (const label of inspection.orphanedLabels) {
+            index.markDelete(label);
+            result.orphanedLabelsRemoved++;
+        }
+
+        const fixedVectors: Parameters<DatabaseManager['setDocumentEmbeddings']>[0] = [];
+        const unfixable: number[] = [];
+        for (const documentId of inspection.storedVectorMismatches) {
+            if (inspection.liveLabels.has(documentId)) {
+                const encoded = encodeEmbedding(index.getPoint(documentId), collection.embeddingStorage);
+                fixedVectors.push({
+                    id: documentId,
+                    embedding: encoded.blob,
+                    embedding_format: encoded.format,
+                    embedding_scale: encoded.scale
+                });
+            } else {
+                unfixable.push(documentId);
+            }
+        }
+        this.db.setDocumentEmbeddings(fixedVectors);
+        this.db.clearDocumentEmbeddings(unfixable);
+        result.storedVectorsFixed = fixedVectors.length + unfixable.length;
+
+        const canEmbed = !inspection.providerDimension || inspection.providerDimension === index.getNumDimensions();
+        const embedder = canEmbed && inspection.documentsWithoutVector.length > 0
+            ? await this.getCollectionEmbedder(collectionId)
+            : undefined;
+
+        for (const documentId of inspection.documentsWithoutVector) {
+            const doc = this.db.getDocument(documentId);
+            if (!doc) continue;
+
+            if (doc.embedding) {
+                this.addVector(index, decodeEmbedding(doc.embedding, doc.embedding_format, doc.embedding_scale), documentId);
+                result.vectorsRestored++;
+            } else if (embedder) {
+                const vector = await this.generateEmbedding(embedder, index, doc.content);
+                const encoded = encodeEmbedding(vector, collection.embeddingStorage);
+                this.db.setDocumentEmbeddings([{
+                    id: documentId,
+                    embedding: encoded.blob,
+                    embedding_format: encoded.format,
+                    embedding_scale: encoded.scale
+                }]);
+                this.addVector(index, vector, documentId);
+                result.vectorsReembedded++;
+            }
+        }
+
+        if (index.getCurrentCount() > 0 && collection.dimension !== index.getNumDimensions()) {
+            this.collectionService.setDimension(collectionId, index.getNumDimensions());
+        }
+
+        await this.saveIndex(collectionId);
+        console.log(`Repaired collection ${collectionId}: ${JSON.stringify(result)}`);
+        return result;
+    }
+
+    private async inspectCollection(collectionId: number): Promise<CollectionInspection> {
+        const collection = await this.requireCollection(collectionId);
+        const index = await this.getIndex(collectionId);
+        const documentIds = new Set(this.db.getCollectionDocumentIds(collectionId));
+
+        const seen = new Set<number>();
+        const liveLabels = new Set<number>();
+        const duplicateLabels: number[] = [];
+        const orphanedLabels: number[] = [];
+        let deletedLabelCount = 0;
+
+        for (const label of index.getIdsList()) {
+            if (seen.has(label)) {
+                duplicateLabels.push(label);
+                continue;
+            }
+            seen.add(label);
+
+            // getPoint() refuses labels that are marked deleted
+            try {
+                index.getPoint(label);
+            } catch {
+                deletedLabelCount++;
+                continue;
+            }
+
+            liveLabels.add(label);
+            if (!documentIds.has(label)) {
+                orphanedLabels.push(label);
+            }
+        }
+
+        const indexDimension = index.getNumDimensions();
+        const provider = await this.embeddingProviderService.getProviderById(collection.embeddingProviderId);
+
+        return {
+            index,
+            documentIds,
+            liveLabels,
+            deletedLabelCount,
+            orphanedLabels,
+            documentsWithoutVector: Array.from(documentIds).filter(id => !liveLabels.has(id)),
+            duplicateLabels,
+            storedVectorMismatches: this.db.getStoredEmbeddingDimensions(collectionId)
+                .filter(row => row.dimension !== indexDimension)
+                .map(row => row.id),
+            collectionDimension: collection.dimension,
+            providerDimension: provider?.dimension
+        };
+    }
+
+    /**
+     * Change a collection's HNSW parameters. A new ef takes effect immediately;
+     * a new M or efConstruction rebuilds the index from its stored vectors.
+     */
+    async updateIndexParameters(collectionId: number, params: Partial<HnswParameters>): Promise<CollectionResponse> {
+        if (!this.initialized) {
+            await this.initialize();
+        }
+
+        this.assertNotReembedding(collectionId);
+        const previous = (await this.requireCollection(collectionId)).hnsw;
+        const result = await this.collectionService.updateHnswParameters(collectionId, params);
+        if (!result.success || !result.collection) {
+            return result;
+        }
+
+        const hnsw = result.collection.hnsw;
+        if (hnsw.m !== previous.m || hnsw.efConstruction !== previous.efConstruction) {
+            const index = await this.getIndex(collectionId);
+            const liveIds = new Set(this.db.getCollectionDocumentIds(collectionId));
+            const labels = index.getIdsList().filter(label => liveIds.has(label));
+
+            this.swapIndex(collectionId, this.rebuildIndex(index, labels, hnsw), await this.getEmbeddingModelId(collectionId), hnsw);
+            console.log(`Rebuilt index for collection ${collectionId} with M=${hnsw.m}, efConstruction=${hnsw.efConstruction}`);
+        } else {
+            (await this.getIndex(collectionId)).setEf(hnsw.efSearch);
+            await this.saveIndex(collectionId);
+        }
+
+        return result;
+    }
+
+    /**
+     * Copy the given labels' vectors into a new index built with the given parameters.
+     */
+    private rebuildIndex(source: HierarchicalNSW, labels: number[], hnsw: HnswParameters): HierarchicalNSW {
+        const index = this.createIndex(source.getNumDimensions(), labels.length, hnsw);
+        for (const label of labels) {
+            this.addVector(index, source.getPoint(label), label);
+        }
+        return index;
+    }
+
+    /**
+     * Mark chunks deleted in the index and remove their rows from SQLite.
+     */
+    private async removeChunks(collectionId: number, documentIds: number[]): Promise<number> {
+        const index = await this.getIndex(collectionId);
+        for (const documentId of documentIds) {
+            try {
+                index.markDelete(documentId);
+            } catch {
+                // The chunk never made it into the index
+            }
+        }
+
+        return this.db.deleteDocuments(documentIds);
+    }
+
+    /**
+     * Forget a collection's index and remove its files, including snapshots, from disk.
+     */
+    dropCollectionIndex(collectionId: number): void {
+        this.indexes.delete(collectionId);
+
+        if (this.storage.exists(collectionId)) {
+            console.log(`Removing index files for collection ${collectionId}`);
+        }
+        this.storage.remove(collectionId);
+    }
+
+    getSupportedExtensions(): string[] {
+        return this.processorRegistry.getSupportedExtensions();
+    }
+
+    async close(): Promise<void> {
+        if (this.initialized) {
+            try {
+                for (const [collectionId, index] of this.indexes.entries()) {
+                    if (index.getCurrentCount() > 0) {
+                        await this.saveIndex(collectionId);
+                    }
                 }
+                console.log('Vector indexes saved successfully');
                 this.db.close();
             } catch (error) {
                 console.error('Error during close:', error);
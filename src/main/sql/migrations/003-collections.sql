@@ -0,0 +1,32 @@
+-- Migration 003: Collections
+
+-- Collections group documents and own a dedicated HNSW index file
+CREATE TABLE IF NOT EXISTS collections (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL UNIQUE,
+    description TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    last_import DATETIME
+);
+
+-- Default collection that receives everything imported before collections existed
+INSERT OR IGNORE INTO collections (id, name, description)
+VALUES (1, 'Default', 'Default collection');
+
+-- Document chunks; the row id doubles as the label in the collection's HNSW index
+CREATE TABLE IF NOT EXISTS documents (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    collection_id INTEGER NOT NULL DEFAULT 1,
+    content TEXT NOT NULL,
+    source TEXT NOT NULL,
+    type TEXT,
+    title TEXT,
+    category TEXT,
+    content_hash TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (collection_id) REFERENCES collections(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_documents_collection ON documents(collection_id);
+CREATE INDEX IF NOT EXISTS idx_documents_collection_source ON documents(collection_id, source);
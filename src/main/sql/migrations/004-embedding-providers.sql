@@ -0,0 +1,20 @@
+-- Migration 004: Embedding Providers
+
+-- Embedding providers live next to the LLM providers
+CREATE TABLE IF NOT EXISTS embedding_providers (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL UNIQUE,
+    type TEXT NOT NULL,
+    config TEXT NOT NULL,
+    dimension INTEGER,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    last_used DATETIME
+);
+
+-- Built-in in-process model that was previously hard-wired into the vector store
+INSERT OR IGNORE INTO embedding_providers (id, name, type, config, dimension)
+VALUES (1, 'MiniLM (built-in)', 'xenova', '{"model":"Xenova/all-MiniLM-L6-v2"}', 384);
+
+-- Each collection embeds with exactly one provider; dimension is fixed once its index exists
+ALTER TABLE collections ADD COLUMN embedding_provider_id INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE collections ADD COLUMN dimension INTEGER;
@@ -0,0 +1,33 @@
+-- Migration 005: Full-text index over document chunks
+
+-- External-content FTS5 table so chunk text is stored only once; underscores are
+-- kept inside tokens so identifiers such as procedure names match as a whole
+CREATE VIRTUAL TABLE IF NOT EXISTS documents_fts USING fts5(
+    content,
+    title,
+    source,
+    content = 'documents',
+    content_rowid = 'id',
+    tokenize = "unicode61 tokenchars '_'"
+);
+
+-- Keep the full-text index in step with the documents table
+CREATE TRIGGER IF NOT EXISTS documents_fts_insert AFTER INSERT ON documents BEGIN
+    INSERT INTO documents_fts (rowid, content, title, source)
+    VALUES (new.id, new.content, new.title, new.source);
+END;
+
+CREATE TRIGGER IF NOT EXISTS documents_fts_delete AFTER DELETE ON documents BEGIN
+    INSERT INTO documents_fts (documents_fts, rowid, content, title, source)
+    VALUES ('delete', old.id, old.content, old.title, old.source);
+END;
+
+CREATE TRIGGER IF NOT EXISTS documents_fts_update AFTER UPDATE OF content, title, source ON documents BEGIN
+    INSERT INTO documents_fts (documents_fts, rowid, content, title, source)
+    VALUES ('delete', old.id, old.content, old.title, old.source);
+    INSERT INTO documents_fts (rowid, content, title, source)
+    VALUES (new.id, new.content, new.title, new.source);
+END;
+
+-- Index the chunks imported before this migration
+INSERT INTO documents_fts (documents_fts) VALUES ('rebuild');
@@ -0,0 +1,13 @@
+-- Migration 006: Source file state for incremental folder sync
+
+-- One row per imported file, describing the version whose chunks are stored
+CREATE TABLE IF NOT EXISTS source_files (
+    collection_id INTEGER NOT NULL,
+    source TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    mtime_ms INTEGER NOT NULL,
+    file_hash TEXT NOT NULL,
+    imported_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (collection_id, source),
+    FOREIGN KEY (collection_id) REFERENCES collections(id) ON DELETE CASCADE
+);
@@ -0,0 +1,7 @@
+-- Migration 007: Per-collection HNSW parameters
+
+-- M and ef_construction shape the graph and only take effect when an index is
+-- built; ef_search is applied whenever the index is loaded
+ALTER TABLE collections ADD COLUMN hnsw_m INTEGER NOT NULL DEFAULT 16;
+ALTER TABLE collections ADD COLUMN hnsw_ef_construction INTEGER NOT NULL DEFAULT 200;
+ALTER TABLE collections ADD COLUMN hnsw_ef_search INTEGER NOT NULL DEFAULT 50;
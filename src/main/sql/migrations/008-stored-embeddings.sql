@@ -0,0 +1,10 @@
+-- Migration 008: Embeddings stored next to their chunks
+
+-- Each chunk keeps its vector so an index can be rebuilt without the embedding
+-- model. Vectors are float32, or int8 with a per-vector scale to save space
+ALTER TABLE documents ADD COLUMN embedding BLOB;
+ALTER TABLE documents ADD COLUMN embedding_format TEXT;
+ALTER TABLE documents ADD COLUMN embedding_scale REAL;
+
+-- Format used for newly stored vectors of a collection: 'float32' or 'int8'
+ALTER TABLE collections ADD COLUMN embedding_storage TEXT NOT NULL DEFAULT 'float32';
@@ -0,0 +1,19 @@
+-- Migration 009: Embedding cache
+
+-- Vectors keyed by the model that produced them and the SHA-256 of the embedded
+-- text, so identical text is never embedded twice by the same model. Entries are
+-- evicted least recently used first once the cache exceeds its size limit
+CREATE TABLE IF NOT EXISTS embedding_cache (
+    model_id TEXT NOT NULL,
+    content_hash TEXT NOT NULL,
+    dimension INTEGER NOT NULL,
+    embedding BLOB NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    last_used_at INTEGER NOT NULL,
+    PRIMARY KEY (model_id, content_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_embedding_cache_last_used ON embedding_cache(last_used_at);
+
+ALTER TABLE statistics ADD COLUMN embedding_cache_hits INTEGER DEFAULT 0;
+ALTER TABLE statistics ADD COLUMN embedding_cache_misses INTEGER DEFAULT 0;
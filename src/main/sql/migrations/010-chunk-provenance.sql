@@ -0,0 +1,12 @@
+-- Migration 010: Where in its source file each chunk came from
+
+-- All columns are optional: processors fill in what their format allows, e.g.
+-- a page number for PDFs or line ranges for text. Lines are 1-based and
+-- inclusive, offsets are 0-based character positions with an exclusive end,
+-- and heading_path is a JSON array of the enclosing headings, outermost first
+ALTER TABLE documents ADD COLUMN page INTEGER;
+ALTER TABLE documents ADD COLUMN start_line INTEGER;
+ALTER TABLE documents ADD COLUMN end_line INTEGER;
+ALTER TABLE documents ADD COLUMN start_offset INTEGER;
+ALTER TABLE documents ADD COLUMN end_offset INTEGER;
+ALTER TABLE documents ADD COLUMN heading_path TEXT;
@@ -0,0 +1,17 @@
+-- Migration 011: Position of each chunk within its document
+
+-- chunk_index is the 0-based position of the chunk in the processor's output
+-- for its file, so neighbouring chunks can be fetched for context
+ALTER TABLE documents ADD COLUMN chunk_index INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_documents_chunk_order ON documents(collection_id, source, chunk_index);
+
+-- Chunks were always inserted in file order, so ids give the order of existing rows
+UPDATE documents
+SET chunk_index = (
+    SELECT COUNT(*)
+    FROM documents AS earlier
+    WHERE earlier.collection_id = documents.collection_id
+      AND earlier.source = documents.source
+      AND earlier.id < documents.id
+);
@@ -0,0 +1,6 @@
+-- Migration 012: Sources of duplicate chunks merged into a kept chunk
+
+-- duplicate_sources is a JSON array of the other files that contained this
+-- chunk (or a near-identical one) before their copies were merged into it, so
+-- search results can still say where else the text appears
+ALTER TABLE documents ADD COLUMN duplicate_sources TEXT;
@@ -0,0 +1,20 @@
+-- Migration 013: Topics found by clustering a collection's chunks
+
+-- One row per cluster of the latest clustering run of a collection. The label
+-- is written by an LLM from the chunks nearest the cluster centre, which are
+-- kept in representative_ids as a JSON array of document ids
+CREATE TABLE IF NOT EXISTS topics (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    collection_id INTEGER NOT NULL,
+    label TEXT NOT NULL,
+    representative_ids TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (collection_id) REFERENCES collections(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_topics_collection ON topics(collection_id);
+
+-- Chunks imported after the last clustering run have no topic until it is run again
+ALTER TABLE documents ADD COLUMN topic_id INTEGER REFERENCES topics(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_documents_topic ON documents(collection_id, topic_id);
@@ -0,0 +1,8 @@
+-- Migration 014: Embedding cache size limit
+
+-- Single row holding the size limit chosen for the embedding cache; the
+-- built-in default applies while it is missing
+CREATE TABLE IF NOT EXISTS embedding_cache_settings (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    max_bytes INTEGER NOT NULL
+);
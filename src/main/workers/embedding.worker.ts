@@ -0,0 +1,30 @@
+import { parentPort, workerData } from 'worker_threads';
+import { createEmbedder } from '../services/embedders';
+import {
+    EmbeddingWorkerData,
+    EmbeddingWorkerRequest,
+    EmbeddingWorkerResponse
+} from '../services/embedding-pipeline';
+
+// Runs on a worker thread started by EmbeddingPipeline
+const port = parentPort;
+if (!port) {
+    throw new Error('The embedding worker must be started as a worker thread');
+}
+
+const embedder = createEmbedder((workerData as EmbeddingWorkerData).provider);
+
+port.on('message', async (request: EmbeddingWorkerRequest) => {
+    try {
+        const vectors = await embedder.embed(request.texts);
+        const response: EmbeddingWorkerResponse = { id: request.id, vectors };
+        // Hand the vector buffers over instead of copying them
+        port.postMessage(response, Array.from(new Set(vectors.map(vector => vector.buffer as ArrayBuffer))));
+    } catch (error) {
+        const response: EmbeddingWorkerResponse = {
+            id: request.id,
+            error: error instanceof Error ? error.message : String(error)
+        };
+        port.postMessage(response);
+    }
+});
@@ -5,6 +5,8 @@ import ChatInterface from './components/ChatInterface';
 import SettingsTab from './components/settings/SettingsTab';
 import VectorDBStats from './components/VectorDBStats';
 import DatabaseManagement from './components/DatabaseManagement';
+import CollectionSelector from './components/CollectionSelector';
+import { DEFAULT_COLLECTION_ID } from '../shared/types/collection';
 
 // Define the TabPanel component
 interface TabPanelProps {
@@ -38,6 +40,7 @@ function App() {
   const [tabValue, setTabValue] = useState(0);
   const [apisReady, setApisReady] = useState(false);
   const [retryCount, setRetryCount] = useState(0);
+  const [collectionId, setCollectionId] = useState(DEFAULT_COLLECTION_ID);
 
   // Check if APIs are available
   useEffect(() => {
@@ -48,7 +51,9 @@ function App() {
         window.statistics,
         window.rag,
         window.llmProvider,
-        window.modelCatalog
+        window.modelCatalog,
+        window.collections,
+        window.documents
       ];
 
       const allApisAvailable = apis.every(api => api !== undefined);
@@ -97,9 +102,15 @@ function App() {
 
   return (
     <Container maxWidth="xl" sx={{ mt: 2 }}>
-      <Typography variant="h4" component="h1" gutterBottom>
-        VectorDB Manager
-      </Typography>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <Typography variant="h4" component="h1">
+          VectorDB Manager
+        </Typography>
+        <CollectionSelector
+          selectedCollectionId={collectionId}
+          onCollectionChange={setCollectionId}
+        />
+      </Box>
       
       <Box sx={{ borderBottom: 1, borderColor: 'divider' }}>
         <Tabs value={tabValue} onChange={handleTabChange}>
@@ -113,12 +124,12 @@ function App() {
       <TabPanel value={tabValue} index={0}>
         <Box sx={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
           <VectorDBStats />
-          <SearchInterface />
+          <SearchInterface collectionId={collectionId} />
         </Box>
       </TabPanel>
       
       <TabPanel value={tabValue} index={1}>
-        <ChatInterface />
+        <ChatInterface collectionId={collectionId} />
       </TabPanel>
       
       <TabPanel value={tabValue} index={2}>
@@ -126,7 +137,7 @@ function App() {
       </TabPanel>
       
       <TabPanel value={tabValue} index={3}>
-        <DatabaseManagement />
+        <DatabaseManagement collectionId={collectionId} />
       </TabPanel>
     </Container>
   );
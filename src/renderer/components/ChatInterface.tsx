@@ -1,22 +1,53 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Box, TextField, Button, Typography, Paper, CircularProgress, Tooltip } from '@mui/material';
+import {
+  Box,
+  TextField,
+  Button,
+  Typography,
+  Paper,
+  CircularProgress,
+  Tooltip,
+  FormControlLabel,
+  Switch,
+  Slider,
+  MenuItem
+} from '@mui/material';
 import SendIcon from '@mui/icons-material/Send';
 import MessageDisplay from './MessageDisplay';
 import LLMProviderSelector from './LLMProviderSelector';
 import { OllamaApiClient } from '../services/ollama-api';
+import { RetrievalStrategy, RetrievalTrace } from '../../shared/types/api';
 
 interface Message {
   role: 'user' | 'assistant';
   content: string;
+  /** Searches that found the context for an assistant answer */
+  retrieval?: RetrievalTrace;
 }
 
-const ChatInterface: React.FC = () => {
+const RETRIEVAL_LABELS: Record<RetrievalStrategy, string> = {
+  single: 'Single query',
+  'multi-query': 'Multi-query',
+  hyde: 'HyDE'
+};
+
+interface ChatInterfaceProps {
+  collectionId: number;
+}
+
+const ChatInterface: React.FC<ChatInterfaceProps> = ({ collectionId }) => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [selectedProvider, setSelectedProvider] = useState<any>(null);
   const [prompt, setPrompt] = useState<string | null>(null);
+  const [diversifySources, setDiversifySources] = useState(false);
+  const [mmrLambda, setMmrLambda] = useState(0.5);
+  const [rerankSources, setRerankSources] = useState(false);
+  const [neighbourChunks, setNeighbourChunks] = useState(0);
+  const [retrieval, setRetrieval] = useState<RetrievalStrategy>('single');
+  const [operationId, setOperationId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const ollamaClientRef = useRef<OllamaApiClient | null>(null);
 
@@ -112,41 +143,44 @@ const ChatInterface: React.FC = () => {
     setPrompt(null);
 
     try {
-      // For Ollama, use direct browser fetch
-      if (selectedProvider.type === 'ollama' && ollamaClientRef.current) {
-        try {
-          const response = await ollamaClientRef.current.generateResponse(
-            selectedProvider.config.model,
-            input
-          );
-          
-          const assistantMessage: Message = { role: 'assistant', content: response };
-          setMessages(prev => [...prev, assistantMessage]);
-        } catch (err) {
-          console.error('Error generating response with direct fetch:', err);
-          setError(`Failed to generate response: ${err instanceof Error ? err.message : String(err)}`);
+      // Every provider, Ollama included, answers through the RAG service so the
+      // retrieval options apply; the id lets the question be cancelled
+      const questionId = crypto.randomUUID();
+      setOperationId(questionId);
+      const result = await window.rag.askQuestion(input, selectedProvider.id, {
+        collectionId,
+        mmrLambda: diversifySources ? mmrLambda : undefined,
+        rerank: rerankSources ? {} : undefined,
+        contextWindow: neighbourChunks || undefined,
+        retrieval,
+        operationId: questionId
+      });
+
+      if (result.success) {
+        const assistantMessage: Message = { role: 'assistant', content: result.response, retrieval: result.retrieval };
+        setMessages(prev => [...prev, assistantMessage]);
+
+        // If the response includes a prompt, store it
+        if (result.prompt) {
+          setPrompt(result.prompt);
         }
+      } else if (result.cancelled) {
+        setError('❌ Question cancelled');
       } else {
-        // For other providers, use RAG service
-        const result = await window.rag.askQuestion(input, { provider: selectedProvider });
-        
-        if (result.success) {
-          const assistantMessage: Message = { role: 'assistant', content: result.response };
-          setMessages(prev => [...prev, assistantMessage]);
-          
-          // If the response includes a prompt, store it
-          if (result.prompt) {
-            setPrompt(result.prompt);
-          }
-        } else {
-          setError(`Failed to process your question: ${result.error}`);
-        }
+        setError(`Failed to process your question: ${result.error}`);
       }
     } catch (err) {
       console.error('Error sending message:', err);
       setError(`Error: ${err instanceof Error ? err.message : String(err)}`);
     } finally {
       setIsLoading(false);
+      setOperationId(null);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (operationId) {
+      await window.operation.cancel(operationId);
     }
   };
 
@@ -166,6 +200,79 @@ const ChatInterface: React.FC = () => {
         >
           Test Connection
         </Button>
+
+        <Tooltip title="Pick context chunks that are relevant but not near-duplicates of each other">
+          <FormControlLabel
+            control={
+              <Switch
+                size="small"
+                checked={diversifySources}
+                onChange={e => setDiversifySources(e.target.checked)}
+              />
+            }
+            label={<Typography variant="caption">Diverse sources</Typography>}
+          />
+        </Tooltip>
+        {diversifySources && (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, width: 200 }}>
+            <Typography variant="caption" color="text.secondary" noWrap>
+              Relevance λ
+            </Typography>
+            <Slider
+              size="small"
+              min={0}
+              max={1}
+              step={0.05}
+              value={mmrLambda}
+              valueLabelDisplay="auto"
+              onChange={(_, value) => setMmrLambda(value as number)}
+            />
+          </Box>
+        )}
+        <Tooltip title="Rescore retrieved chunks with a local cross-encoder before building the prompt">
+          <FormControlLabel
+            control={
+              <Switch
+                size="small"
+                checked={rerankSources}
+                onChange={e => setRerankSources(e.target.checked)}
+              />
+            }
+            label={<Typography variant="caption">Rerank sources</Typography>}
+          />
+        </Tooltip>
+        <Tooltip title="Give the model the chunks around each retrieved chunk as well">
+          <TextField
+            select
+            size="small"
+            label="Neighbours"
+            value={neighbourChunks}
+            onChange={e => setNeighbourChunks(Number(e.target.value))}
+            sx={{ width: 120 }}
+          >
+            {[0, 1, 2, 3].map(count => (
+              <MenuItem key={count} value={count}>
+                {count === 0 ? 'None' : `±${count}`}
+              </MenuItem>
+            ))}
+          </TextField>
+        </Tooltip>
+        <Tooltip title="Multi-query searches LLM-written paraphrases too; HyDE searches with a hypothetical answer written by the LLM">
+          <TextField
+            select
+            size="small"
+            label="Retrieval"
+            value={retrieval}
+            onChange={e => setRetrieval(e.target.value as RetrievalStrategy)}
+            sx={{ width: 140 }}
+          >
+            {(Object.keys(RETRIEVAL_LABELS) as RetrievalStrategy[]).map(strategy => (
+              <MenuItem key={strategy} value={strategy}>
+                {RETRIEVAL_LABELS[strategy]}
+              </MenuItem>
+            ))}
+          </TextField>
+        </Tooltip>
       </Box>
 
       {error && (
@@ -204,7 +311,27 @@ const ChatInterface: React.FC = () => {
         ) : (
           <>
             {messages.map((message, index) => (
-              <MessageDisplay key={index} message={message} />
+              <React.Fragment key={index}>
+                <MessageDisplay message={message} />
+                {message.retrieval && message.retrieval.strategy !== 'single' && (
+                  <Box sx={{ mb: 1, px: 1 }}>
+                    <Typography variant="caption" color="text.secondary" sx={{ fontWeight: 'bold' }}>
+                      {RETRIEVAL_LABELS[message.retrieval.strategy]} searches:
+                    </Typography>
+                    {message.retrieval.queries.map((text, i) => (
+                      <Typography
+                        key={i}
+                        variant="caption"
+                        color="text.secondary"
+                        component="div"
+                        sx={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}
+                      >
+                        {i + 1}. {text}
+                      </Typography>
+                    ))}
+                  </Box>
+                )}
+              </React.Fragment>
             ))}
             <div ref={messagesEndRef} />
           </>
@@ -253,6 +380,11 @@ const ChatInterface: React.FC = () => {
         >
           Send
         </Button>
+        {isLoading && operationId && (
+          <Button variant="outlined" color="error" onClick={handleCancel}>
+            Stop
+          </Button>
+        )}
       </Box>
     </Box>
   );
@@ -0,0 +1,307 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  IconButton,
+  InputLabel,
+  LinearProgress,
+  MenuItem,
+  Select,
+  SelectChangeEvent,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import EditIcon from '@mui/icons-material/Edit';
+import DeleteIcon from '@mui/icons-material/Delete';
+import SyncIcon from '@mui/icons-material/Sync';
+import TuneIcon from '@mui/icons-material/Tune';
+import {
+  Collection,
+  HnswParameters,
+  ReembedProgress,
+  DEFAULT_COLLECTION_ID,
+  DEFAULT_HNSW_PARAMETERS
+} from '../../shared/types/collection';
+import { EmbeddingProvider, DEFAULT_EMBEDDING_PROVIDER_ID } from '../../shared/types/embedding-provider';
+
+interface CollectionSelectorProps {
+  selectedCollectionId: number;
+  onCollectionChange: (collectionId: number) => void;
+}
+
+type DialogMode = 'create' | 'rename' | 'delete' | 'reembed' | 'index' | null;
+
+const CollectionSelector: React.FC<CollectionSelectorProps> = ({
+  selectedCollectionId,
+  onCollectionChange
+}) => {
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [dialogMode, setDialogMode] = useState<DialogMode>(null);
+  const [name, setName] = useState('');
+  const [embeddingProviders, setEmbeddingProviders] = useState<EmbeddingProvider[]>([]);
+  const [embeddingProviderId, setEmbeddingProviderId] = useState(DEFAULT_EMBEDDING_PROVIDER_ID);
+  const [error, setError] = useState<string | null>(null);
+  const [hnsw, setHnsw] = useState<HnswParameters>(DEFAULT_HNSW_PARAMETERS);
+  const [isBusy, setIsBusy] = useState(false);
+  const [reembedProgress, setReembedProgress] = useState<ReembedProgress | null>(null);
+  const [reembedOperationId, setReembedOperationId] = useState<string | null>(null);
+
+  const selectedCollection = collections.find(c => c.id === selectedCollectionId);
+
+  const loadCollections = useCallback(async () => {
+    const result = await window.collections.listCollections();
+    if (result.success) {
+      setCollections(result.collections || []);
+    } else {
+      setError(result.error || 'Failed to load collections');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCollections();
+  }, [loadCollections]);
+
+  useEffect(() => {
+    return window.collections.onReembedProgress((progress: ReembedProgress) => setReembedProgress(progress));
+  }, []);
+
+  const openDialog = async (mode: DialogMode) => {
+    setName(mode === 'rename' && selectedCollection ? selectedCollection.name : '');
+    setError(null);
+    if (mode === 'create' || mode === 'reembed') {
+      const result = await window.embeddingProvider.listProviders();
+      setEmbeddingProviders(result.success ? result.providers || [] : []);
+      setEmbeddingProviderId(mode === 'reembed' && selectedCollection
+        ? selectedCollection.embeddingProviderId
+        : DEFAULT_EMBEDDING_PROVIDER_ID);
+    }
+    setHnsw(mode === 'index' && selectedCollection ? selectedCollection.hnsw : DEFAULT_HNSW_PARAMETERS);
+    setReembedProgress(null);
+    setDialogMode(mode);
+  };
+
+  const closeDialog = () => {
+    if (isBusy) return;
+    setDialogMode(null);
+    setError(null);
+  };
+
+  const handleCancelReembed = async () => {
+    if (reembedOperationId) {
+      await window.operation.cancel(reembedOperationId);
+    }
+  };
+
+  const handleChange = (event: SelectChangeEvent<number>) => {
+    onCollectionChange(Number(event.target.value));
+  };
+
+  const handleConfirm = async () => {
+    let result;
+    setIsBusy(true);
+    if (dialogMode === 'reembed') {
+      // Chosen here so the re-embed can be cancelled before its response arrives
+      const operationId = crypto.randomUUID();
+      setReembedOperationId(operationId);
+      result = await window.collections.reembed(selectedCollectionId, embeddingProviderId, { operationId });
+      setReembedOperationId(null);
+    } else if (dialogMode === 'index') {
+      result = await window.collections.updateIndexParameters(selectedCollectionId, hnsw);
+    } else if (dialogMode === 'create') {
+      result = await window.collections.createCollection({ name, embeddingProviderId });
+    } else if (dialogMode === 'rename') {
+      result = await window.collections.renameCollection(selectedCollectionId, name);
+    } else if (dialogMode === 'delete') {
+      result = await window.collections.deleteCollection(selectedCollectionId);
+    }
+
+    setIsBusy(false);
+    if (result?.cancelled) {
+      setError('Re-embed cancelled; the collection keeps its current embedding model');
+      return;
+    }
+    if (!result?.success) {
+      setError(result?.error || 'Operation failed');
+      return;
+    }
+
+    await loadCollections();
+    if (dialogMode === 'create' && result.collection) {
+      onCollectionChange(result.collection.id);
+    } else if (dialogMode === 'delete') {
+      onCollectionChange(DEFAULT_COLLECTION_ID);
+    }
+    setDialogMode(null);
+  };
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+      <FormControl size="small" sx={{ minWidth: 220 }}>
+        <InputLabel id="collection-select-label">Collection</InputLabel>
+        <Select
+          labelId="collection-select-label"
+          value={collections.length > 0 ? selectedCollectionId : ''}
+          label="Collection"
+          onChange={handleChange}
+        >
+          {collections.map(collection => (
+            <MenuItem key={collection.id} value={collection.id}>
+              {collection.name}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+
+      <Tooltip title="New collection">
+        <IconButton size="small" onClick={() => openDialog('create')}>
+          <AddIcon fontSize="small" />
+        </IconButton>
+      </Tooltip>
+      <Tooltip title="Rename collection">
+        <span>
+          <IconButton size="small" onClick={() => openDialog('rename')} disabled={!selectedCollection}>
+            <EditIcon fontSize="small" />
+          </IconButton>
+        </span>
+      </Tooltip>
+      <Tooltip title="Index parameters">
+        <span>
+          <IconButton size="small" onClick={() => openDialog('index')} disabled={!selectedCollection}>
+            <TuneIcon fontSize="small" />
+          </IconButton>
+        </span>
+      </Tooltip>
+      <Tooltip title="Change embedding model">
+        <span>
+          <IconButton size="small" onClick={() => openDialog('reembed')} disabled={!selectedCollection}>
+            <SyncIcon fontSize="small" />
+          </IconButton>
+        </span>
+      </Tooltip>
+      <Tooltip title="Delete collection">
+        <span>
+          <IconButton
+            size="small"
+            onClick={() => openDialog('delete')}
+            disabled={!selectedCollection || selectedCollectionId === DEFAULT_COLLECTION_ID}
+          >
+            <DeleteIcon fontSize="small" />
+          </IconButton>
+        </span>
+      </Tooltip>
+
+      <Dialog open={dialogMode !== null} onClose={closeDialog} maxWidth="xs" fullWidth>
+        <DialogTitle>
+          {dialogMode === 'create' && 'New Collection'}
+          {dialogMode === 'rename' && 'Rename Collection'}
+          {dialogMode === 'delete' && 'Delete Collection'}
+          {dialogMode === 'reembed' && 'Change Embedding Model'}
+          {dialogMode === 'index' && 'Index Parameters'}
+        </DialogTitle>
+        <DialogContent>
+          {dialogMode === 'delete' && (
+            <Typography variant="body2">
+              Delete "{selectedCollection?.name}" together with its documents and index? This cannot be undone.
+            </Typography>
+          )}
+          {dialogMode === 'reembed' && (
+            <Typography variant="body2">
+              Every chunk in "{selectedCollection?.name}" will be embedded again with the selected provider.
+              Searches keep using the current index until the new one is ready.
+            </Typography>
+          )}
+          {dialogMode === 'index' && (
+            <>
+              <Typography variant="body2">
+                Changing M or efConstruction rebuilds the index of "{selectedCollection?.name}".
+                efSearch is the default search beam width and applies immediately.
+              </Typography>
+              {([
+                ['m', 'M (graph connections)'],
+                ['efConstruction', 'efConstruction'],
+                ['efSearch', 'efSearch']
+              ] as Array<[keyof HnswParameters, string]>).map(([key, label]) => (
+                <TextField
+                  key={key}
+                  fullWidth
+                  margin="dense"
+                  type="number"
+                  label={label}
+                  value={hnsw[key]}
+                  disabled={isBusy}
+                  onChange={e => setHnsw({ ...hnsw, [key]: Number(e.target.value) })}
+                />
+              ))}
+            </>
+          )}
+          {(dialogMode === 'create' || dialogMode === 'rename') && (
+            <TextField
+              autoFocus
+              fullWidth
+              margin="dense"
+              label="Name"
+              value={name}
+              onChange={e => setName(e.target.value)}
+            />
+          )}
+          {(dialogMode === 'create' || dialogMode === 'reembed') && (
+            <FormControl fullWidth margin="dense" disabled={isBusy}>
+              <InputLabel id="embedding-provider-label">Embedding provider</InputLabel>
+              <Select
+                labelId="embedding-provider-label"
+                label="Embedding provider"
+                value={embeddingProviders.length > 0 ? embeddingProviderId : ''}
+                onChange={e => setEmbeddingProviderId(Number(e.target.value))}
+              >
+                {embeddingProviders.map(provider => (
+                  <MenuItem key={provider.id} value={provider.id}>
+                    {provider.name}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          )}
+          {isBusy && reembedProgress && reembedProgress.collectionId === selectedCollectionId && (
+            <Box sx={{ mt: 2 }}>
+              <LinearProgress
+                variant="determinate"
+                value={reembedProgress.total > 0 ? (reembedProgress.processed / reembedProgress.total) * 100 : 0}
+              />
+              <Typography variant="caption" color="text.secondary">
+                {reembedProgress.processed} / {reembedProgress.total} chunks · {reembedProgress.status}
+              </Typography>
+            </Box>
+          )}
+          {error && (
+            <Typography variant="body2" color="error" sx={{ mt: 1 }}>
+              {error}
+            </Typography>
+          )}
+        </DialogContent>
+        <DialogActions>
+          {reembedOperationId ? (
+            <Button onClick={handleCancelReembed} color="error">Stop re-embed</Button>
+          ) : (
+            <Button onClick={closeDialog} disabled={isBusy}>Cancel</Button>
+          )}
+          <Button
+            onClick={handleConfirm}
+            color={dialogMode === 'delete' ? 'error' : 'primary'}
+            disabled={isBusy || ((dialogMode === 'create' || dialogMode === 'rename') && !name.trim())}
+          >
+            {dialogMode === 'delete' ? 'Delete' : dialogMode === 'reembed' ? 'Re-embed' : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default CollectionSelector;
@@ -0,0 +1,23 @@
+import React from 'react';
+import { Box } from '@mui/material';
+import DocumentList from './DocumentList';
+import DuplicateFinder from './DuplicateFinder';
+import IndexMaintenance from './IndexMaintenance';
+import TopicBrowser from './TopicBrowser';
+
+interface DatabaseManagementProps {
+  collectionId: number;
+}
+
+const DatabaseManagement: React.FC<DatabaseManagementProps> = ({ collectionId }) => {
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      <IndexMaintenance collectionId={collectionId} />
+      <DocumentList collectionId={collectionId} />
+      <DuplicateFinder collectionId={collectionId} />
+      <TopicBrowser collectionId={collectionId} />
+    </Box>
+  );
+};
+
+export default DatabaseManagement;
@@ -0,0 +1,131 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Button,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  Paper,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import DeleteIcon from '@mui/icons-material/Delete';
+import RefreshIcon from '@mui/icons-material/Refresh';
+import { DocumentSummary } from '../../shared/types/document';
+
+interface DocumentListProps {
+  collectionId: number;
+}
+
+const DocumentList: React.FC<DocumentListProps> = ({ collectionId }) => {
+  const [documents, setDocuments] = useState<DocumentSummary[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [busySource, setBusySource] = useState<string | null>(null);
+
+  const loadDocuments = useCallback(async () => {
+    const result = await window.documents.listDocuments(collectionId);
+    if (result.success) {
+      setDocuments(result.documents || []);
+    } else {
+      setMessage(`❌ ${result.error || 'Failed to load documents'}`);
+    }
+  }, [collectionId]);
+
+  useEffect(() => {
+    setMessage(null);
+    loadDocuments();
+  }, [loadDocuments]);
+
+  const runAction = async (source: string, action: () => Promise<any>, describe: (result: any) => string) => {
+    setBusySource(source);
+    setMessage(null);
+    try {
+      const response = await action();
+      setMessage(response.success ? `✅ ${describe(response.result)}` : `❌ ${response.error || 'Operation failed'}`);
+      await loadDocuments();
+    } finally {
+      setBusySource(null);
+    }
+  };
+
+  const handleDelete = (source: string) => runAction(
+    source,
+    () => window.documents.deleteDocument(collectionId, source),
+    result => `Removed ${result.chunksRemoved} chunks${result.compacted ? ' and compacted the index' : ''}`
+  );
+
+  const handleReimport = (source: string) => runAction(
+    source,
+    () => window.documents.reimportDocument(collectionId, source),
+    result => `Replaced ${result.chunksRemoved} chunks with ${result.chunksAdded}`
+  );
+
+  const handleCompact = () => runAction(
+    '',
+    () => window.documents.compactIndex(collectionId),
+    result => result.compacted
+      ? `Index rebuilt without ${result.deletedCount} deleted points`
+      : 'Index has no deleted points'
+  );
+
+  return (
+    <Paper sx={{ p: 2 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <Typography variant="h6">
+          Documents
+        </Typography>
+        <Button size="small" onClick={handleCompact} disabled={busySource !== null}>
+          Compact index
+        </Button>
+      </Box>
+
+      {documents.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+          No documents in this collection
+        </Typography>
+      ) : (
+        <List dense>
+          {documents.map(doc => (
+            <ListItem
+              key={doc.source}
+              secondaryAction={
+                <Box>
+                  <Tooltip title="Re-import from disk">
+                    <IconButton size="small" onClick={() => handleReimport(doc.source)} disabled={busySource !== null}>
+                      <RefreshIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title="Delete">
+                    <IconButton size="small" onClick={() => handleDelete(doc.source)} disabled={busySource !== null}>
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                </Box>
+              }
+            >
+              <ListItemText
+                primary={doc.title || doc.source}
+                secondary={`${doc.source} · ${doc.type} · ${doc.chunkCount} chunks · imported ${doc.importedAt}`}
+                primaryTypographyProps={{ noWrap: true }}
+                secondaryTypographyProps={{ noWrap: true }}
+                sx={{ pr: 10 }}
+              />
+            </ListItem>
+          ))}
+        </List>
+      )}
+
+      {message && (
+        <Typography
+          variant="body2"
+          sx={{ mt: 1, color: message.startsWith('✅') ? 'success.main' : 'error.main' }}
+        >
+          {message}
+        </Typography>
+      )}
+    </Paper>
+  );
+};
+
+export default DocumentList;
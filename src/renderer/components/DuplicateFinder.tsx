@@ -0,0 +1,204 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Divider,
+  List,
+  ListItem,
+  ListItemText,
+  Paper,
+  TextField,
+  Typography
+} from '@mui/material';
+import {
+  DuplicateGroup,
+  DuplicateFileGroup,
+  DuplicateReport,
+  DuplicateResolution
+} from '../../shared/types/document';
+
+interface DuplicateFinderProps {
+  collectionId: number;
+}
+
+// Chunk groups listed at once; the rest are summarised in the count
+const MAX_LISTED_GROUPS = 50;
+
+// Similarity threshold used when the field is empty or not a number
+const DEFAULT_THRESHOLD = 0.95;
+
+const DuplicateFinder: React.FC<DuplicateFinderProps> = ({ collectionId }) => {
+  const [threshold, setThreshold] = useState(String(DEFAULT_THRESHOLD));
+  const [report, setReport] = useState<DuplicateReport | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    setReport(null);
+    setMessage(null);
+  }, [collectionId]);
+
+  const scan = async () => {
+    // Parsed here rather than on every keystroke, so the field can be cleared while typing
+    const value = Number(threshold);
+    const parsed = threshold.trim() && Number.isFinite(value) ? Math.min(1, Math.max(0.5, value)) : DEFAULT_THRESHOLD;
+    const response = await window.documents.findDuplicates(collectionId, { threshold: parsed });
+    if (response.success && response.report) {
+      setReport(response.report);
+    } else {
+      setMessage(`❌ ${response.error || 'Duplicate scan failed'}`);
+    }
+  };
+
+  const handleScan = async () => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      await scan();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const resolve = async (resolution: DuplicateResolution) => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      const response = await window.documents.resolveDuplicates(collectionId, resolution);
+      if (!response.success || !response.result) {
+        setMessage(`❌ ${response.error || 'Failed to resolve duplicates'}`);
+        return;
+      }
+
+      const { chunksRemoved, filesRemoved } = response.result;
+      const verb = resolution.action === 'merge' ? 'Merged' : 'Removed';
+      setMessage(`✅ ${verb} ${chunksRemoved} chunks${filesRemoved ? `, ${filesRemoved} files no longer have any` : ''}`);
+      await scan();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const resolveChunks = (group: DuplicateGroup, keepId: number, action: 'delete' | 'merge') => resolve({
+    kind: 'chunks',
+    keepId,
+    removeIds: group.chunks.map(chunk => chunk.id).filter(id => id !== keepId),
+    action
+  });
+
+  const resolveFiles = (group: DuplicateFileGroup, keepSource: string, action: 'delete' | 'merge') => resolve({
+    kind: 'files',
+    keepSource,
+    removeSources: group.files.map(file => file.source).filter(source => source !== keepSource),
+    action,
+    threshold: report?.threshold
+  });
+
+  const renderActions = (onResolve: (action: 'delete' | 'merge') => void) => (
+    <Box sx={{ display: 'flex', gap: 1, flexShrink: 0 }}>
+      <Button size="small" onClick={() => onResolve('merge')} disabled={isBusy}>
+        Keep, merge others
+      </Button>
+      <Button size="small" color="error" onClick={() => onResolve('delete')} disabled={isBusy}>
+        Keep, delete others
+      </Button>
+    </Box>
+  );
+
+  return (
+    <Paper sx={{ p: 2 }}>
+      <Typography variant="h6" gutterBottom>
+        Duplicates
+      </Typography>
+
+      <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+        <TextField
+          label="Similarity threshold"
+          type="number"
+          size="small"
+          value={threshold}
+          onChange={(e) => setThreshold(e.target.value)}
+          inputProps={{ min: 0.5, max: 1, step: 0.01 }}
+          sx={{ width: 180 }}
+        />
+        <Button variant="outlined" onClick={handleScan} disabled={isBusy}>
+          Scan for duplicates
+        </Button>
+      </Box>
+
+      {report && (
+        <Box sx={{ mt: 2 }}>
+          <Typography variant="body2" color="text.secondary">
+            {report.scannedChunks} chunks scanned: {report.redundantChunks} redundant copies in {report.chunkGroups.length} groups,
+            {' '}{report.fileGroups.length} groups of duplicate files
+          </Typography>
+
+          {report.fileGroups.length > 0 && (
+            <>
+              <Typography variant="subtitle2" sx={{ mt: 2 }}>
+                Files
+              </Typography>
+              {report.fileGroups.map((group, groupIndex) => (
+                <List dense key={`files-${groupIndex}`}>
+                  {group.files.map(file => (
+                    <ListItem key={file.source} secondaryAction={renderActions(action => resolveFiles(group, file.source, action))}>
+                      <ListItemText
+                        primary={file.source}
+                        secondary={`${file.duplicatedChunks} of ${file.chunkCount} chunks duplicated`}
+                        primaryTypographyProps={{ noWrap: true }}
+                        sx={{ pr: 36 }}
+                      />
+                    </ListItem>
+                  ))}
+                  <Divider />
+                </List>
+              ))}
+            </>
+          )}
+
+          {report.chunkGroups.length > 0 && (
+            <>
+              <Typography variant="subtitle2" sx={{ mt: 2 }}>
+                Chunks
+              </Typography>
+              {report.chunkGroups.slice(0, MAX_LISTED_GROUPS).map(group => (
+                <List dense key={`chunks-${group.chunks[0].id}`}>
+                  <Chip size="small" label={group.kind === 'exact' ? 'Exact copies' : 'Near-duplicates'} sx={{ ml: 2 }} />
+                  {group.chunks.map(chunk => (
+                    <ListItem key={chunk.id} secondaryAction={renderActions(action => resolveChunks(group, chunk.id, action))}>
+                      <ListItemText
+                        primary={chunk.preview}
+                        secondary={`${chunk.source} · similarity ${chunk.similarity.toFixed(3)}`}
+                        primaryTypographyProps={{ noWrap: true }}
+                        secondaryTypographyProps={{ noWrap: true }}
+                        sx={{ pr: 36 }}
+                      />
+                    </ListItem>
+                  ))}
+                  <Divider />
+                </List>
+              ))}
+              {report.chunkGroups.length > MAX_LISTED_GROUPS && (
+                <Typography variant="body2" color="text.secondary">
+                  {report.chunkGroups.length - MAX_LISTED_GROUPS} more groups not shown
+                </Typography>
+              )}
+            </>
+          )}
+        </Box>
+      )}
+
+      {message && (
+        <Typography
+          variant="body2"
+          sx={{ mt: 1, color: message.startsWith('✅') ? 'success.main' : 'error.main' }}
+        >
+          {message}
+        </Typography>
+      )}
+    </Paper>
+  );
+};
+
+export default DuplicateFinder;
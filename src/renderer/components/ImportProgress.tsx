@@ -6,13 +6,17 @@ interface ImportProgressProps {
     totalFiles: number;
     currentFile: string;
     status: string;
+    chunksCreated?: number;
+    chunksPerSecond?: number;
 }
 
 const ImportProgress: React.FC<ImportProgressProps> = ({
     filesProcessed,
     totalFiles,
     currentFile,
-    status
+    status,
+    chunksCreated,
+    chunksPerSecond
 }) => {
     const progress = totalFiles > 0 ? (filesProcessed / totalFiles) * 100 : 0;
 
@@ -44,6 +48,15 @@ const ImportProgress: React.FC<ImportProgressProps> = ({
                 </Typography>
             </Box>
 
+            {chunksCreated !== undefined && (
+                <Box sx={{ mb: 1 }}>
+                    <Typography variant="body2" color="textSecondary">
+                        Chunks Embedded: {chunksCreated}
+                        {chunksPerSecond ? ` (${chunksPerSecond.toFixed(1)} chunks/s)` : ''}
+                    </Typography>
+                </Box>
+            )}
+
             {currentFile && (
                 <Box sx={{ mb: 1 }}>
                     <Typography variant="body2" color="textSecondary" noWrap>
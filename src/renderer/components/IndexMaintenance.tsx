@@ -0,0 +1,361 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Button,
+  FormControl,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Paper,
+  Select,
+  TextField,
+  Typography
+} from '@mui/material';
+import { Collection, EmbeddingStorageFormat } from '../../shared/types/collection';
+import {
+  EmbeddingCacheStats,
+  RebuildIndexResult,
+  RecallReport,
+  RepairResult,
+  VerifyIssue,
+  VerifyReport
+} from '../../shared/types/vector-store';
+
+interface IndexMaintenanceProps {
+  collectionId: number;
+}
+
+const IndexMaintenance: React.FC<IndexMaintenanceProps> = ({ collectionId }) => {
+  const [collection, setCollection] = useState<Collection | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [report, setReport] = useState<VerifyReport | null>(null);
+  const [cacheStats, setCacheStats] = useState<EmbeddingCacheStats | null>(null);
+  const [cacheLimitMb, setCacheLimitMb] = useState('');
+  const [recallK, setRecallK] = useState('10');
+  const [recallSample, setRecallSample] = useState('50');
+  const [recallEfValues, setRecallEfValues] = useState('');
+  const [recallReport, setRecallReport] = useState<RecallReport | null>(null);
+
+  const loadCollection = useCallback(async () => {
+    const result = await window.collections.listCollections();
+    if (result.success) {
+      setCollection((result.collections || []).find((c: Collection) => c.id === collectionId) || null);
+    }
+  }, [collectionId]);
+
+  const loadCacheStats = useCallback(async () => {
+    const result = await window.vectorStore.getCacheStats();
+    if (result.success) {
+      setCacheStats(result.stats);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCacheStats();
+  }, [loadCacheStats]);
+
+  useEffect(() => {
+    setMessage(null);
+    setReport(null);
+    setRecallReport(null);
+    loadCollection();
+  }, [loadCollection]);
+
+  const handleStorageChange = async (format: EmbeddingStorageFormat) => {
+    const result = await window.collections.setEmbeddingStorage(collectionId, format);
+    if (result.success) {
+      setCollection(result.collection || null);
+    } else {
+      setMessage(`❌ ${result.error || 'Failed to change vector storage'}`);
+    }
+  };
+
+  const handleRebuild = async () => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      const response = await window.vectorStore.rebuildIndex(collectionId);
+      if (response.success) {
+        const result: RebuildIndexResult = response.result;
+        setMessage(
+          `✅ Rebuilt index with ${result.vectorCount} vectors` +
+          (result.restoredFromIndex ? `, ${result.restoredFromIndex} copied from the previous index` : '') +
+          (result.missing ? `; ${result.missing} chunks have no stored vector and need re-embedding` : '')
+        );
+      } else {
+        setMessage(`❌ ${response.error || 'Rebuild failed'}`);
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleVerify = async () => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      const response = await window.vectorStore.verify(collectionId);
+      if (response.success) {
+        setReport(response.report);
+      } else {
+        setMessage(`❌ ${response.error || 'Verification failed'}`);
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRepair = async () => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      const response = await window.vectorStore.repair(collectionId);
+      if (response.success) {
+        const result: RepairResult = response.result;
+        setReport(result.report);
+        setMessage(
+          `✅ Removed ${result.orphanedLabelsRemoved} orphaned labels, restored ${result.vectorsRestored} vectors, ` +
+          `re-embedded ${result.vectorsReembedded} chunks and fixed ${result.storedVectorsFixed} stored vectors` +
+          (result.duplicatesResolved ? '; rebuilt the index to drop duplicate labels' : '') +
+          (result.statisticsSynced ? '; statistics recounted' : '')
+        );
+        await loadCollection();
+      } else {
+        setMessage(`❌ ${response.error || 'Repair failed'}`);
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleMeasureRecall = async () => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      const efValues = recallEfValues
+        .split(',')
+        .map(value => value.trim())
+        .filter(Boolean)
+        .map(Number);
+      const response = await window.vectorStore.measureRecall(collectionId, {
+        k: Number(recallK),
+        sampleSize: Number(recallSample),
+        efValues: efValues.length > 0 ? efValues : undefined
+      });
+      if (response.success) {
+        setRecallReport(response.report);
+      } else {
+        setMessage(`❌ ${response.error || 'Recall measurement failed'}`);
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSetCacheLimit = async () => {
+    const result = await window.vectorStore.setCacheLimit(Math.round(Number(cacheLimitMb) * 1024 * 1024));
+    if (result.success) {
+      setCacheStats(result.stats);
+      setCacheLimitMb('');
+    } else {
+      setMessage(`❌ ${result.error || 'Failed to change the embedding cache limit'}`);
+    }
+  };
+
+  const handleClearCache = async () => {
+    const result = await window.vectorStore.clearCache();
+    if (result.success) {
+      setCacheStats(result.stats);
+    } else {
+      setMessage(`❌ ${result.error || 'Failed to clear the embedding cache'}`);
+    }
+  };
+
+  const describeCache = (stats: EmbeddingCacheStats) => {
+    const lookups = stats.hits + stats.misses;
+    const hitRate = lookups > 0 ? ` (${Math.round((stats.hits / lookups) * 100)}% hit rate)` : '';
+    const megabytes = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+    return `${stats.entries} vectors, ${megabytes(stats.bytes)} of ${megabytes(stats.maxBytes)} MB · ` +
+      `${stats.hits} hits, ${stats.misses} misses${hitRate}`;
+  };
+
+  const describeIssue = (issue: VerifyIssue) => issue.count === 0
+    ? 'none'
+    : `${issue.count} (ids ${issue.sample.join(', ')}${issue.count > issue.sample.length ? ', …' : ''})`;
+
+  const reportRows = (r: VerifyReport): [string, string][] => [
+    ['Chunks in database', String(r.documentCount)],
+    ['Live vectors in index', `${r.indexElementCount} (${r.deletedLabelCount} marked deleted)`],
+    ['Orphaned labels', describeIssue(r.orphanedLabels)],
+    ['Chunks without a vector', describeIssue(r.documentsWithoutVector)],
+    ['Duplicate labels', describeIssue(r.duplicateLabels)],
+    [
+      'Dimensions',
+      `index ${r.dimension.index}, collection ${r.dimension.collection ?? 'unset'}, provider ${r.dimension.provider ?? 'unknown'}`
+    ],
+    ['Stored vectors with wrong dimension', describeIssue(r.dimension.storedVectorMismatches)],
+    [
+      'Statistics',
+      r.statistics?.stale
+        ? `stale (${r.statistics.recordedDocuments} documents / ${r.statistics.recordedChunks} chunks recorded, ` +
+          `${r.statistics.actualDocuments} / ${r.statistics.actualChunks} actual)`
+        : 'up to date'
+    ]
+  ];
+
+  return (
+    <Paper sx={{ p: 2 }}>
+      <Typography variant="h6" gutterBottom>
+        Index Maintenance
+      </Typography>
+
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2 }}>
+        <FormControl size="small" sx={{ minWidth: 220 }} disabled={!collection || isBusy}>
+          <InputLabel id="embedding-storage-label">Stored vectors</InputLabel>
+          <Select
+            labelId="embedding-storage-label"
+            label="Stored vectors"
+            value={collection?.embeddingStorage || 'float32'}
+            onChange={e => handleStorageChange(e.target.value as EmbeddingStorageFormat)}
+          >
+            <MenuItem value="float32">float32 (exact)</MenuItem>
+            <MenuItem value="int8">int8 (quantized, 4x smaller)</MenuItem>
+          </Select>
+        </FormControl>
+        <Button variant="outlined" onClick={handleRebuild} disabled={isBusy}>
+          Rebuild index from database
+        </Button>
+        <Button variant="outlined" onClick={handleVerify} disabled={isBusy}>
+          Verify
+        </Button>
+        <Button
+          variant="contained"
+          color="warning"
+          onClick={handleRepair}
+          disabled={isBusy || !report || report.isConsistent}
+        >
+          Repair
+        </Button>
+      </Box>
+
+      {cacheStats && (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 2 }}>
+          <Typography variant="body2" color="text.secondary">
+            Embedding cache: {describeCache(cacheStats)}
+          </Typography>
+          <Button size="small" onClick={loadCacheStats} disabled={isBusy}>
+            Refresh
+          </Button>
+          <Button size="small" onClick={handleClearCache} disabled={isBusy || cacheStats.entries === 0}>
+            Clear
+          </Button>
+          <TextField
+            size="small"
+            type="number"
+            label="Limit (MB)"
+            placeholder={(cacheStats.maxBytes / (1024 * 1024)).toFixed(0)}
+            value={cacheLimitMb}
+            onChange={e => setCacheLimitMb(e.target.value)}
+            inputProps={{ min: 1 }}
+            InputLabelProps={{ shrink: true }}
+            sx={{ width: 110 }}
+          />
+          <Button size="small" onClick={handleSetCacheLimit} disabled={isBusy || !cacheLimitMb}>
+            Set limit
+          </Button>
+        </Box>
+      )}
+
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1, mt: 2 }}>
+        <TextField
+          size="small"
+          type="number"
+          label="k"
+          value={recallK}
+          onChange={e => setRecallK(e.target.value)}
+          inputProps={{ min: 1 }}
+          sx={{ width: 80 }}
+        />
+        <TextField
+          size="small"
+          type="number"
+          label="Sample queries"
+          value={recallSample}
+          onChange={e => setRecallSample(e.target.value)}
+          inputProps={{ min: 1 }}
+          sx={{ width: 130 }}
+        />
+        <TextField
+          size="small"
+          label="ef values"
+          placeholder={collection ? String(collection.hnsw.efSearch) : 'e.g. 50, 100, 200'}
+          value={recallEfValues}
+          onChange={e => setRecallEfValues(e.target.value)}
+          InputLabelProps={{ shrink: true }}
+          sx={{ width: 170 }}
+        />
+        <Button variant="outlined" onClick={handleMeasureRecall} disabled={isBusy}>
+          Measure recall
+        </Button>
+      </Box>
+
+      {recallReport && (
+        <Box sx={{ mt: 1 }}>
+          <Typography variant="body2" color="text.secondary">
+            {recallReport.sampleSize} queries over {recallReport.vectorCount} vectors
+            (M {recallReport.hnsw.m}, efConstruction {recallReport.hnsw.efConstruction});
+            exact scan {recallReport.exactMeanLatencyMs.toFixed(2)} ms/query
+          </Typography>
+          <List dense disablePadding>
+            {recallReport.measurements.map(measurement => (
+              <ListItem key={measurement.ef} disableGutters>
+                <ListItemText
+                  primary={`ef ${measurement.ef}: recall@${recallReport.k} ${(measurement.recall * 100).toFixed(1)}%`}
+                  secondary={`${measurement.meanLatencyMs.toFixed(2)} ms/query`}
+                />
+              </ListItem>
+            ))}
+          </List>
+        </Box>
+      )}
+
+      {report && (
+        <Box sx={{ mt: 2 }}>
+          <Typography
+            variant="subtitle2"
+            sx={{ color: report.isConsistent ? 'success.main' : 'warning.main' }}
+          >
+            {report.isConsistent ? 'Index and database are consistent' : 'Problems found — review before repairing'}
+          </Typography>
+          <List dense disablePadding>
+            {reportRows(report).map(([label, value]) => (
+              <ListItem key={label} disableGutters>
+                <ListItemText primary={label} secondary={value} />
+              </ListItem>
+            ))}
+          </List>
+          {!report.isConsistent && report.dimension.provider !== undefined &&
+            report.indexElementCount > 0 && report.dimension.provider !== report.dimension.index && (
+            <Typography variant="body2" color="text.secondary">
+              The embedding provider no longer matches the index dimension; re-embed the collection to fix this.
+            </Typography>
+          )}
+        </Box>
+      )}
+
+      {message && (
+        <Typography
+          variant="body2"
+          sx={{ mt: 1, color: message.startsWith('✅') ? 'success.main' : 'error.main' }}
+        >
+          {message}
+        </Typography>
+      )}
+    </Paper>
+  );
+};
+
+export default IndexMaintenance;
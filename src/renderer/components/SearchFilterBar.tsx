@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { Box, Button, MenuItem, TextField } from '@mui/material';
+import { SearchFilters } from '../../shared/types/api';
+import { Topic } from '../../shared/types/topic';
+
+interface SearchFilterBarProps {
+  filters: SearchFilters;
+  onChange: (filters: SearchFilters) => void;
+  /** Topics of the collection; the topic filter is hidden when there are none */
+  topics?: Topic[];
+}
+
+const SearchFilterBar: React.FC<SearchFilterBarProps> = ({ filters, onChange, topics = [] }) => {
+  // Keep the raw text so separators can be typed before the next file type
+  const [fileTypesText, setFileTypesText] = useState((filters.fileTypes || []).join(', '));
+
+  const update = (patch: Partial<SearchFilters>) => onChange({ ...filters, ...patch });
+
+  const handleFileTypesChange = (text: string) => {
+    setFileTypesText(text);
+    update({ fileTypes: text.split(',').map(type => type.trim()).filter(Boolean) });
+  };
+
+  const handleClear = () => {
+    setFileTypesText('');
+    onChange({});
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 1 }}>
+      <TextField
+        size="small"
+        label="File types"
+        placeholder="pdf, md"
+        value={fileTypesText}
+        onChange={e => handleFileTypesChange(e.target.value)}
+      />
+      <TextField
+        size="small"
+        label="Source path"
+        placeholder="*/docs/*.md"
+        value={filters.sourceGlob || ''}
+        onChange={e => update({ sourceGlob: e.target.value || undefined })}
+      />
+      <TextField
+        size="small"
+        label="Category"
+        value={filters.category || ''}
+        onChange={e => update({ category: e.target.value || undefined })}
+      />
+      <TextField
+        size="small"
+        label="Title contains"
+        value={filters.titleContains || ''}
+        onChange={e => update({ titleContains: e.target.value || undefined })}
+      />
+      <TextField
+        size="small"
+        type="date"
+        label="Imported from"
+        InputLabelProps={{ shrink: true }}
+        value={filters.importedAfter || ''}
+        onChange={e => update({ importedAfter: e.target.value || undefined })}
+      />
+      <TextField
+        size="small"
+        type="date"
+        label="Imported before"
+        InputLabelProps={{ shrink: true }}
+        value={filters.importedBefore || ''}
+        onChange={e => update({ importedBefore: e.target.value || undefined })}
+      />
+      {topics.length > 0 && (
+        <TextField
+          select
+          size="small"
+          label="Topic"
+          value={filters.topicId ?? ''}
+          onChange={e => update({ topicId: e.target.value === '' ? undefined : Number(e.target.value) })}
+          sx={{ minWidth: 160 }}
+        >
+          <MenuItem value="">Any</MenuItem>
+          {topics.map(topic => (
+            <MenuItem key={topic.id} value={topic.id}>
+              {topic.label} ({topic.chunkCount})
+            </MenuItem>
+          ))}
+        </TextField>
+      )}
+      <Button size="small" onClick={handleClear}>
+        Clear
+      </Button>
+    </Box>
+  );
+};
+
+export default SearchFilterBar;
@@ -1 +1,482 @@
-// Enhanced search input and results display
\ No newline at end of file
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Button,
+  CircularProgress,
+  FormControlLabel,
+  Slider,
+  Switch,
+  TextField,
+  Tooltip,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography
+} from '@mui/material';
+import SearchIcon from '@mui/icons-material/Search';
+import FilterListIcon from '@mui/icons-material/FilterList';
+import SearchResults from './SearchResults';
+import SearchFilterBar from './SearchFilterBar';
+import ImportProgress from './ImportProgress';
+import {
+  SearchFilters,
+  SearchMode,
+  SearchResult,
+  SyncSummary,
+  ImportProgress as ImportProgressState
+} from '../../shared/types/api';
+import { Topic, TopicListResponse } from '../../shared/types/topic';
+
+interface SearchInterfaceProps {
+  collectionId: number;
+}
+
+const SearchInterface: React.FC<SearchInterfaceProps> = ({ collectionId }) => {
+  const [query, setQuery] = useState('');
+  const [mode, setMode] = useState<SearchMode>('hybrid');
+  const [keywordWeight, setKeywordWeight] = useState(1);
+  const [ef, setEf] = useState('');
+  const [diversify, setDiversify] = useState(false);
+  const [mmrLambda, setMmrLambda] = useState(0.5);
+  const [rerank, setRerank] = useState(false);
+  const [exact, setExact] = useState(false);
+  const [contextWindow, setContextWindow] = useState('');
+  const [highlight, setHighlight] = useState(true);
+  const [semanticHighlight, setSemanticHighlight] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
+  const [filters, setFilters] = useState<SearchFilters>({});
+  const [topics, setTopics] = useState<Topic[]>([]);
+  const [results, setResults] = useState<SearchResult[] | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | undefined>(undefined);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [similarTo, setSimilarTo] = useState<SearchResult | null>(null);
+  const [excludeSameSource, setExcludeSameSource] = useState(true);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchOperationId, setSearchOperationId] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importOperationId, setImportOperationId] = useState<string | null>(null);
+  const [rollbackOnCancel, setRollbackOnCancel] = useState(false);
+  const [embeddingBatchSize, setEmbeddingBatchSize] = useState('');
+  const [importNotice, setImportNotice] = useState<string | null>(null);
+  const [progress, setProgress] = useState<ImportProgressState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [syncSummary, setSyncSummary] = useState<SyncSummary | null>(null);
+
+  // Results belong to the collection they were searched in
+  useEffect(() => {
+    setResults(null);
+    setNextCursor(undefined);
+    setSimilarTo(null);
+    // Topic ids belong to one collection
+    setFilters(current => ({ ...current, topicId: undefined }));
+  }, [collectionId]);
+
+  // Reload when the filters are opened, since clustering may have run in the meantime
+  useEffect(() => {
+    if (!showFilters) return;
+    window.topics.list(collectionId).then((response: TopicListResponse) => {
+      setTopics(response.success ? response.topics : []);
+    });
+  }, [collectionId, showFilters]);
+
+  useEffect(() => {
+    return window.import.onProgress((update: ImportProgressState) => setProgress(update));
+  }, []);
+
+  const handleSearch = async () => {
+    if (!query.trim()) return;
+
+    // Chosen here so the search can be cancelled before its response arrives
+    const operationId = crypto.randomUUID();
+    setIsSearching(true);
+    setSearchOperationId(operationId);
+    setError(null);
+    try {
+      const response = await window.search.search(query, {
+        collectionId,
+        operationId,
+        limit: 10,
+        mode,
+        weights: { vector: 1, keyword: keywordWeight },
+        filters,
+        ef: ef ? Number(ef) : undefined,
+        mmrLambda: diversify && mode !== 'keyword' ? mmrLambda : undefined,
+        rerank: rerank ? {} : undefined,
+        exact: exact && mode !== 'keyword',
+        contextWindow: contextWindow ? Number(contextWindow) : undefined,
+        highlight,
+        semanticHighlight: highlight && semanticHighlight
+      });
+      if (response.success) {
+        setResults(response.results || []);
+        setNextCursor(response.nextCursor);
+        setSimilarTo(null);
+      } else if (!response.cancelled) {
+        setError(response.error || 'Search failed');
+        setNextCursor(undefined);
+      }
+    } finally {
+      setIsSearching(false);
+      setSearchOperationId(null);
+    }
+  };
+
+  const handleCancelSearch = async () => {
+    if (searchOperationId) {
+      await window.operation.cancel(searchOperationId);
+    }
+  };
+
+  // Uses the stored vector of the chunk, so nothing is embedded
+  const handleFindSimilar = async (result: SearchResult) => {
+    setIsSearching(true);
+    setError(null);
+    try {
+      const response = await window.search.similar({ chunkId: result.id }, {
+        collectionId,
+        limit: 10,
+        filters,
+        excludeSameSource
+      });
+      if (response.success) {
+        setResults(response.results || []);
+        setNextCursor(undefined);
+        setSimilarTo(result);
+      } else {
+        setError(response.error || 'Similar search failed');
+      }
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  // The cursor carries the query, options and query embedding of the original search
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+
+    const operationId = crypto.randomUUID();
+    setIsLoadingMore(true);
+    setSearchOperationId(operationId);
+    setError(null);
+    try {
+      const response = await window.search.search('', { collectionId, cursor: nextCursor, operationId });
+      if (response.success) {
+        setResults(prev => [...(prev || []), ...(response.results || [])]);
+        setNextCursor(response.nextCursor);
+      } else if (!response.cancelled) {
+        setError(response.error || 'Loading more results failed');
+      }
+    } finally {
+      setIsLoadingMore(false);
+      setSearchOperationId(null);
+    }
+  };
+
+  const handleImport = async (kind: 'files' | 'folder' | 'sync') => {
+    // Chosen here so the import can be cancelled before its response arrives
+    const operationId = crypto.randomUUID();
+    const operationOptions = {
+      operationId,
+      onCancel: rollbackOnCancel ? 'rollback' : 'commit',
+      embedding: embeddingBatchSize ? { batchSize: Number(embeddingBatchSize) } : undefined
+    };
+
+    setIsImporting(true);
+    setImportOperationId(operationId);
+    setError(null);
+    setImportNotice(null);
+    setSyncSummary(null);
+    setProgress(null);
+    try {
+      const response = kind === 'files'
+        ? await window.import.selectFiles(collectionId, operationOptions)
+        : await window.import.selectFolder(collectionId, { ...operationOptions, sync: kind === 'sync' });
+      if (response.cancelled) {
+        setImportNotice('Import cancelled');
+      } else if (!response.success && response.error && !response.error.startsWith('No ')) {
+        setError(response.error);
+      }
+      if (response.success && response.summary) {
+        setSyncSummary(response.summary);
+      }
+      if (response.success && response.result?.cancelled) {
+        setImportNotice(
+          `Import cancelled: ${response.result.filesProcessed} files kept, ` +
+          `${response.result.pendingFiles?.length ?? 0} not imported`
+        );
+      }
+    } finally {
+      setIsImporting(false);
+      setImportOperationId(null);
+      setProgress(null);
+    }
+  };
+
+  const handleCancelImport = async () => {
+    if (importOperationId) {
+      await window.operation.cancel(importOperationId);
+    }
+  };
+
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      handleSearch();
+    }
+  };
+
+  return (
+    <Box sx={{ mt: 2 }}>
+      <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+        <Button variant="outlined" onClick={() => handleImport('files')} disabled={isImporting}>
+          Import Files
+        </Button>
+        <Button variant="outlined" onClick={() => handleImport('folder')} disabled={isImporting}>
+          Import Folder
+        </Button>
+        <Button variant="outlined" onClick={() => handleImport('sync')} disabled={isImporting}>
+          Sync Folder
+        </Button>
+        {isImporting && (
+          <Button color="error" onClick={handleCancelImport}>
+            Cancel
+          </Button>
+        )}
+        <Tooltip title="When an import is cancelled, also remove the files it had already finished">
+          <FormControlLabel
+            control={
+              <Switch
+                size="small"
+                checked={rollbackOnCancel}
+                onChange={e => setRollbackOnCancel(e.target.checked)}
+                disabled={isImporting}
+              />
+            }
+            label={<Typography variant="caption">Roll back on cancel</Typography>}
+          />
+        </Tooltip>
+        <Tooltip title="Chunks sent to the embedding model in one request">
+          <TextField
+            size="small"
+            type="number"
+            label="Batch"
+            placeholder="32"
+            value={embeddingBatchSize}
+            onChange={e => setEmbeddingBatchSize(e.target.value)}
+            disabled={isImporting}
+            inputProps={{ min: 1 }}
+            InputLabelProps={{ shrink: true }}
+            sx={{ width: 90 }}
+          />
+        </Tooltip>
+      </Box>
+
+      {importNotice && (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          {importNotice}
+        </Typography>
+      )}
+
+      {syncSummary && (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Sync {syncSummary.cancelled ? 'cancelled' : 'finished'}: {syncSummary.added} added, {syncSummary.updated} updated, {syncSummary.removed} removed,
+          {' '}{syncSummary.unchanged} unchanged ({syncSummary.chunksAdded} chunks added, {syncSummary.chunksRemoved} removed)
+          {syncSummary.errors.length > 0 && `, ${syncSummary.errors.length} files failed`}
+        </Typography>
+      )}
+
+      {isImporting && progress && (
+        <ImportProgress
+          filesProcessed={progress.filesProcessed}
+          totalFiles={progress.totalFiles}
+          currentFile={progress.currentFile || ''}
+          status={progress.status}
+          chunksCreated={progress.chunksCreated}
+          chunksPerSecond={progress.chunksPerSecond}
+        />
+      )}
+
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 1 }}>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={mode}
+          onChange={(_, value: SearchMode | null) => value && setMode(value)}
+        >
+          <ToggleButton value="vector">Semantic</ToggleButton>
+          <ToggleButton value="keyword">Keyword</ToggleButton>
+          <ToggleButton value="hybrid">Hybrid</ToggleButton>
+        </ToggleButtonGroup>
+        {mode === 'hybrid' && (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, width: 260 }}>
+            <Typography variant="caption" color="text.secondary" noWrap>
+              Keyword weight
+            </Typography>
+            <Slider
+              size="small"
+              min={0}
+              max={3}
+              step={0.25}
+              value={keywordWeight}
+              valueLabelDisplay="auto"
+              onChange={(_, value) => setKeywordWeight(value as number)}
+            />
+          </Box>
+        )}
+        {mode !== 'keyword' && (
+          <Tooltip title="Scan every vector instead of the approximate index search; slower but exact">
+            <FormControlLabel
+              control={<Switch size="small" checked={exact} onChange={e => setExact(e.target.checked)} />}
+              label={<Typography variant="caption">Exact</Typography>}
+            />
+          </Tooltip>
+        )}
+        {mode !== 'keyword' && !exact && (
+          <TextField
+            size="small"
+            type="number"
+            label="ef"
+            placeholder="default"
+            value={ef}
+            onChange={e => setEf(e.target.value)}
+            inputProps={{ min: 1 }}
+            InputLabelProps={{ shrink: true }}
+            sx={{ width: 100 }}
+          />
+        )}
+        {mode !== 'keyword' && (
+          <FormControlLabel
+            control={<Switch size="small" checked={diversify} onChange={e => setDiversify(e.target.checked)} />}
+            label={<Typography variant="caption">Diversify</Typography>}
+          />
+        )}
+        {mode !== 'keyword' && diversify && (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, width: 220 }}>
+            <Typography variant="caption" color="text.secondary" noWrap>
+              Relevance λ
+            </Typography>
+            <Slider
+              size="small"
+              min={0}
+              max={1}
+              step={0.05}
+              value={mmrLambda}
+              valueLabelDisplay="auto"
+              onChange={(_, value) => setMmrLambda(value as number)}
+            />
+          </Box>
+        )}
+        <FormControlLabel
+          control={<Switch size="small" checked={rerank} onChange={e => setRerank(e.target.checked)} />}
+          label={<Typography variant="caption">Rerank</Typography>}
+        />
+        <Tooltip title="Also show this many chunks before and after each hit">
+          <TextField
+            size="small"
+            type="number"
+            label="Context"
+            placeholder="0"
+            value={contextWindow}
+            onChange={e => setContextWindow(e.target.value)}
+            inputProps={{ min: 0 }}
+            InputLabelProps={{ shrink: true }}
+            sx={{ width: 90 }}
+          />
+        </Tooltip>
+        <Tooltip title="Mark the query terms in each result">
+          <FormControlLabel
+            control={<Switch size="small" checked={highlight} onChange={e => setHighlight(e.target.checked)} />}
+            label={<Typography variant="caption">Highlight</Typography>}
+          />
+        </Tooltip>
+        {highlight && (
+          <Tooltip title="Also mark the sentences closest in meaning to the query; slower, as each sentence is embedded">
+            <FormControlLabel
+              control={
+                <Switch size="small" checked={semanticHighlight} onChange={e => setSemanticHighlight(e.target.checked)} />
+              }
+              label={<Typography variant="caption">Best sentences</Typography>}
+            />
+          </Tooltip>
+        )}
+        <Button
+          size="small"
+          startIcon={<FilterListIcon />}
+          onClick={() => setShowFilters(!showFilters)}
+        >
+          Filters
+        </Button>
+      </Box>
+
+      {showFilters && <SearchFilterBar filters={filters} onChange={setFilters} topics={topics} />}
+
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        <TextField
+          fullWidth
+          size="small"
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          onKeyPress={handleKeyPress}
+          placeholder="Search the collection..."
+          disabled={isSearching}
+        />
+        <Button
+          variant="contained"
+          onClick={handleSearch}
+          disabled={isSearching || !query.trim()}
+          endIcon={isSearching ? <CircularProgress size={20} color="inherit" /> : <SearchIcon />}
+        >
+          Search
+        </Button>
+        {searchOperationId && (
+          <Button color="error" onClick={handleCancelSearch}>
+            Cancel
+          </Button>
+        )}
+      </Box>
+
+      {error && (
+        <Typography variant="body2" color="error" sx={{ mt: 1 }}>
+          {error}
+        </Typography>
+      )}
+
+      {similarTo && (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 2 }}>
+          <Typography variant="body2" color="text.secondary" noWrap sx={{ flexGrow: 1 }}>
+            Chunks similar to {similarTo.context || similarTo.location}
+          </Typography>
+          <FormControlLabel
+            control={
+              <Switch
+                size="small"
+                checked={excludeSameSource}
+                onChange={e => setExcludeSameSource(e.target.checked)}
+              />
+            }
+            label={<Typography variant="caption">Exclude same file</Typography>}
+          />
+          <Button size="small" onClick={() => handleFindSimilar(similarTo)} disabled={isSearching}>
+            Refresh
+          </Button>
+        </Box>
+      )}
+
+      {results && <SearchResults results={results} onFindSimilar={handleFindSimilar} />}
+
+      {results && nextCursor && (
+        <Box sx={{ display: 'flex', justifyContent: 'center', mt: 2 }}>
+          <Button
+            variant="outlined"
+            onClick={handleLoadMore}
+            disabled={isLoadingMore}
+            endIcon={isLoadingMore ? <CircularProgress size={16} color="inherit" /> : undefined}
+          >
+            Load more
+          </Button>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default SearchInterface;
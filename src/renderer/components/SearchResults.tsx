@@ -1 +1,113 @@
-// Improved search results styling and organization
\ No newline at end of file
+import React from 'react';
+import { Box, Button, Chip, Paper, Tooltip, Typography } from '@mui/material';
+import { HighlightSpan, SearchResult, describeProvenance } from '../../shared/types/api';
+
+interface SearchResultsProps {
+  results: SearchResult[];
+  /** Shows a "More like this" button on every result when given */
+  onFindSimilar?: (result: SearchResult) => void;
+}
+
+/**
+ * Split the text at every span boundary and style each piece by the kinds of
+ * span covering it, so keyword marks inside a highlighted sentence still show.
+ */
+function renderHighlighted(text: string, spans: HighlightSpan[] = []): React.ReactNode {
+  if (spans.length === 0) return text;
+
+  const boundaries = Array.from(new Set([0, text.length, ...spans.flatMap(span => [span.start, span.end])]))
+    .filter(offset => offset >= 0 && offset <= text.length)
+    .sort((a, b) => a - b);
+
+  const pieces: React.ReactNode[] = [];
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const start = boundaries[i];
+    const end = boundaries[i + 1];
+    const covering = spans.filter(span => span.start <= start && span.end >= end);
+    const keyword = covering.some(span => span.kind === 'keyword');
+    const semantic = covering.some(span => span.kind === 'semantic');
+    const piece = text.slice(start, end);
+
+    pieces.push(keyword || semantic ? (
+      <Box
+        key={start}
+        component="mark"
+        sx={{
+          color: 'inherit',
+          backgroundColor: keyword ? 'rgba(255, 193, 7, 0.45)' : 'rgba(33, 150, 243, 0.15)',
+          fontWeight: keyword ? 600 : undefined,
+          borderRadius: 0.5
+        }}
+      >
+        {piece}
+      </Box>
+    ) : piece);
+  }
+  return pieces;
+}
+
+const SearchResults: React.FC<SearchResultsProps> = ({ results, onFindSimilar }) => {
+  if (results.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+        No results
+      </Typography>
+    );
+  }
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5, mt: 2 }}>
+      {results.map((result, index) => (
+        <Paper key={`${result.location}-${index}`} elevation={2} sx={{ p: 2 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+            <Chip label={`${Math.round(result.confidence * 100)}%`} size="small" color="primary" />
+            {result.rerankScore !== undefined && (
+              <Tooltip title="Cross-encoder relevance">
+                <Chip label={`rerank ${Math.round(result.rerankScore * 100)}%`} size="small" color="success" />
+              </Tooltip>
+            )}
+            {result.scores?.keyword !== undefined && result.scores?.fused !== undefined && (
+              <Chip label="keyword match" size="small" color="secondary" variant="outlined" />
+            )}
+            <Chip label={result.fileType} size="small" variant="outlined" />
+            <Typography variant="caption" color="text.secondary" noWrap sx={{ flexGrow: 1 }}>
+              {result.location}
+              {result.provenance && ` · ${describeProvenance(result.provenance)}`}
+            </Typography>
+            {result.passage && result.passage.lastChunk > result.passage.firstChunk && (
+              <Tooltip title="The hit with its neighbouring chunks">
+                <Chip
+                  label={`chunks ${result.passage.firstChunk + 1}–${result.passage.lastChunk + 1}`}
+                  size="small"
+                  variant="outlined"
+                />
+              </Tooltip>
+            )}
+            {result.alsoIn && result.alsoIn.length > 0 && (
+              <Tooltip title={`Also in ${result.alsoIn.join(', ')}`}>
+                <Chip label={`+${result.alsoIn.length} copies`} size="small" variant="outlined" />
+              </Tooltip>
+            )}
+          </Box>
+          {result.context && (
+            <Typography variant="subtitle2" gutterBottom>
+              {result.context}
+            </Typography>
+          )}
+          <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+            {renderHighlighted(result.passage?.content ?? result.content, result.highlights)}
+          </Typography>
+          {onFindSimilar && (
+            <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 1 }}>
+              <Button size="small" onClick={() => onFindSimilar(result)}>
+                More like this
+              </Button>
+            </Box>
+          )}
+        </Paper>
+      ))}
+    </Box>
+  );
+};
+
+export default SearchResults;
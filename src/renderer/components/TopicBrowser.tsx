@@ -0,0 +1,214 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Button,
+  CircularProgress,
+  List,
+  ListItemButton,
+  ListItemText,
+  MenuItem,
+  Paper,
+  TextField,
+  Typography
+} from '@mui/material';
+import { LLMProvider } from '../../shared/types/llm-provider';
+import { Topic, TopicChunk, TopicClusterResponse, TopicListResponse } from '../../shared/types/topic';
+
+interface TopicBrowserProps {
+  collectionId: number;
+}
+
+// Chunks of the selected topic shown per page
+const CHUNK_PAGE_SIZE = 20;
+
+const TopicBrowser: React.FC<TopicBrowserProps> = ({ collectionId }) => {
+  const [providers, setProviders] = useState<LLMProvider[]>([]);
+  const [providerId, setProviderId] = useState<number | ''>('');
+  const [topicCount, setTopicCount] = useState('');
+  const [topics, setTopics] = useState<Topic[]>([]);
+  const [unassignedChunks, setUnassignedChunks] = useState(0);
+  const [selectedTopic, setSelectedTopic] = useState<Topic | null>(null);
+  const [chunks, setChunks] = useState<TopicChunk[]>([]);
+  const [hasMoreChunks, setHasMoreChunks] = useState(false);
+  const [operationId, setOperationId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadTopics = useCallback(async () => {
+    const response: TopicListResponse = await window.topics.list(collectionId);
+    if (response.success) {
+      setTopics(response.topics);
+      setUnassignedChunks(response.unassignedChunks);
+    } else {
+      setMessage(`❌ ${response.error || 'Failed to load topics'}`);
+    }
+  }, [collectionId]);
+
+  useEffect(() => {
+    setSelectedTopic(null);
+    setChunks([]);
+    setMessage(null);
+    loadTopics();
+  }, [loadTopics]);
+
+  useEffect(() => {
+    const loadProviders = async () => {
+      const [list, defaultProvider] = await Promise.all([
+        window.llmProvider.listProviders(),
+        window.llmProvider.getDefaultProvider()
+      ]);
+      setProviders(list.providers || []);
+      if (defaultProvider?.id) setProviderId(defaultProvider.id);
+    };
+    loadProviders();
+  }, []);
+
+  const loadChunks = async (topic: Topic, offset: number) => {
+    const response = await window.topics.chunks(topic.id, CHUNK_PAGE_SIZE, offset);
+    if (!response.success) {
+      setMessage(`❌ ${response.error || 'Failed to load the chunks of the topic'}`);
+      return;
+    }
+    setChunks(current => (offset === 0 ? response.chunks : [...current, ...response.chunks]));
+    setHasMoreChunks(response.chunks.length === CHUNK_PAGE_SIZE);
+  };
+
+  const handleSelectTopic = (topic: Topic) => {
+    setSelectedTopic(topic);
+    setChunks([]);
+    loadChunks(topic, 0);
+  };
+
+  const handleCluster = async () => {
+    if (providerId === '') return;
+
+    const id = crypto.randomUUID();
+    setOperationId(id);
+    setMessage(null);
+    try {
+      const response: TopicClusterResponse = await window.topics.cluster(collectionId, providerId, {
+        topicCount: topicCount ? Number(topicCount) : undefined,
+        operationId: id
+      });
+      if (response.success && response.result) {
+        const { topics: found, chunksAssigned, chunksWithoutVector } = response.result;
+        setMessage(`✅ Assigned ${chunksAssigned} chunks to ${found.length} topics` +
+          (chunksWithoutVector ? `; ${chunksWithoutVector} chunks have no vector` : ''));
+        setSelectedTopic(null);
+        setChunks([]);
+        await loadTopics();
+      } else if (response.cancelled) {
+        setMessage('❌ Clustering cancelled; the previous topics were kept');
+      } else {
+        setMessage(`❌ ${response.error || 'Clustering failed'}`);
+      }
+    } finally {
+      setOperationId(null);
+    }
+  };
+
+  return (
+    <Paper sx={{ p: 2 }}>
+      <Typography variant="h6" gutterBottom>
+        Topics
+      </Typography>
+
+      <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap' }}>
+        <TextField
+          select
+          size="small"
+          label="Label with"
+          value={providerId}
+          onChange={(e) => setProviderId(Number(e.target.value))}
+          sx={{ minWidth: 200 }}
+        >
+          {providers.map(provider => (
+            <MenuItem key={provider.id} value={provider.id}>
+              {provider.name}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          label="Topics"
+          type="number"
+          size="small"
+          placeholder="auto"
+          value={topicCount}
+          onChange={(e) => setTopicCount(e.target.value)}
+          inputProps={{ min: 2, max: 30 }}
+          sx={{ width: 100 }}
+        />
+        <Button variant="outlined" onClick={handleCluster} disabled={operationId !== null || providerId === ''}>
+          {topics.length > 0 ? 'Recluster' : 'Find topics'}
+        </Button>
+        {operationId && (
+          <>
+            <CircularProgress size={20} />
+            <Button size="small" color="warning" onClick={() => window.operation.cancel(operationId)}>
+              Cancel
+            </Button>
+          </>
+        )}
+      </Box>
+
+      {topics.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+          No topics yet; clustering assigns every chunk to a topic and lets the LLM name them
+        </Typography>
+      ) : (
+        <Box sx={{ display: 'flex', gap: 2, mt: 2 }}>
+          <Box sx={{ width: 260, flexShrink: 0 }}>
+            <List dense>
+              {topics.map(topic => (
+                <ListItemButton
+                  key={topic.id}
+                  selected={selectedTopic?.id === topic.id}
+                  onClick={() => handleSelectTopic(topic)}
+                >
+                  <ListItemText primary={topic.label} secondary={`${topic.chunkCount} chunks`} />
+                </ListItemButton>
+              ))}
+            </List>
+            {unassignedChunks > 0 && (
+              <Typography variant="caption" color="text.secondary">
+                {unassignedChunks} chunks imported since the last run have no topic
+              </Typography>
+            )}
+          </Box>
+
+          {selectedTopic && (
+            <Box sx={{ flexGrow: 1, minWidth: 0 }}>
+              <List dense>
+                {chunks.map(chunk => (
+                  <ListItemText
+                    key={chunk.id}
+                    primary={chunk.content}
+                    secondary={chunk.chunkIndex !== undefined ? `${chunk.source} · chunk ${chunk.chunkIndex + 1}` : chunk.source}
+                    primaryTypographyProps={{ sx: { display: '-webkit-box', WebkitLineClamp: 3, WebkitBoxOrient: 'vertical', overflow: 'hidden' } }}
+                    secondaryTypographyProps={{ noWrap: true }}
+                    sx={{ mb: 1 }}
+                  />
+                ))}
+              </List>
+              {hasMoreChunks && (
+                <Button size="small" onClick={() => loadChunks(selectedTopic, chunks.length)}>
+                  Show more
+                </Button>
+              )}
+            </Box>
+          )}
+        </Box>
+      )}
+
+      {message && (
+        <Typography
+          variant="body2"
+          sx={{ mt: 1, color: message.startsWith('✅') ? 'success.main' : 'error.main' }}
+        >
+          {message}
+        </Typography>
+      )}
+    </Paper>
+  );
+};
+
+export default TopicBrowser;
@@ -0,0 +1,209 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Button,
+  FormControl,
+  IconButton,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Paper,
+  Select,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import DeleteIcon from '@mui/icons-material/Delete';
+import NetworkCheckIcon from '@mui/icons-material/NetworkCheck';
+import {
+  EmbeddingConfig,
+  EmbeddingProvider,
+  EmbeddingProviderType,
+  DEFAULT_EMBEDDING_PROVIDER_ID
+} from '../../../shared/types/embedding-provider';
+
+const TYPE_LABELS: Record<EmbeddingProviderType, string> = {
+  xenova: 'In-process (Xenova)',
+  ollama: 'Ollama',
+  openai: 'OpenAI-compatible'
+};
+
+const DEFAULT_ENDPOINTS: Record<EmbeddingProviderType, string> = {
+  xenova: '',
+  ollama: 'http://localhost:11434',
+  openai: 'https://api.openai.com/v1'
+};
+
+const EmbeddingProviderList: React.FC = () => {
+  const [providers, setProviders] = useState<EmbeddingProvider[]>([]);
+  const [name, setName] = useState('');
+  const [type, setType] = useState<EmbeddingProviderType>('ollama');
+  const [endpoint, setEndpoint] = useState(DEFAULT_ENDPOINTS.ollama);
+  const [model, setModel] = useState('nomic-embed-text');
+  const [apiKey, setApiKey] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const loadProviders = useCallback(async () => {
+    const result = await window.embeddingProvider.listProviders();
+    if (result.success) {
+      setProviders(result.providers || []);
+    } else {
+      setMessage(`❌ ${result.error || 'Failed to load embedding providers'}`);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadProviders();
+  }, [loadProviders]);
+
+  const handleTypeChange = (newType: EmbeddingProviderType) => {
+    setType(newType);
+    setEndpoint(DEFAULT_ENDPOINTS[newType]);
+  };
+
+  const buildConfig = (): EmbeddingConfig => {
+    if (type === 'ollama') {
+      return { endpoint, model };
+    }
+    if (type === 'openai') {
+      return { baseUrl: endpoint, model, apiKey: apiKey || undefined };
+    }
+    return { model };
+  };
+
+  const handleCreate = async () => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      const result = await window.embeddingProvider.createProvider({ name, type, config: buildConfig() });
+      if (result.success) {
+        const dimension = result.provider?.dimension;
+        setMessage(dimension ? `✅ Provider added (${dimension} dimensions)` : '✅ Provider added; dimension will be detected on first use');
+        setName('');
+        await loadProviders();
+      } else {
+        setMessage(`❌ ${result.error || 'Failed to add provider'}`);
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleTest = async (provider: EmbeddingProvider) => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      const result = await window.embeddingProvider.testProvider(provider.id);
+      setMessage(result.success
+        ? `✅ ${provider.name} returned ${result.dimension}-dimensional vectors`
+        : `❌ ${result.error || 'Test failed'}`);
+      await loadProviders();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDelete = async (provider: EmbeddingProvider) => {
+    const result = await window.embeddingProvider.deleteProvider(provider.id);
+    if (!result.success) {
+      setMessage(`❌ ${result.error || 'Failed to delete provider'}`);
+    }
+    await loadProviders();
+  };
+
+  return (
+    <Paper sx={{ p: 2 }}>
+      <Typography variant="h6" gutterBottom>
+        Embedding Providers
+      </Typography>
+
+      <List dense>
+        {providers.map(provider => (
+          <ListItem
+            key={provider.id}
+            secondaryAction={
+              <Box>
+                <Tooltip title="Test and detect dimension">
+                  <IconButton size="small" onClick={() => handleTest(provider)} disabled={isBusy}>
+                    <NetworkCheckIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+                <Tooltip title="Delete">
+                  <span>
+                    <IconButton
+                      size="small"
+                      onClick={() => handleDelete(provider)}
+                      disabled={isBusy || provider.id === DEFAULT_EMBEDDING_PROVIDER_ID}
+                    >
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </span>
+                </Tooltip>
+              </Box>
+            }
+          >
+            <ListItemText
+              primary={provider.name}
+              secondary={`${TYPE_LABELS[provider.type]} · ${provider.config.model} · ${provider.dimension ? `${provider.dimension} dims` : 'dimension unknown'}`}
+            />
+          </ListItem>
+        ))}
+      </List>
+
+      <Typography variant="subtitle2" sx={{ mt: 2, mb: 1 }}>
+        Add provider
+      </Typography>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, alignItems: 'center' }}>
+        <TextField size="small" label="Name" value={name} onChange={e => setName(e.target.value)} />
+        <FormControl size="small" sx={{ minWidth: 180 }}>
+          <InputLabel id="embedding-type-label">Type</InputLabel>
+          <Select
+            labelId="embedding-type-label"
+            label="Type"
+            value={type}
+            onChange={e => handleTypeChange(e.target.value as EmbeddingProviderType)}
+          >
+            {(Object.keys(TYPE_LABELS) as EmbeddingProviderType[]).map(key => (
+              <MenuItem key={key} value={key}>{TYPE_LABELS[key]}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        {type !== 'xenova' && (
+          <TextField
+            size="small"
+            label={type === 'ollama' ? 'Endpoint' : 'Base URL'}
+            value={endpoint}
+            onChange={e => setEndpoint(e.target.value)}
+          />
+        )}
+        <TextField size="small" label="Model" value={model} onChange={e => setModel(e.target.value)} />
+        {type === 'openai' && (
+          <TextField
+            size="small"
+            type="password"
+            label="API Key"
+            value={apiKey}
+            onChange={e => setApiKey(e.target.value)}
+          />
+        )}
+        <Button variant="contained" onClick={handleCreate} disabled={isBusy || !name.trim() || !model.trim()}>
+          Add
+        </Button>
+      </Box>
+
+      {message && (
+        <Typography
+          variant="body2"
+          sx={{ mt: 1, color: message.startsWith('✅') ? 'success.main' : 'error.main' }}
+        >
+          {message}
+        </Typography>
+      )}
+    </Paper>
+  );
+};
+
+export default EmbeddingProviderList;
@@ -0,0 +1,13 @@
+import React from 'react';
+import { Box } from '@mui/material';
+import EmbeddingProviderList from './EmbeddingProviderList';
+
+const SettingsTab: React.FC = () => {
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      <EmbeddingProviderList />
+    </Box>
+  );
+};
+
+export default SettingsTab;
@@ -4,14 +4,166 @@
  * This file contains types for the API interfaces between the main and renderer processes.
  */
 
+import { ImportCancelBehaviour } from './operation';
+
+export type SearchMode = 'vector' | 'keyword' | 'hybrid';
+
+export const SEARCH_MODES: SearchMode[] = ['vector', 'keyword', 'hybrid'];
+
+/**
+ * Relative weight of each ranked list in reciprocal rank fusion
+ */
+export interface SearchWeights {
+  vector?: number;
+  keyword?: number;
+}
+
+/**
+ * Cross-encoder rescoring of the best candidates; enabled when present
+ */
+export interface RerankOptions {
+  /** Number of candidates rescored, 20 by default */
+  topN?: number;
+  /** Cross-encoder model, Xenova/ms-marco-MiniLM-L-6-v2 by default */
+  model?: string;
+}
+
+/**
+ * Metadata constraints applied while candidates are retrieved. All given fields
+ * must match; dates are ISO strings compared against the chunk's import time.
+ */
+export interface SearchFilters {
+  fileTypes?: string[];
+  sourceGlob?: string;
+  category?: string;
+  titleContains?: string;
+  importedAfter?: string;
+  importedBefore?: string;
+  /** Only chunks assigned to this topic by the last clustering run */
+  topicId?: number;
+}
+
+/**
+ * Where a chunk came from within its source file. Lines are 1-based and
+ * inclusive; offsets are 0-based character positions with an exclusive end.
+ */
+export interface ChunkProvenance {
+  page?: number;
+  startLine?: number;
+  endLine?: number;
+  startOffset?: number;
+  endOffset?: number;
+  /** Enclosing headings, outermost first */
+  headingPath?: string[];
+}
+
+/**
+ * Short human-readable form, e.g. "p. 12, lines 40-58, Setup > Install"
+ */
+export function describeProvenance(provenance: ChunkProvenance | undefined): string {
+  if (!provenance) return '';
+
+  const parts: string[] = [];
+  if (provenance.page !== undefined) {
+    parts.push(`p. ${provenance.page}`);
+  }
+  if (provenance.startLine !== undefined) {
+    parts.push(provenance.endLine !== undefined && provenance.endLine !== provenance.startLine
+      ? `lines ${provenance.startLine}-${provenance.endLine}`
+      : `line ${provenance.startLine}`);
+  }
+  if (provenance.headingPath?.length) {
+    parts.push(provenance.headingPath.join(' > '));
+  }
+  return parts.join(', ');
+}
+
+/**
+ * A matching chunk merged with its neighbouring chunks from the same document
+ */
+export interface ExpandedPassage {
+  content: string;
+  /** chunk_index of the first and last chunk in the passage */
+  firstChunk: number;
+  lastChunk: number;
+  provenance?: ChunkProvenance;
+}
+
+/**
+ * A range of the displayed result text (passage content when present, chunk
+ * content otherwise) worth drawing attention to. Keyword spans are query terms;
+ * semantic spans are the sentences closest in meaning to the query.
+ */
+export interface HighlightSpan {
+  start: number;
+  end: number;
+  kind: 'keyword' | 'semantic';
+  /** Cosine similarity to the query, for semantic spans */
+  score?: number;
+}
+
 export interface SearchResult {
-  id: string;
+  /** Id of the matching chunk */
+  id: number;
   content: string;
-  metadata: {
-    source: string;
-    [key: string]: any;
+  confidence: number;
+  /** Cross-encoder relevance (0-1) when the results were reranked */
+  rerankScore?: number;
+  fileType: string;
+  location: string;
+  context: string;
+  provenance?: ChunkProvenance;
+  /** The chunk with its neighbours, when the search asked for a context window */
+  passage?: ExpandedPassage;
+  highlights?: HighlightSpan[];
+  /** Other files that contained this chunk before their copies were merged into it */
+  alsoIn?: string[];
+  scores?: {
+    vector?: number;
+    keyword?: number;
+    fused?: number;
+    mmr?: number;
   };
-  score: number;
+}
+
+export interface SearchRequestOptions {
+  collectionId?: number;
+  limit?: number;
+  minScore?: number;
+  mode?: SearchMode;
+  weights?: SearchWeights;
+  filters?: SearchFilters;
+  ef?: number;
+  /** Maximal marginal relevance lambda (0-1); results are not diversified when unset */
+  mmrLambda?: number;
+  rerank?: RerankOptions;
+  /** Scan every vector instead of the approximate HNSW search */
+  exact?: boolean;
+  /** Number of chunks before and after each hit to include as context */
+  contextWindow?: number;
+  /** Return keyword highlight spans with each result */
+  highlight?: boolean;
+  /** With highlight, also mark the best-matching sentences; slower, as it embeds them */
+  semanticHighlight?: boolean;
+  /** nextCursor of a previous response; continues that search and ignores the other options */
+  cursor?: string;
+  /** Id to cancel the search with over operation:cancel */
+  operationId?: string;
+}
+
+/**
+ * What a "more like this" search starts from: one chunk, or a whole document
+ * (all chunks of a source file, averaged)
+ */
+export type SimilarSearchTarget = { chunkId: number } | { source: string };
+
+export interface SimilarSearchOptions {
+  collectionId?: number;
+  limit?: number;
+  minScore?: number;
+  filters?: SearchFilters;
+  /** Leave out other chunks of the target's own file; always the case for a document target */
+  excludeSameSource?: boolean;
 }
 
 export interface SearchResponse {
@@ -20,6 +172,9 @@ export interface SearchResponse {
   error?: string;
   totalResults?: number;
   executionTime?: number;
+  /** Opaque cursor for the next page of results; absent on the last page */
+  nextCursor?: string;
+  cancelled?: boolean;
 }
 
 export interface ImportResult {
@@ -34,6 +189,8 @@ export interface ImportProgress {
   totalFiles: number;
   currentFile?: string;
   chunksCreated: number;
+  /** Embedding throughput of the running import */
+  chunksPerSecond?: number;
   status: string;
   error?: string;
   isComplete?: boolean;
@@ -47,18 +204,91 @@ export interface ImportOptions {
   isDirectory?: boolean;
 }
 
+/**
+ * Lets the renderer cancel an import with `operation:cancel`
+ */
+/**
+ * Limits of the worker-thread embedding pipeline used by imports
+ */
+export interface EmbeddingPipelineOptions {
+  /** Chunks sent to the embedding model in one request */
+  batchSize?: number;
+  /** Batches that may be embedding at the same time */
+  concurrency?: number;
+  /** Chunks an import holds in memory between embedding and insertion */
+  maxQueuedChunks?: number;
+  /** Heap limit of the embedding worker in megabytes */
+  workerMemoryMb?: number;
+}
+
+export interface ImportOperationOptions {
+  /** Id the import runs under; the renderer picks it so it can cancel before the response */
+  operationId?: string;
+  onCancel?: ImportCancelBehaviour;
+  /** Overrides of the embedding pipeline defaults */
+  embedding?: EmbeddingPipelineOptions;
+}
+
+export interface FolderImportOptions extends ImportOperationOptions {
+  sync?: boolean;
+  forceUpdate?: boolean;
+}
+
+/**
+ * Outcome of synchronising a collection with a folder on disk
+ */
+export interface SyncSummary {
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+  chunksAdded: number;
+  chunksRemoved: number;
+  errors: Array<{
+    file: string;
+    error: string;
+  }>;
+  /** The sync was cancelled; files it did not reach are unchanged */
+  cancelled?: boolean;
+}
+
+/**
+ * How RAG finds context: one search for the question, a search per
+ * LLM-written paraphrase fused together, or a search with the embedding of a
+ * hypothetical answer (HyDE)
+ */
+export type RetrievalStrategy = 'single' | 'multi-query' | 'hyde';
+
+/**
+ * The searches RAG ran for a question, kept with the answer
+ */
+export interface RetrievalTrace {
+  strategy: RetrievalStrategy;
+  /** Texts that were searched: the question and its paraphrases, or the hypothetical answer */
+  queries: string[];
+}
+
 export interface RAGResponse {
   success: boolean;
   response?: string;
   prompt?: string;
   sources?: SearchResult[];
+  retrieval?: RetrievalTrace;
+  cancelled?: boolean;
   error?: string;
   executionTime?: number;
 }
 
 export interface RAGContext {
   provider?: any;
+  collectionId?: number;
   maxResults?: number;
   minScore?: number;
+  mmrLambda?: number;
+  rerank?: RerankOptions;
+  contextWindow?: number;
+  retrieval?: RetrievalStrategy;
+  /** Id to cancel the question with over operation:cancel */
+  operationId?: string;
   includePrompt?: boolean;
 }
@@ -0,0 +1,83 @@
+/**
+ * Collection Types
+ *
+ * This file contains types for document collections. Each collection owns
+ * its own HNSW index file, document rows and statistics.
+ */
+
+export const DEFAULT_COLLECTION_ID = 1;
+
+/**
+ * HNSW graph parameters. M and efConstruction are fixed when an index is built;
+ * efSearch is the default beam width for queries and can be overridden per query.
+ */
+export interface HnswParameters {
+  m: number;
+  efConstruction: number;
+  efSearch: number;
+}
+
+/**
+ * How a collection stores vectors in SQLite; int8 takes a quarter of the space
+ */
+export type EmbeddingStorageFormat = 'float32' | 'int8';
+
+export const DEFAULT_HNSW_PARAMETERS: HnswParameters = {
+  m: 16,
+  efConstruction: 200,
+  efSearch: 50
+};
+
+export interface Collection {
+  id: number;
+  name: string;
+  description?: string;
+  embeddingProviderId: number;
+  dimension?: number;
+  hnsw: HnswParameters;
+  embeddingStorage: EmbeddingStorageFormat;
+  createdAt: string;
+  updatedAt: string;
+  lastImport?: string;
+}
+
+export interface CollectionStatistics {
+  collectionId: number;
+  totalDocuments: number;
+  totalChunks: number;
+  lastImport: string | null;
+}
+
+export interface ReembedOptions {
+  /** Id under which the re-embed can be cancelled, see operation:cancel */
+  operationId?: string;
+}
+
+export interface ReembedProgress {
+  collectionId: number;
+  processed: number;
+  total: number;
+  status: string;
+  error?: string;
+  isComplete?: boolean;
+}
+
+export interface CreateCollectionRequest {
+  name: string;
+  description?: string;
+  embeddingProviderId?: number;
+  hnsw?: Partial<HnswParameters>;
+  embeddingStorage?: EmbeddingStorageFormat;
+}
+
+export interface CollectionResponse {
+  success: boolean;
+  collection?: Collection;
+  error?: string;
+}
+
+export interface CollectionListResponse {
+  success: boolean;
+  collections?: Collection[];
+  error?: string;
+}
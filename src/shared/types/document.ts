@@ -0,0 +1,112 @@
+/**
+ * Document Types
+ *
+ * This file contains types for managing imported documents, i.e. all chunks that
+ * were created from one source file within a collection.
+ */
+
+export interface DocumentSummary {
+  source: string;
+  type: string;
+  title?: string;
+  chunkCount: number;
+  importedAt: string;
+}
+
+export interface DocumentListResponse {
+  success: boolean;
+  documents: DocumentSummary[];
+  error?: string;
+}
+
+export interface DocumentDeleteResult {
+  chunksRemoved: number;
+  compacted: boolean;
+}
+
+export interface DocumentReimportResult {
+  chunksRemoved: number;
+  chunksAdded: number;
+  compacted: boolean;
+}
+
+export interface CompactionResult {
+  compacted: boolean;
+  liveCount: number;
+  deletedCount: number;
+}
+
+export interface DuplicateScanOptions {
+  /** Cosine similarity (0-1) from which two chunks count as near-duplicates; defaults to 0.95 */
+  threshold?: number;
+}
+
+export interface DuplicateChunk {
+  id: number;
+  source: string;
+  preview: string;
+  /** Cosine similarity to the first chunk of the group, 1 for exact copies */
+  similarity: number;
+}
+
+/**
+ * Chunks with the same content hash, or linked by a chain of near-duplicate
+ * pairs. The first chunk is the earliest imported one and the suggested copy to keep.
+ */
+export interface DuplicateGroup {
+  kind: 'exact' | 'near';
+  chunks: DuplicateChunk[];
+}
+
+export interface DuplicateFile {
+  source: string;
+  chunkCount: number;
+  /** Chunks of the file with a duplicate in the group member it shares most with */
+  duplicatedChunks: number;
+}
+
+/**
+ * Files that are largely copies of each other: every linked pair shares most
+ * of its chunks as duplicates.
+ */
+export interface DuplicateFileGroup {
+  files: DuplicateFile[];
+}
+
+export interface DuplicateReport {
+  collectionId: number;
+  threshold: number;
+  scannedChunks: number;
+  /** Chunks that are in a group but not its first member */
+  redundantChunks: number;
+  chunkGroups: DuplicateGroup[];
+  fileGroups: DuplicateFileGroup[];
+}
+
+/**
+ * What to do with a duplicate group. `delete` removes the other copies; `merge`
+ * also removes them but records their sources on the kept chunks, which search
+ * results then list as other locations. Merging files only removes the chunks
+ * the other files share with the kept one, so their unique content stays.
+ */
+export type DuplicateResolution =
+  | { kind: 'chunks'; keepId: number; removeIds: number[]; action: 'delete' | 'merge' }
+  | { kind: 'files'; keepSource: string; removeSources: string[]; action: 'delete' | 'merge'; threshold?: number };
+
+export interface DuplicateResolutionResult {
+  chunksRemoved: number;
+  filesRemoved: number;
+  compacted: boolean;
+}
+
+export interface DuplicateReportResponse {
+  success: boolean;
+  report?: DuplicateReport;
+  error?: string;
+}
+
+export interface DuplicateResolutionResponse {
+  success: boolean;
+  result?: DuplicateResolutionResult;
+  error?: string;
+}
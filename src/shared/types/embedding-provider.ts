@@ -0,0 +1,69 @@
+/**
+ * Embedding Provider Types
+ *
+ * This file contains types for embedding providers. Embedding providers turn
+ * chunk text into vectors and are configured alongside the LLM providers.
+ */
+
+export type EmbeddingProviderType = 'xenova' | 'ollama' | 'openai';
+
+export const DEFAULT_EMBEDDING_PROVIDER_ID = 1;
+
+export interface XenovaEmbeddingConfig {
+  model: string;
+}
+
+export interface OllamaEmbeddingConfig {
+  endpoint: string;
+  model: string;
+}
+
+export interface OpenAIEmbeddingConfig {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+export type EmbeddingConfig = XenovaEmbeddingConfig | OllamaEmbeddingConfig | OpenAIEmbeddingConfig;
+
+export interface EmbeddingProvider {
+  id: number;
+  name: string;
+  type: EmbeddingProviderType;
+  config: EmbeddingConfig;
+  dimension?: number;
+  createdAt: string;
+  lastUsed?: string;
+}
+
+export interface CreateEmbeddingProviderRequest {
+  name: string;
+  type: EmbeddingProviderType;
+  config: EmbeddingConfig;
+}
+
+export interface UpdateEmbeddingProviderRequest {
+  name?: string;
+  config?: Partial<EmbeddingConfig>;
+}
+
+export interface EmbeddingProviderResponse {
+  success: boolean;
+  provider?: EmbeddingProvider;
+  error?: string;
+}
+
+export interface EmbeddingProviderListResponse {
+  success: boolean;
+  providers?: EmbeddingProvider[];
+  error?: string;
+}
+
+// Type guard functions
+export function isOllamaEmbeddingConfig(type: EmbeddingProviderType, config: EmbeddingConfig): config is OllamaEmbeddingConfig {
+  return type === 'ollama' && 'endpoint' in config;
+}
+
+export function isOpenAIEmbeddingConfig(type: EmbeddingProviderType, config: EmbeddingConfig): config is OpenAIEmbeddingConfig {
+  return type === 'openai' && 'baseUrl' in config;
+}
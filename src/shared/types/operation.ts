@@ -0,0 +1,36 @@
+/**
+ * Operation Types
+ *
+ * Long-running requests (imports, folder syncs, re-embeds, searches, RAG
+ * questions and topic clustering) run under an operation id, usually chosen by
+ * the renderer when it sends the request, so that it can cancel them over
+ * `operation:cancel` while the request is still pending.
+ */
+
+export type OperationKind = 'import' | 'sync' | 'reembed' | 'search' | 'rag' | 'cluster';
+
+export interface OperationInfo {
+  id: string;
+  kind: OperationKind;
+  startedAt: number;
+}
+
+export interface OperationCancelResponse {
+  success: boolean;
+  /** False when no running operation has the id, e.g. because it already finished */
+  cancelled: boolean;
+  error?: string;
+}
+
+export interface OperationListResponse {
+  success: boolean;
+  operations: OperationInfo[];
+  error?: string;
+}
+
+/**
+ * What a cancelled import does with the files it had already finished: keep
+ * them, or remove everything it stored. The file being imported at the time of
+ * cancellation is always removed.
+ */
+export type ImportCancelBehaviour = 'commit' | 'rollback';
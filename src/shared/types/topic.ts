@@ -0,0 +1,61 @@
+/**
+ * Topic Types
+ *
+ * Topics come from clustering a collection's stored chunk vectors with k-means.
+ * The selected LLM provider labels each cluster from the chunks nearest its
+ * centre. The latest run is stored, so topics can be browsed and searches
+ * filtered by topic (see SearchFilters.topicId).
+ */
+
+export interface Topic {
+  id: number;
+  collectionId: number;
+  label: string;
+  chunkCount: number;
+  /** Chunks nearest the cluster centre, which the label was written from */
+  representativeIds: number[];
+  createdAt: string;
+}
+
+export interface TopicClusterOptions {
+  /** Number of clusters; derived from the collection size when unset */
+  topicCount?: number;
+  /** Id under which the run can be cancelled, see operation:cancel */
+  operationId?: string;
+}
+
+export interface TopicClusterResult {
+  topics: Topic[];
+  chunksAssigned: number;
+  /** Chunks with no stored or indexed vector, which could not be assigned */
+  chunksWithoutVector: number;
+}
+
+export interface TopicChunk {
+  id: number;
+  source: string;
+  title?: string;
+  content: string;
+  chunkIndex?: number;
+}
+
+export interface TopicListResponse {
+  success: boolean;
+  topics: Topic[];
+  /** Chunks without a topic, e.g. imported after the last clustering run */
+  unassignedChunks: number;
+  error?: string;
+}
+
+export interface TopicClusterResponse {
+  success: boolean;
+  result?: TopicClusterResult;
+  cancelled?: boolean;
+  error?: string;
+}
+
+export interface TopicChunksResponse {
+  success: boolean;
+  chunks: TopicChunk[];
+  error?: string;
+}
@@ -0,0 +1,96 @@
+/**
+ * Vector Store Types
+ *
+ * This file contains types for index maintenance operations on a collection's
+ * vector index.
+ */
+
+import { HnswParameters } from './collection';
+
+export interface RebuildIndexResult {
+  vectorCount: number;
+  restoredFromIndex: number;
+  missing: number;
+}
+
+/**
+ * Ids affected by one kind of inconsistency; only a sample is listed for large counts
+ */
+export interface VerifyIssue {
+  count: number;
+  sample: number[];
+}
+
+export interface VerifyReport {
+  collectionId: number;
+  documentCount: number;
+  indexElementCount: number;
+  deletedLabelCount: number;
+  orphanedLabels: VerifyIssue;
+  documentsWithoutVector: VerifyIssue;
+  duplicateLabels: VerifyIssue;
+  dimension: {
+    index: number;
+    collection?: number;
+    provider?: number;
+    storedVectorMismatches: VerifyIssue;
+  };
+  statistics?: {
+    stale: boolean;
+    recordedDocuments: number;
+    recordedChunks: number;
+    actualDocuments: number;
+    actualChunks: number;
+  };
+  isConsistent: boolean;
+}
+
+export interface RepairResult {
+  orphanedLabelsRemoved: number;
+  vectorsRestored: number;
+  vectorsReembedded: number;
+  storedVectorsFixed: number;
+  duplicatesResolved: boolean;
+  statisticsSynced: boolean;
+  report: VerifyReport;
+}
+
+/**
+ * Size and effectiveness of the persistent embedding cache
+ */
+export interface EmbeddingCacheStats {
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+  hits: number;
+  misses: number;
+}
+
+export interface RecallOptions {
+  /** Neighbours compared per query, 10 by default */
+  k?: number;
+  /** Number of indexed vectors used as queries, 50 by default */
+  sampleSize?: number;
+  /** ef values to measure; the collection's efSearch when omitted */
+  efValues?: number[];
+}
+
+export interface RecallMeasurement {
+  ef: number;
+  /** Mean share of the exact top-k that HNSW also returned */
+  recall: number;
+  meanLatencyMs: number;
+}
+
+/**
+ * Recall@k of approximate HNSW search compared with an exact scan
+ */
+export interface RecallReport {
+  collectionId: number;
+  k: number;
+  sampleSize: number;
+  vectorCount: number;
+  hnsw: HnswParameters;
+  exactMeanLatencyMs: number;
+  measurements: RecallMeasurement[];
+}
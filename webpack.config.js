@@ -6,6 +6,7 @@ module.exports = {
   entry: {
     main: './src/main/index.ts',
     preload: './src/main/preload.ts',
+    'embedding.worker': './src/main/workers/embedding.worker.ts',
     renderer: './src/renderer/index.tsx'
   },
   target: 'electron-main',